@@ -0,0 +1,262 @@
+#!/usr/bin/env node
+/*
+ * Database migration runner for the Supabase (Postgres) backend.
+ *
+ *   npm run migrate -- up [--to <version>] [--dry-run]
+ *   npm run migrate -- down [--steps <n>] [--dry-run]
+ *   npm run migrate -- status
+ *
+ * Migrations are the `NNNN_name.up.sql` / `NNNN_name.down.sql` pairs in
+ * `migrations/`, applied in version order. Each runs in its own transaction
+ * together with its row in `schema_migrations`, which records the SHA-256 of
+ * the up file; an applied migration whose file has since changed stops `up`
+ * and `down`. Connects to DATABASE_URL, loaded from the environment and the
+ * same `.env` files as the server.
+ *
+ * Plain CommonJS so it runs without a build step.
+ */
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+const dotenv = require('dotenv');
+const { Client } = require('pg');
+
+const MIGRATIONS_DIR = path.join(__dirname, 'migrations');
+const FILE_PATTERN = /^(\d{4})_([\w-]+)\.(up|down)\.sql$/;
+
+// Serializes concurrent runs, e.g. two deploys starting at once
+const LOCK_ID = 827_310_017;
+
+const TRACKING_TABLE_SQL = `
+CREATE TABLE IF NOT EXISTS schema_migrations (
+  version TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  checksum TEXT NOT NULL,
+  applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);`;
+
+const USAGE = `Usage: npm run migrate -- <command> [options]
+
+Commands:
+  up        Apply pending migrations
+  down      Revert the most recently applied migrations
+  status    List migrations and whether each is applied
+
+Options:
+  --to <version>   up: stop after this version
+  --steps <n>      down: how many to revert (default: 1)
+  --dry-run        Print the SQL that would run without running it`;
+
+class MigrationError extends Error {}
+
+const checksum = (sql) => crypto.createHash('sha256').update(sql).digest('hex');
+
+// Migrations on disk, oldest first
+const readMigrations = () => {
+  const byVersion = new Map();
+  for (const file of fs.readdirSync(MIGRATIONS_DIR).sort()) {
+    const match = FILE_PATTERN.exec(file);
+    if (!match) continue;
+    const [, version, name, direction] = match;
+
+    const migration = byVersion.get(version) ?? { version, name };
+    if (migration.name !== name) {
+      throw new MigrationError(`Version ${version} is used by both ${migration.name} and ${name}`);
+    }
+    migration[direction] = fs.readFileSync(path.join(MIGRATIONS_DIR, file), 'utf8');
+    byVersion.set(version, migration);
+  }
+
+  const migrations = [...byVersion.values()];
+  for (const migration of migrations) {
+    if (migration.up === undefined) {
+      throw new MigrationError(`Migration ${migration.version}_${migration.name} has no .up.sql file`);
+    }
+    migration.checksum = checksum(migration.up);
+  }
+  return migrations;
+};
+
+const parseArgs = (argv) => {
+  const [command, ...rest] = argv;
+  const options = { command, dryRun: false, to: undefined, steps: 1 };
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (arg === '--to' && command === 'up') {
+      options.to = rest[++i];
+      if (!options.to || !/^\d{4}$/.test(options.to)) throw new MigrationError('--to needs a four-digit version');
+    } else if (arg === '--steps' && command === 'down') {
+      options.steps = Number(rest[++i]);
+      if (!Number.isInteger(options.steps) || options.steps < 1) throw new MigrationError('--steps needs a positive integer');
+    } else {
+      throw new MigrationError(`Unknown option ${arg}\n\n${USAGE}`);
+    }
+  }
+
+  if (!['up', 'down', 'status'].includes(command)) {
+    throw new MigrationError(command ? `Unknown command ${command}\n\n${USAGE}` : USAGE);
+  }
+  return options;
+};
+
+const loadDatabaseUrl = () => {
+  const appEnv = process.env.APP_ENV || process.env.NODE_ENV || 'development';
+  dotenv.config({
+    path: [`.env.${appEnv}`, '.env'].map(file => path.resolve(process.cwd(), file)),
+    quiet: true,
+  });
+  if (!process.env.DATABASE_URL) {
+    throw new MigrationError('DATABASE_URL is not set (Supabase: Project Settings > Database > Connection string)');
+  }
+  return process.env.DATABASE_URL;
+};
+
+// Applied migrations by version, oldest first; none before the tracking table exists
+const readApplied = async (client) => {
+  const { rows: [{ exists }] } = await client.query("SELECT to_regclass('schema_migrations') IS NOT NULL AS exists");
+  if (!exists) return new Map();
+  const { rows } = await client.query('SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version');
+  return new Map(rows.map(row => [row.version, row]));
+};
+
+// Applied migrations whose file is missing or was edited after it ran
+const findDrift = (migrations, applied) => {
+  const onDisk = new Map(migrations.map(migration => [migration.version, migration]));
+  return [...applied.values()]
+    .map(row => {
+      const migration = onDisk.get(row.version);
+      if (!migration) return `${row.version}_${row.name} was applied but its file is missing`;
+      if (migration.checksum !== row.checksum) return `${row.version}_${row.name} changed after it was applied`;
+      return undefined;
+    })
+    .filter(Boolean);
+};
+
+const assertNoDrift = (migrations, applied) => {
+  const drift = findDrift(migrations, applied);
+  if (drift.length > 0) {
+    throw new MigrationError(`${drift.join('\n')}\nAdd a new migration instead of editing an applied one.`);
+  }
+};
+
+// Runs `sql` and the bookkeeping statement in one transaction
+const runInTransaction = async (client, sql, bookkeeping) => {
+  await client.query('BEGIN');
+  try {
+    await client.query(sql);
+    await client.query(...bookkeeping);
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  }
+};
+
+const printDryRun = (label, sql) => {
+  console.log(`-- ${label}\n${sql.trim()}\n`);
+};
+
+const up = async (client, migrations, applied, { to, dryRun }) => {
+  if (to && !migrations.some(migration => migration.version === to)) {
+    throw new MigrationError(`No migration has version ${to}`);
+  }
+  const pending = migrations.filter(migration => !applied.has(migration.version) && (!to || migration.version <= to));
+  if (pending.length === 0) {
+    console.log('Nothing to apply; the database is up to date.');
+    return;
+  }
+
+  for (const migration of pending) {
+    const label = `${migration.version}_${migration.name}`;
+    if (dryRun) {
+      printDryRun(`up ${label}`, migration.up);
+      continue;
+    }
+    try {
+      await runInTransaction(client, migration.up, [
+        'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+        [migration.version, migration.name, migration.checksum],
+      ]);
+    } catch (error) {
+      throw new MigrationError(`Applying ${label} failed; it was rolled back: ${error.message}`);
+    }
+    console.log(`Applied ${label}`);
+  }
+};
+
+const down = async (client, migrations, applied, { steps, dryRun }) => {
+  const onDisk = new Map(migrations.map(migration => [migration.version, migration]));
+  const reverting = [...applied.keys()].reverse().slice(0, steps).map(version => onDisk.get(version));
+  if (reverting.length === 0) {
+    console.log('Nothing to revert; no migrations are applied.');
+    return;
+  }
+
+  for (const migration of reverting) {
+    const label = `${migration.version}_${migration.name}`;
+    if (migration.down === undefined) {
+      throw new MigrationError(`${label} has no .down.sql file and cannot be reverted`);
+    }
+    if (dryRun) {
+      printDryRun(`down ${label}`, migration.down);
+      continue;
+    }
+    try {
+      await runInTransaction(client, migration.down, [
+        'DELETE FROM schema_migrations WHERE version = $1',
+        [migration.version],
+      ]);
+    } catch (error) {
+      throw new MigrationError(`Reverting ${label} failed; it was rolled back: ${error.message}`);
+    }
+    console.log(`Reverted ${label}`);
+  }
+};
+
+const status = (migrations, applied) => {
+  for (const migration of migrations) {
+    const row = applied.get(migration.version);
+    const state = !row
+      ? 'pending'
+      : row.checksum === migration.checksum
+        ? `applied ${row.applied_at.toISOString()}`
+        : 'applied, CHANGED since';
+    console.log(`${migration.version}_${migration.name}`.padEnd(40), state);
+  }
+  for (const problem of findDrift(migrations, applied)) {
+    console.warn(`Warning: ${problem}`);
+  }
+};
+
+const main = async () => {
+  const options = parseArgs(process.argv.slice(2));
+  const migrations = readMigrations();
+  const client = new Client({ connectionString: loadDatabaseUrl() });
+
+  await client.connect();
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [LOCK_ID]);
+    // status and dry runs change nothing, not even the tracking table
+    if (options.command !== 'status' && !options.dryRun) await client.query(TRACKING_TABLE_SQL);
+    const applied = await readApplied(client);
+
+    if (options.command === 'status') {
+      status(migrations, applied);
+      return;
+    }
+    assertNoDrift(migrations, applied);
+    if (options.dryRun) console.log('-- Dry run: nothing is executed\n');
+    if (options.command === 'up') await up(client, migrations, applied, options);
+    else await down(client, migrations, applied, options);
+  } finally {
+    await client.end();
+  }
+};
+
+main().catch(error => {
+  console.error(error instanceof MigrationError ? error.message : error);
+  process.exitCode = 1;
+});
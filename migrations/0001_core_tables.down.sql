@@ -0,0 +1,9 @@
+DROP VIEW IF EXISTS allexpenses;
+DROP TABLE IF EXISTS expenses;
+DROP TABLE IF EXISTS categories;
+DROP TABLE IF EXISTS tasks;
+DROP TABLE IF EXISTS health_records;
+DROP TABLE IF EXISTS vaccination_records;
+DROP TABLE IF EXISTS breeding_records;
+DROP TABLE IF EXISTS weight_records;
+DROP TABLE IF EXISTS animals;
@@ -0,0 +1,144 @@
+-- Farm data as first deployed: animals and their records, tasks and expenses.
+-- Columns are camelCase, matching the API records; dates are plain dates except
+-- expenses.date, which also holds M/D/YYYY text imported from the spreadsheet.
+CREATE TABLE IF NOT EXISTS animals (
+  id BIGSERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL,
+  breed TEXT,
+  gender TEXT NOT NULL,
+  "dateOfBirth" DATE,
+  photos TEXT[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'active',
+  "currentWeight" NUMERIC,
+  markings TEXT,
+  "purchaseDate" DATE,
+  "purchasePrice" NUMERIC,
+  "purchaseLocation" TEXT,
+  "previousOwner" TEXT,
+  "saleDate" DATE,
+  "salePrice" NUMERIC,
+  "buyerName" TEXT,
+  "saleNotes" TEXT,
+  insured BOOLEAN NOT NULL DEFAULT FALSE,
+  "insuranceProvider" TEXT,
+  "insurancePolicyNumber" TEXT,
+  "insuranceAmount" NUMERIC,
+  "insuranceExpiryDate" DATE,
+  notes TEXT,
+  "createdAt" TIMESTAMPTZ DEFAULT NOW(),
+  "updatedAt" TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS weight_records (
+  id BIGSERIAL PRIMARY KEY,
+  "animalId" BIGINT NOT NULL REFERENCES animals(id) ON DELETE CASCADE,
+  weight NUMERIC NOT NULL,
+  date DATE NOT NULL,
+  notes TEXT,
+  "recordedBy" TEXT,
+  "createdAt" TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS breeding_records (
+  id BIGSERIAL PRIMARY KEY,
+  "motherId" BIGINT NOT NULL REFERENCES animals(id) ON DELETE CASCADE,
+  "fatherId" BIGINT REFERENCES animals(id) ON DELETE SET NULL,
+  "breedingDate" DATE NOT NULL,
+  "expectedDeliveryDate" DATE,
+  "actualDeliveryDate" DATE,
+  "totalKids" INTEGER,
+  "maleKids" INTEGER,
+  "femaleKids" INTEGER,
+  kid_details JSONB,
+  "breedingMethod" TEXT,
+  "veterinarianName" TEXT,
+  complications TEXT,
+  notes TEXT,
+  "createdAt" TIMESTAMPTZ DEFAULT NOW(),
+  "updatedAt" TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS vaccination_records (
+  id BIGSERIAL PRIMARY KEY,
+  "animalId" BIGINT NOT NULL REFERENCES animals(id) ON DELETE CASCADE,
+  "vaccineName" TEXT NOT NULL,
+  "vaccineType" TEXT,
+  "administrationDate" DATE NOT NULL,
+  "nextDueDate" DATE,
+  "batchNumber" TEXT,
+  "veterinarianName" TEXT,
+  dosage TEXT,
+  "administrationMethod" TEXT,
+  cost NUMERIC,
+  notes TEXT,
+  "createdAt" TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS health_records (
+  id BIGSERIAL PRIMARY KEY,
+  "animalId" BIGINT NOT NULL REFERENCES animals(id) ON DELETE CASCADE,
+  "recordType" TEXT NOT NULL,
+  date DATE NOT NULL,
+  description TEXT NOT NULL,
+  "veterinarianName" TEXT,
+  diagnosis TEXT,
+  treatment TEXT,
+  medications TEXT,
+  cost NUMERIC,
+  "nextCheckupDate" DATE,
+  notes TEXT,
+  "createdAt" TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_weight_records_animal ON weight_records ("animalId");
+CREATE INDEX IF NOT EXISTS idx_breeding_records_mother ON breeding_records ("motherId");
+CREATE INDEX IF NOT EXISTS idx_vaccination_records_animal ON vaccination_records ("animalId");
+CREATE INDEX IF NOT EXISTS idx_health_records_animal ON health_records ("animalId");
+
+CREATE TABLE IF NOT EXISTS tasks (
+  id BIGSERIAL PRIMARY KEY,
+  title TEXT NOT NULL,
+  description TEXT,
+  category TEXT,
+  "taskType" TEXT,
+  priority TEXT NOT NULL DEFAULT 'medium',
+  status TEXT NOT NULL DEFAULT 'pending',
+  "dueDate" DATE,
+  "assignedTo" TEXT,
+  notes TEXT,
+  "completedAt" TIMESTAMPTZ,
+  "createdAt" TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS categories (
+  id BIGSERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  "subCategories" TEXT[] NOT NULL DEFAULT '{}',
+  "createdAt" TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- "categoryId" has no foreign key: saving categories replaces the whole list
+CREATE TABLE IF NOT EXISTS expenses (
+  id BIGSERIAL PRIMARY KEY,
+  date TEXT NOT NULL,
+  type TEXT NOT NULL DEFAULT 'Expense',
+  description TEXT,
+  amount NUMERIC NOT NULL,
+  "paidBy" TEXT,
+  "categoryId" BIGINT,
+  "subCategory" TEXT,
+  source TEXT,
+  notes TEXT,
+  "createdAt" TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_expenses_category ON expenses ("categoryId");
+
+-- Expenses with their category name; the API reads expenses through this view.
+-- e.* is expanded when the view is created, so it is recreated whenever
+-- expenses gains a column.
+DROP VIEW IF EXISTS allexpenses;
+CREATE VIEW allexpenses AS
+  SELECT e.*, c.name AS category
+  FROM expenses e LEFT JOIN categories c ON c.id = e."categoryId";
@@ -0,0 +1,21 @@
+-- Entries written by ErrorLogger
+CREATE TABLE IF NOT EXISTS error_logs (
+  id BIGSERIAL PRIMARY KEY,
+  timestamp TIMESTAMPTZ DEFAULT NOW(),
+  level TEXT NOT NULL CHECK (level IN ('info', 'warn', 'error', 'debug')),
+  message TEXT NOT NULL,
+  source TEXT NOT NULL,
+  details JSONB,
+  user_id TEXT,
+  ip_address INET,
+  user_agent TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_error_logs_timestamp ON error_logs(timestamp);
+CREATE INDEX IF NOT EXISTS idx_error_logs_level ON error_logs(level);
+CREATE INDEX IF NOT EXISTS idx_error_logs_source ON error_logs(source);
+CREATE INDEX IF NOT EXISTS idx_error_logs_created_at ON error_logs(created_at);
+
+-- Called by earlier versions of the API to check the table; no longer used
+DROP FUNCTION IF EXISTS create_error_log_table();
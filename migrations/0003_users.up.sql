@@ -0,0 +1,11 @@
+-- Accounts for authentication and role-based access control
+CREATE TABLE IF NOT EXISTS users (
+  id BIGSERIAL PRIMARY KEY,
+  username TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'worker', 'accountant')),
+  "farmIds" BIGINT[] NOT NULL DEFAULT '{1}',
+  "passwordHash" TEXT NOT NULL,
+  "createdAt" TIMESTAMPTZ DEFAULT NOW(),
+  "updatedAt" TIMESTAMPTZ DEFAULT NOW()
+);
@@ -0,0 +1,17 @@
+-- users."farmIds" is kept: it is part of the users table since 0003
+DROP VIEW IF EXISTS allexpenses;
+
+ALTER TABLE categories DROP COLUMN IF EXISTS "farmId";
+ALTER TABLE expenses DROP COLUMN IF EXISTS "farmId";
+ALTER TABLE tasks DROP COLUMN IF EXISTS "farmId";
+ALTER TABLE health_records DROP COLUMN IF EXISTS "farmId";
+ALTER TABLE vaccination_records DROP COLUMN IF EXISTS "farmId";
+ALTER TABLE breeding_records DROP COLUMN IF EXISTS "farmId";
+ALTER TABLE weight_records DROP COLUMN IF EXISTS "farmId";
+ALTER TABLE animals DROP COLUMN IF EXISTS "farmId";
+
+DROP TABLE IF EXISTS farms;
+
+CREATE VIEW allexpenses AS
+  SELECT e.*, c.name AS category
+  FROM expenses e LEFT JOIN categories c ON c.id = e."categoryId";
@@ -0,0 +1,34 @@
+-- Multi-farm tenancy: a farms table plus a "farmId" column on every farm-scoped table.
+-- Existing rows are assigned to farm 1.
+CREATE TABLE IF NOT EXISTS farms (
+  id BIGSERIAL PRIMARY KEY,
+  name TEXT NOT NULL,
+  location TEXT,
+  notes TEXT,
+  "createdAt" TIMESTAMPTZ DEFAULT NOW(),
+  "updatedAt" TIMESTAMPTZ DEFAULT NOW()
+);
+
+INSERT INTO farms (id, name) VALUES (1, 'My Farm') ON CONFLICT (id) DO NOTHING;
+SELECT setval(pg_get_serial_sequence('farms', 'id'), GREATEST((SELECT MAX(id) FROM farms), 1));
+
+ALTER TABLE animals ADD COLUMN IF NOT EXISTS "farmId" BIGINT NOT NULL DEFAULT 1 REFERENCES farms(id);
+ALTER TABLE weight_records ADD COLUMN IF NOT EXISTS "farmId" BIGINT NOT NULL DEFAULT 1 REFERENCES farms(id);
+ALTER TABLE breeding_records ADD COLUMN IF NOT EXISTS "farmId" BIGINT NOT NULL DEFAULT 1 REFERENCES farms(id);
+ALTER TABLE vaccination_records ADD COLUMN IF NOT EXISTS "farmId" BIGINT NOT NULL DEFAULT 1 REFERENCES farms(id);
+ALTER TABLE health_records ADD COLUMN IF NOT EXISTS "farmId" BIGINT NOT NULL DEFAULT 1 REFERENCES farms(id);
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS "farmId" BIGINT NOT NULL DEFAULT 1 REFERENCES farms(id);
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS "farmId" BIGINT NOT NULL DEFAULT 1 REFERENCES farms(id);
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS "farmId" BIGINT NOT NULL DEFAULT 1 REFERENCES farms(id);
+
+CREATE INDEX IF NOT EXISTS idx_animals_farm ON animals ("farmId");
+CREATE INDEX IF NOT EXISTS idx_tasks_farm ON tasks ("farmId");
+CREATE INDEX IF NOT EXISTS idx_expenses_farm ON expenses ("farmId");
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS "farmIds" BIGINT[] NOT NULL DEFAULT '{1}';
+
+-- Picks up expenses."farmId"
+DROP VIEW IF EXISTS allexpenses;
+CREATE VIEW allexpenses AS
+  SELECT e.*, c.name AS category
+  FROM expenses e LEFT JOIN categories c ON c.id = e."categoryId";
@@ -0,0 +1,17 @@
+-- Audit trail of changes to farm data, written by the API after every mutation
+CREATE TABLE IF NOT EXISTS audit_log (
+  id BIGSERIAL PRIMARY KEY,
+  "farmId" BIGINT NOT NULL REFERENCES farms(id),
+  entity TEXT NOT NULL,
+  "entityId" TEXT NOT NULL,
+  "animalId" TEXT,
+  action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete', 'import', 'transfer')),
+  changes JSONB NOT NULL DEFAULT '{}',
+  "userId" TEXT,
+  username TEXT,
+  timestamp TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_farm_timestamp ON audit_log ("farmId", timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log (entity, "entityId");
+CREATE INDEX IF NOT EXISTS idx_audit_log_animal ON audit_log ("animalId");
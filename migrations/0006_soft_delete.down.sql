@@ -0,0 +1,27 @@
+-- Rows still in the trash are deleted for good, and their restores forgotten
+DELETE FROM animals WHERE "deletedAt" IS NOT NULL;
+DELETE FROM weight_records WHERE "deletedAt" IS NOT NULL;
+DELETE FROM breeding_records WHERE "deletedAt" IS NOT NULL;
+DELETE FROM vaccination_records WHERE "deletedAt" IS NOT NULL;
+DELETE FROM health_records WHERE "deletedAt" IS NOT NULL;
+DELETE FROM tasks WHERE "deletedAt" IS NOT NULL;
+DELETE FROM expenses WHERE "deletedAt" IS NOT NULL;
+DELETE FROM audit_log WHERE action = 'restore';
+
+ALTER TABLE audit_log DROP CONSTRAINT IF EXISTS audit_log_action_check;
+ALTER TABLE audit_log ADD CONSTRAINT audit_log_action_check
+  CHECK (action IN ('create', 'update', 'delete', 'import', 'transfer'));
+
+DROP VIEW IF EXISTS allexpenses;
+
+ALTER TABLE expenses DROP COLUMN IF EXISTS "deletedAt";
+ALTER TABLE tasks DROP COLUMN IF EXISTS "deletedAt";
+ALTER TABLE health_records DROP COLUMN IF EXISTS "deletedAt";
+ALTER TABLE vaccination_records DROP COLUMN IF EXISTS "deletedAt";
+ALTER TABLE breeding_records DROP COLUMN IF EXISTS "deletedAt";
+ALTER TABLE weight_records DROP COLUMN IF EXISTS "deletedAt";
+ALTER TABLE animals DROP COLUMN IF EXISTS "deletedAt";
+
+CREATE VIEW allexpenses AS
+  SELECT e.*, c.name AS category
+  FROM expenses e LEFT JOIN categories c ON c.id = e."categoryId";
@@ -0,0 +1,24 @@
+-- Soft deletion: deleted rows keep a "deletedAt" timestamp and stay restorable
+-- from the trash until the API purges them (TRASH_RETENTION_DAYS).
+ALTER TABLE animals ADD COLUMN IF NOT EXISTS "deletedAt" TIMESTAMPTZ;
+ALTER TABLE weight_records ADD COLUMN IF NOT EXISTS "deletedAt" TIMESTAMPTZ;
+ALTER TABLE breeding_records ADD COLUMN IF NOT EXISTS "deletedAt" TIMESTAMPTZ;
+ALTER TABLE vaccination_records ADD COLUMN IF NOT EXISTS "deletedAt" TIMESTAMPTZ;
+ALTER TABLE health_records ADD COLUMN IF NOT EXISTS "deletedAt" TIMESTAMPTZ;
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS "deletedAt" TIMESTAMPTZ;
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS "deletedAt" TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_animals_deleted ON animals ("deletedAt") WHERE "deletedAt" IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_tasks_deleted ON tasks ("deletedAt") WHERE "deletedAt" IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_expenses_deleted ON expenses ("deletedAt") WHERE "deletedAt" IS NOT NULL;
+
+-- Restores are recorded in the audit trail
+ALTER TABLE audit_log DROP CONSTRAINT IF EXISTS audit_log_action_check;
+ALTER TABLE audit_log ADD CONSTRAINT audit_log_action_check
+  CHECK (action IN ('create', 'update', 'delete', 'import', 'transfer', 'restore'));
+
+-- Picks up expenses."deletedAt"
+DROP VIEW IF EXISTS allexpenses;
+CREATE VIEW allexpenses AS
+  SELECT e.*, c.name AS category
+  FROM expenses e LEFT JOIN categories c ON c.id = e."categoryId";
@@ -0,0 +1,3 @@
+DROP INDEX IF EXISTS idx_error_logs_request_id;
+ALTER TABLE error_logs DROP COLUMN IF EXISTS details_text;
+ALTER TABLE error_logs DROP COLUMN IF EXISTS request_id;
@@ -0,0 +1,6 @@
+-- Request correlation ids, and a text copy of details that the log viewer
+-- searches through PostgREST
+ALTER TABLE error_logs ADD COLUMN IF NOT EXISTS request_id TEXT;
+ALTER TABLE error_logs ADD COLUMN IF NOT EXISTS details_text TEXT GENERATED ALWAYS AS (details::text) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_error_logs_request_id ON error_logs(request_id);
@@ -0,0 +1,4 @@
+-- Tasks can name the animal they concern; it is cleared if the animal is purged
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS "animalId" BIGINT REFERENCES animals(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_animal ON tasks ("animalId");
@@ -0,0 +1 @@
+ALTER TABLE vaccination_records DROP COLUMN IF EXISTS "sideEffects";
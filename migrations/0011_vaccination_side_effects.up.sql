@@ -0,0 +1,2 @@
+-- Reactions observed after a vaccination, accepted by the API but not stored until now
+ALTER TABLE vaccination_records ADD COLUMN IF NOT EXISTS "sideEffects" TEXT;
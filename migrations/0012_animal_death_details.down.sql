@@ -0,0 +1,2 @@
+ALTER TABLE animals DROP COLUMN IF EXISTS "deathCause";
+ALTER TABLE animals DROP COLUMN IF EXISTS "deathDate";
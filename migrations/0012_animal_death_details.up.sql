@@ -0,0 +1,3 @@
+-- When and why an animal died, accepted by the API but not stored until now
+ALTER TABLE animals ADD COLUMN IF NOT EXISTS "deathDate" DATE;
+ALTER TABLE animals ADD COLUMN IF NOT EXISTS "deathCause" TEXT;
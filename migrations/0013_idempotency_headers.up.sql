@@ -0,0 +1,2 @@
+-- Headers of the stored response (ETag, Location, Content-Type), set again on replay
+ALTER TABLE idempotency_keys ADD COLUMN IF NOT EXISTS headers JSONB;
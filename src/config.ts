@@ -0,0 +1,246 @@
+import dotenv from 'dotenv';
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+
+/*
+ * Environment files are loaded in order of precedence: real environment
+ * variables, then `.env.<APP_ENV>` (e.g. `.env.staging`), then `.env`.
+ */
+const appEnv = process.env.APP_ENV || process.env.NODE_ENV || 'development';
+dotenv.config({
+  path: [`.env.${appEnv}`, '.env'].map(file => path.resolve(process.cwd(), file)),
+  quiet: true,
+});
+
+const DEFAULT_CORS_ORIGINS = [
+  'http://localhost:8080', // For local development
+  'https://bijaagro.github.io', // For bija deployment
+  'https://shobha-workspace-cloud.github.io',
+];
+
+// package.json sits one level above both src/ and dist/
+const packageVersion = (): string => {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf8')).version;
+  } catch {
+    return 'unknown';
+  }
+};
+
+// Accepts true/false/1/0/yes/no, falling back to `defaultValue` when unset
+const flag = (defaultValue: boolean) =>
+  z
+    .enum(['true', 'false', '1', '0', 'yes', 'no'])
+    .optional()
+    .transform(value => (value === undefined ? defaultValue : ['true', '1', 'yes'].includes(value)));
+
+// Comma-separated list, e.g. CORS_ORIGIN=https://a.example,https://b.example
+const list = (defaultValue: string[]) =>
+  z
+    .string()
+    .optional()
+    .transform(value =>
+      value === undefined
+        ? defaultValue
+        : value.split(',').map(item => item.trim()).filter(item => item !== ''),
+    );
+
+const emptyAsUndefined = (value: unknown) => (value === '' ? undefined : value);
+
+const envSchema = z
+  .object({
+    PORT: z.coerce.number().int().min(1).max(65535).default(3031),
+    CORS_ORIGIN: list(DEFAULT_CORS_ORIGINS),
+    LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
+    PING_MESSAGE: z.string().default('Backend API is running'),
+    BUILD_VERSION: z.preprocess(emptyAsUndefined, z.string().optional()),
+
+    STORAGE_BACKEND: z.enum(['supabase', 'local']).default('supabase'),
+    LOCAL_DATA_DIR: z.string().default('data'),
+    SUPABASE_URL: z.preprocess(emptyAsUndefined, z.string().url().optional()),
+    SUPABASE_ANON_KEY: z.preprocess(emptyAsUndefined, z.string().optional()),
+
+    AUTH_JWT_SECRET: z.preprocess(
+      emptyAsUndefined,
+      z.string().min(32, 'Must be at least 32 characters').optional(),
+    ),
+    AUTH_TOKEN_TTL_HOURS: z.coerce.number().positive().default(12),
+    METRICS_TOKEN: z.preprocess(
+      emptyAsUndefined,
+      z.string().min(32, 'Must be at least 32 characters').optional(),
+    ),
+
+    TRASH_RETENTION_DAYS: z.coerce.number().int().min(0).default(30),
+    LOG_RETENTION_DAYS: z.coerce.number().int().min(0).default(90),
+    LOG_ARCHIVE_DIR: z.preprocess(emptyAsUndefined, z.string().optional()),
+    LOG_BATCH_SIZE: z.coerce.number().int().min(1).max(1000).default(50),
+    LOG_FLUSH_INTERVAL_MS: z.coerce.number().int().min(100).default(2000),
+    LOG_SPOOL_FILE: z.string().default('logs/error-log-spool.jsonl'),
+    WEBHOOK_MAX_ATTEMPTS: z.coerce.number().int().min(1).max(20).default(6),
+    WEBHOOK_RETRY_BASE_SECONDS: z.coerce.number().int().min(1).default(30),
+    WEBHOOK_TIMEOUT_MS: z.coerce.number().int().min(100).default(10000),
+    IDEMPOTENCY_TTL_HOURS: z.coerce.number().positive().default(24),
+
+    FEATURE_AUTH: flag(true),
+    FEATURE_DEMO_ROUTES: flag(true),
+    FEATURE_ROUTE_LOGGING: flag(true),
+    FEATURE_ACCESS_LOG: flag(true),
+    FEATURE_METRICS: flag(true),
+  })
+  .superRefine((env, ctx) => {
+    if (env.FEATURE_AUTH && !env.AUTH_JWT_SECRET) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['AUTH_JWT_SECRET'],
+        message: 'Required when FEATURE_AUTH is enabled',
+      });
+    }
+    if (env.STORAGE_BACKEND !== 'supabase') return;
+    for (const key of ['SUPABASE_URL', 'SUPABASE_ANON_KEY'] as const) {
+      if (!env[key]) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [key],
+          message: 'Required when STORAGE_BACKEND is "supabase"',
+        });
+      }
+    }
+  });
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface AppConfig {
+  env: string;
+  port: number;
+  corsOrigins: string[];
+  logLevel: LogLevel;
+  pingMessage: string;
+  // package.json version, and BUILD_VERSION (e.g. the deployed commit) when set
+  version: string;
+  build?: string;
+  storage: {
+    backend: 'supabase' | 'local';
+    localDataDir: string;
+  };
+  supabase?: {
+    url: string;
+    anonKey: string;
+  };
+  auth: {
+    // Empty when FEATURE_AUTH is disabled
+    jwtSecret: string;
+    tokenTtlSeconds: number;
+    // Static bearer token for metrics scrapers; grants metrics:read only
+    metricsToken?: string;
+  };
+  trash: {
+    // Days a deleted row stays restorable before it is purged; 0 keeps it forever
+    retentionDays: number;
+  };
+  logs: {
+    // Days ErrorLogger entries are kept; 0 keeps them forever
+    retentionDays: number;
+    // When set, expired entries are appended here as JSONL before deletion
+    archiveDir?: string;
+    // Entries written to the log store per insert; a full buffer is flushed at once
+    batchSize: number;
+    // How often buffered entries are flushed
+    flushIntervalMs: number;
+    // Entries the log store rejected after retries wait here, as JSONL, to be replayed
+    spoolFile: string;
+  };
+  webhooks: {
+    // Attempts per delivery, the first included, before it is marked failed
+    maxAttempts: number;
+    // Wait before the first retry; doubled for each one after it
+    retryBaseMs: number;
+    // How long a subscriber has to respond
+    timeoutMs: number;
+  };
+  idempotency: {
+    // How long a response stored under an Idempotency-Key is replayed
+    ttlMs: number;
+  };
+  features: {
+    // Requires a bearer token and role permission on every non-public route
+    auth: boolean;
+    // Exposes GET /api/demo
+    demoRoutes: boolean;
+    // Prints each route as it is registered
+    routeLogging: boolean;
+    // Writes a JSON access line per request to stdout
+    accessLog: boolean;
+    // Exposes GET /api/metrics
+    metrics: boolean;
+  };
+}
+
+export class ConfigError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid configuration:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): AppConfig => {
+  const result = envSchema.safeParse(env);
+  if (!result.success) {
+    throw new ConfigError(
+      result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`),
+    );
+  }
+
+  const parsed = result.data;
+  return {
+    env: appEnv,
+    port: parsed.PORT,
+    corsOrigins: parsed.CORS_ORIGIN,
+    logLevel: parsed.LOG_LEVEL,
+    pingMessage: parsed.PING_MESSAGE,
+    version: packageVersion(),
+    build: parsed.BUILD_VERSION,
+    storage: {
+      backend: parsed.STORAGE_BACKEND,
+      localDataDir: path.resolve(process.cwd(), parsed.LOCAL_DATA_DIR),
+    },
+    supabase:
+      parsed.SUPABASE_URL && parsed.SUPABASE_ANON_KEY
+        ? { url: parsed.SUPABASE_URL, anonKey: parsed.SUPABASE_ANON_KEY }
+        : undefined,
+    auth: {
+      jwtSecret: parsed.AUTH_JWT_SECRET ?? '',
+      tokenTtlSeconds: Math.round(parsed.AUTH_TOKEN_TTL_HOURS * 3600),
+      metricsToken: parsed.METRICS_TOKEN,
+    },
+    trash: {
+      retentionDays: parsed.TRASH_RETENTION_DAYS,
+    },
+    logs: {
+      retentionDays: parsed.LOG_RETENTION_DAYS,
+      archiveDir: parsed.LOG_ARCHIVE_DIR && path.resolve(process.cwd(), parsed.LOG_ARCHIVE_DIR),
+      batchSize: parsed.LOG_BATCH_SIZE,
+      flushIntervalMs: parsed.LOG_FLUSH_INTERVAL_MS,
+      spoolFile: path.resolve(process.cwd(), parsed.LOG_SPOOL_FILE),
+    },
+    webhooks: {
+      maxAttempts: parsed.WEBHOOK_MAX_ATTEMPTS,
+      retryBaseMs: parsed.WEBHOOK_RETRY_BASE_SECONDS * 1000,
+      timeoutMs: parsed.WEBHOOK_TIMEOUT_MS,
+    },
+    idempotency: {
+      ttlMs: Math.round(parsed.IDEMPOTENCY_TTL_HOURS * 3600 * 1000),
+    },
+    features: {
+      auth: parsed.FEATURE_AUTH,
+      demoRoutes: parsed.FEATURE_DEMO_ROUTES,
+      routeLogging: parsed.FEATURE_ROUTE_LOGGING,
+      accessLog: parsed.FEATURE_ACCESS_LOG,
+      metrics: parsed.FEATURE_METRICS,
+    },
+  };
+};
+
+const config: AppConfig = loadConfig();
+
+export default config;
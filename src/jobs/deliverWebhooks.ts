@@ -0,0 +1,18 @@
+import storage from '../storage';
+import { retryDueDeliveries } from '../utils/webhooks';
+import { scheduleJob } from './scheduleJob';
+
+// How often pending webhook deliveries are checked for a due retry
+const POLL_MS = 15 * 1000;
+
+/**
+ * Retries every farm's webhook deliveries whose next attempt is due, once at
+ * startup (picking up deliveries left pending by a restart) and then every
+ * POLL_MS. Returns a function that stops the schedule.
+ */
+export const scheduleWebhookRetries = (): (() => void) =>
+  scheduleJob('deliverWebhooks', POLL_MS, async () => {
+    for (const farm of await storage.farms.list()) {
+      await retryDueDeliveries(storage.forFarm(farm.id));
+    }
+  });
@@ -0,0 +1,14 @@
+import storage from '../storage';
+import { scheduleJob } from './scheduleJob';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Deletes responses stored under Idempotency-Keys once they are older than
+ * `ttlMs`, at startup and then hourly; expired keys are already ignored when
+ * a request reuses them. Returns a function that stops the schedule.
+ */
+export const scheduleIdempotencyKeyPurge = (ttlMs: number): (() => void) =>
+  scheduleJob('purgeIdempotencyKeys', HOUR_MS, async () => {
+    await storage.idempotencyKeys.purge(new Date(Date.now() - ttlMs).toISOString());
+  });
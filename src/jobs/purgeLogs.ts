@@ -0,0 +1,45 @@
+import fs from 'fs';
+import path from 'path';
+import logger from '../utils/errorLogger';
+import { scheduleJob } from './scheduleJob';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Entries read per page while archiving
+const ARCHIVE_PAGE_SIZE = 1000;
+
+// Appends every entry logged at or before `until` to a JSONL file in `archiveDir`
+const archiveLogs = async (archiveDir: string, until: string): Promise<string> => {
+  fs.mkdirSync(archiveDir, { recursive: true });
+  const file = path.join(archiveDir, `error-logs-until-${until.slice(0, 10)}.jsonl`);
+
+  for (let offset = 0; ; offset += ARCHIVE_PAGE_SIZE) {
+    const { items } = await logger.getLogs({ endDate: until, offset, limit: ARCHIVE_PAGE_SIZE });
+    if (items.length > 0) {
+      fs.appendFileSync(file, items.map(entry => JSON.stringify(entry) + '\n').join(''));
+    }
+    if (items.length < ARCHIVE_PAGE_SIZE) return file;
+  }
+};
+
+/**
+ * Deletes ErrorLogger entries older than `retentionDays`, first archiving
+ * them to `archiveDir` when one is configured; once at startup and then
+ * daily. Does nothing when `retentionDays` is 0. Returns a function that
+ * stops the schedule.
+ */
+export const scheduleLogRetention = (retentionDays: number, archiveDir?: string): (() => void) => {
+  if (retentionDays <= 0) return () => {};
+
+  return scheduleJob('purgeLogs', DAY_MS, async () => {
+    const cutoff = new Date(Date.now() - retentionDays * DAY_MS).toISOString();
+    const archive = archiveDir && (await archiveLogs(archiveDir, cutoff));
+    const purged = await logger.purgeLogs(cutoff);
+    if (purged > 0) {
+      await logger.info(
+        `Purged ${purged} log entries logged before ${cutoff}${archive ? ` (archived to ${archive})` : ''}`,
+        'jobs.purgeLogs',
+      );
+    }
+  });
+};
@@ -0,0 +1,22 @@
+import storage from '../storage';
+import logger from '../utils/errorLogger';
+import { scheduleJob } from './scheduleJob';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Permanently removes rows that have been in the trash for more than
+ * `retentionDays`, once at startup and then daily. Does nothing when
+ * `retentionDays` is 0. Returns a function that stops the schedule.
+ */
+export const scheduleTrashPurge = (retentionDays: number): (() => void) => {
+  if (retentionDays <= 0) return () => {};
+
+  return scheduleJob('purgeTrash', DAY_MS, async () => {
+    const cutoff = new Date(Date.now() - retentionDays * DAY_MS).toISOString();
+    const purged = await storage.purgeDeleted(cutoff);
+    if (purged > 0) {
+      await logger.info(`Purged ${purged} rows deleted before ${cutoff}`, 'jobs.purgeTrash');
+    }
+  });
+};
@@ -0,0 +1,29 @@
+import logger from '../utils/errorLogger';
+
+/**
+ * Runs `run` once at startup and then every `intervalMs`, logging failures
+ * under `jobs.<name>`. A run still in progress when the next one is due is
+ * not overlapped; that tick is skipped. Returns a function that stops the
+ * schedule.
+ */
+export const scheduleJob = (name: string, intervalMs: number, run: () => Promise<void>): (() => void) => {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await run();
+    } catch (error) {
+      await logger.error(`Job ${name} failed`, `jobs.${name}`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void tick();
+  const timer = setInterval(tick, intervalMs);
+  // The schedule alone should not keep the process alive
+  timer.unref();
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,71 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { TestApi, addUser, goat, setupOwner, startApi } from '../test/api';
+
+const METRICS_TOKEN = process.env.METRICS_TOKEN!;
+
+describe('authentication and roles', () => {
+  let api: TestApi;
+  let ownerToken: string;
+
+  beforeAll(async () => {
+    api = await startApi();
+    ownerToken = await setupOwner(api);
+  });
+
+  afterAll(() => api.close());
+
+  it('rejects requests without a valid bearer token', async () => {
+    expect((await api.request('GET', '/animals')).status).toBe(401);
+    expect((await api.request('GET', '/animals', { token: 'not-a-token' })).status).toBe(401);
+  });
+
+  it('allows only one setup', async () => {
+    const again = await api.request('POST', '/auth/setup', {
+      body: { username: 'second', name: 'Second', password: 'second-password' },
+    });
+    expect(again.status).toBe(409);
+  });
+
+  it('checks the role of the route', async () => {
+    const worker = await addUser(api, ownerToken, 'worker');
+    const accountant = await addUser(api, ownerToken, 'accountant');
+
+    expect((await api.request('POST', '/animals', { token: worker.token, body: goat() })).status).toBe(201);
+    expect((await api.request('POST', '/animals', { token: accountant.token, body: goat() })).status).toBe(403);
+    expect((await api.request('GET', '/users', { token: worker.token })).status).toBe(403);
+    expect((await api.request('GET', '/users', { token: ownerToken })).status).toBe(200);
+  });
+
+  it('uses the stored role rather than the one in the token', async () => {
+    const worker = await addUser(api, ownerToken, 'worker');
+    expect((await api.request('GET', '/animals', { token: worker.token })).status).toBe(200);
+
+    await api.request('PUT', `/users/${worker.id}`, { token: ownerToken, body: { role: 'accountant' } });
+    const created = await api.request('POST', '/animals', { token: worker.token, body: goat() });
+    expect(created.status).toBe(403);
+  });
+
+  it('rejects tokens of deleted users', async () => {
+    const worker = await addUser(api, ownerToken, 'worker');
+    expect((await api.request('DELETE', `/users/${worker.id}`, { token: ownerToken })).status).toBe(200);
+
+    const response = await api.request('GET', '/animals', { token: worker.token });
+    expect(response.status).toBe(401);
+    expect(response.body.code).toBe('UNAUTHENTICATED');
+  });
+
+  describe('metrics', () => {
+    it('needs metrics:read or the metrics token', async () => {
+      const worker = await addUser(api, ownerToken, 'worker');
+
+      expect((await api.request('GET', '/metrics')).status).toBe(401);
+      expect((await api.request('GET', '/metrics', { token: worker.token })).status).toBe(403);
+      expect((await api.request('GET', '/metrics', { token: ownerToken })).status).toBe(200);
+      expect((await api.request('GET', '/metrics', { token: METRICS_TOKEN })).status).toBe(200);
+    });
+
+    it('grants the metrics token nothing else', async () => {
+      expect((await api.request('GET', '/animals', { token: METRICS_TOKEN })).status).toBe(401);
+    });
+  });
+});
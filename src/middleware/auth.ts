@@ -0,0 +1,109 @@
+import crypto from "crypto";
+import { Request, RequestHandler } from "express";
+import { Permission, hasPermission } from "@shared/auth-types";
+import config from "../config";
+import storage from "../storage";
+import { verifyToken } from "../utils/tokens";
+import { AuthUser, getRequestContext } from "../utils/requestContext";
+import { AuthenticationError, ForbiddenError } from "../utils/errors";
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+      // Set when the bearer token is METRICS_TOKEN rather than a user token
+      metricsScraper?: boolean;
+      // The farm an event stream token was issued for; stands in for X-Farm-Id
+      streamFarmId?: string;
+    }
+  }
+}
+
+const isMetricsToken = (token: string): boolean => {
+  const metricsToken = config.auth.metricsToken;
+  if (!metricsToken) return false;
+  const expected = Buffer.from(metricsToken);
+  const actual = Buffer.from(token);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+// EventSource cannot send headers, so the event stream also takes `?token=`
+const EVENT_STREAM_PATH = "/api/events";
+
+// An event stream token from the query string, on the one route that reads it
+const streamTokenOf = (req: Request): string | undefined =>
+  req.method === "GET" && req.path === EVENT_STREAM_PATH && typeof req.query.token === "string"
+    ? req.query.token
+    : undefined;
+
+/**
+ * Resolves `Authorization: Bearer <token>` into `req.user` (and the request
+ * context, so ErrorLogger records the user). Requests without a header pass
+ * through anonymously; route permissions decide whether that is allowed.
+ * GET /api/events may instead carry an event stream token as `?token=`; those
+ * end up in URLs and logs, so they are short-lived, tied to one farm and
+ * refused everywhere else, as ordinary tokens are refused in the query.
+ */
+export const authenticate: RequestHandler = (req, res, next) => {
+  if (!config.features.auth) return next();
+
+  const header = req.get("Authorization");
+  const streamToken = header ? undefined : streamTokenOf(req);
+  if (!header && !streamToken) return next();
+
+  let token = streamToken;
+  if (header) {
+    const [scheme, headerToken] = header.split(" ");
+    if (scheme !== "Bearer" || !headerToken) {
+      return next(new AuthenticationError("Invalid authorization header"));
+    }
+    if (isMetricsToken(headerToken)) {
+      req.metricsScraper = true;
+      return next();
+    }
+    token = headerToken;
+  }
+
+  const claims = verifyToken(token!, config.auth.jwtSecret);
+  if (!claims || claims.scope !== (streamToken ? "events" : undefined)) {
+    return next(new AuthenticationError("Invalid or expired token"));
+  }
+
+  req.user = { id: claims.sub, username: claims.username, role: claims.role };
+  req.streamFarmId = claims.farmId;
+  const context = getRequestContext();
+  if (context) context.user = req.user;
+  next();
+};
+
+/**
+ * Who may call a route: anyone, any signed-in user, or users whose role
+ * grants a specific permission.
+ */
+export type RouteAccess = "public" | "authenticated" | Permission;
+
+/**
+ * Rejects the request unless the caller satisfies `access`. The user is
+ * re-read from storage, so a deleted user is turned away and a changed role
+ * takes effect at once rather than when the token expires.
+ */
+export const authorize =
+  (access: RouteAccess): RequestHandler =>
+  async (req, _res, next) => {
+    if (!config.features.auth || access === "public") return next();
+    if (access === "metrics:read" && req.metricsScraper) return next();
+
+    if (!req.user) {
+      throw new AuthenticationError();
+    }
+    const user = await storage.users.findById(req.user.id);
+    if (!user) {
+      throw new AuthenticationError("User no longer exists");
+    }
+    req.user.role = user.role;
+
+    if (access !== "authenticated" && !hasPermission(user.role, access)) {
+      throw new ForbiddenError("Insufficient permissions", { required: access });
+    }
+    next();
+  };
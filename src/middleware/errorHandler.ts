@@ -0,0 +1,67 @@
+import { ErrorRequestHandler, Request, RequestHandler } from "express";
+import { ApiErrorResponse } from "@shared/api";
+import logger from "../utils/errorLogger";
+import { AppError, NotFoundError } from "../utils/errors";
+
+/**
+ * Passes errors thrown by an async handler to next() so they reach
+ * errorHandler; Express 4 does not catch rejected promises itself.
+ */
+export const asyncHandler =
+  (handler: RequestHandler): RequestHandler =>
+  (req, res, next) => {
+    Promise.resolve(handler(req, res, next)).catch(next);
+  };
+
+// Answers API paths that no route matched
+export const notFoundHandler: RequestHandler = (req, _res, next) => {
+  next(new NotFoundError(`No route for ${req.method} ${req.originalUrl.split("?")[0]}`));
+};
+
+// Express and its body parsers raise client errors with an HTTP status of their own
+const clientErrorStatus = (error: any): number | undefined => {
+  const status = error?.status ?? error?.statusCode;
+  return Number.isInteger(status) && status >= 400 && status < 500 ? status : undefined;
+};
+
+const toAppError = (error: any): AppError => {
+  if (error instanceof AppError) return error;
+
+  const status = clientErrorStatus(error);
+  if (status) {
+    const message = error.type === "entity.parse.failed" ? "Malformed JSON body" : error.message;
+    return new AppError(status, "BAD_REQUEST", message, undefined, { cause: error });
+  }
+  return new AppError(500, "INTERNAL_ERROR", "Internal server error", undefined, { cause: error });
+};
+
+// The route pattern when one matched, e.g. "GET /api/animals/:id"
+const describeRoute = (req: Request) =>
+  `${req.method} ${req.route ? req.baseUrl + req.route.path : req.originalUrl.split("?")[0]}`;
+
+/**
+ * Turns anything thrown below a route into the standard error body. 5xx
+ * errors are recorded through ErrorLogger with the request id the client
+ * receives, so a reported id leads to the stack trace.
+ */
+export const errorHandler: ErrorRequestHandler = (error, req, res, next) => {
+  if (res.headersSent) return next(error);
+
+  const appError = toAppError(error);
+  const { requestId } = req;
+
+  if (appError.status >= 500) {
+    const cause = appError.cause ?? appError;
+    const source = describeRoute(req);
+    console.error(`Error handling ${source}:`, cause);
+    void logger.error(appError.message, source, { requestId, code: appError.code, error: cause }, req);
+  }
+
+  const body: ApiErrorResponse = {
+    error: appError.message,
+    code: appError.code,
+    requestId,
+    details: appError.details,
+  };
+  res.status(appError.status).json(body);
+};
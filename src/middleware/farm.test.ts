@@ -0,0 +1,102 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { TestApi, addUser, goat, setupOwner, startApi } from '../test/api';
+
+describe('farm scoping', () => {
+  let api: TestApi;
+  let ownerToken: string;
+  let workerToken: string;
+  let bellaId: string;
+  let maxId: string;
+
+  const inFarm = (farmId: string) => ({ 'X-Farm-Id': farmId });
+
+  beforeAll(async () => {
+    api = await startApi();
+    ownerToken = await setupOwner(api);
+    workerToken = (await addUser(api, ownerToken, 'worker', ['1'])).token;
+
+    // Farm 1 was created at setup; the owner joins farm 2 on creating it
+    const farm = await api.request('POST', '/farms', { token: ownerToken, body: { name: 'Hill Farm' } });
+    expect(farm.body.id).toBe('2');
+
+    bellaId = (await api.request('POST', '/animals', { token: ownerToken, headers: inFarm('1'), body: goat() })).body.id;
+    maxId = (
+      await api.request('POST', '/animals', { token: ownerToken, headers: inFarm('2'), body: goat({ name: 'Max', gender: 'male' }) })
+    ).body.id;
+  });
+
+  afterAll(() => api.close());
+
+  it('needs X-Farm-Id from users in several farms', async () => {
+    const response = await api.request('GET', '/animals', { token: ownerToken });
+    expect(response.status).toBe(400);
+  });
+
+  it('defaults to the only farm of a user in one', async () => {
+    const response = await api.request('GET', '/animals', { token: workerToken });
+    expect(response.status).toBe(200);
+    expect(response.body.map((animal: { id: string }) => animal.id)).toEqual([bellaId]);
+  });
+
+  it('forbids farms the user does not belong to', async () => {
+    const response = await api.request('GET', '/animals', { token: workerToken, headers: inFarm('2') });
+    expect(response.status).toBe(403);
+  });
+
+  it("does not find another farm's records", async () => {
+    expect((await api.request('GET', `/animals/${maxId}`, { token: ownerToken, headers: inFarm('1') })).status).toBe(404);
+    expect((await api.request('GET', `/animals/${maxId}`, { token: ownerToken, headers: inFarm('2') })).status).toBe(200);
+    expect((await api.request('DELETE', `/animals/${maxId}`, { token: ownerToken, headers: inFarm('1') })).status).toBe(404);
+  });
+
+  it('treats ids that are not numbers as not found', async () => {
+    const response = await api.request('GET', '/animals/1,2', { token: ownerToken, headers: inFarm('1') });
+    expect(response.status).toBe(404);
+  });
+
+  it("rejects records naming another farm's animals", async () => {
+    const weight = await api.request('POST', '/weight-records', {
+      token: ownerToken,
+      headers: inFarm('1'),
+      body: { animalId: maxId, weight: 40, date: '2025-01-01' },
+    });
+    expect(weight.status).toBe(400);
+    expect(weight.body.details).toEqual([{ field: 'animalId', message: 'Animal not found' }]);
+
+    const breeding = await api.request('POST', '/breeding-records', {
+      token: ownerToken,
+      headers: inFarm('1'),
+      body: { motherId: bellaId, fatherId: maxId, breedingDate: '2025-01-01', breedingMethod: 'natural' },
+    });
+    expect(breeding.status).toBe(400);
+    expect(breeding.body.details).toEqual([{ field: 'fatherId', message: 'Animal not found' }]);
+
+    const task = await api.request('POST', '/tasks', {
+      token: ownerToken,
+      headers: inFarm('1'),
+      body: { title: 'Trim hooves', category: 'health', dueDate: '2025-01-01', assignedTo: 'Sam', animalId: maxId },
+    });
+    expect(task.status).toBe(400);
+    expect(task.body.details).toEqual([{ field: 'animalId', message: 'Animal not found' }]);
+  });
+
+  it('moves an animal with its records to another farm', async () => {
+    const calf = (await api.request('POST', '/animals', { token: ownerToken, headers: inFarm('1'), body: goat({ name: 'Daisy' }) })).body;
+    await api.request('POST', '/weight-records', {
+      token: ownerToken,
+      headers: inFarm('1'),
+      body: { animalId: calf.id, weight: 12, date: '2025-02-01' },
+    });
+
+    const moved = await api.request('POST', `/animals/${calf.id}/transfer`, {
+      token: ownerToken,
+      headers: inFarm('1'),
+      body: { farmId: '2' },
+    });
+    expect(moved.status).toBe(200);
+
+    expect((await api.request('GET', `/animals/${calf.id}`, { token: ownerToken, headers: inFarm('1') })).status).toBe(404);
+    const weights = await api.request('GET', `/weight-records?animalId=${calf.id}`, { token: ownerToken, headers: inFarm('2') });
+    expect(weights.body).toHaveLength(1);
+  });
+});
@@ -0,0 +1,51 @@
+import { Request, RequestHandler } from "express";
+import config from "../config";
+import storage, { FarmStorage, DEFAULT_FARM_ID } from "../storage";
+import { ForbiddenError, ValidationError } from "../utils/errors";
+
+declare global {
+  namespace Express {
+    interface Request {
+      farmId?: string;
+    }
+  }
+}
+
+/** Farms the signed-in user belongs to; empty for anonymous requests. */
+export const userFarmIds = async (req: Request): Promise<string[]> => {
+  if (!req.user) return [];
+  const user = await storage.users.findById(req.user.id);
+  return user?.farmIds ?? [];
+};
+
+/**
+ * Resolves the farm a request operates on into `req.farmId`. Callers pick a
+ * farm with the `X-Farm-Id` header (or an event stream token's farm); users
+ * belonging to a single farm may omit it. With auth disabled the header is trusted and defaults to the first farm.
+ */
+export const requireFarm: RequestHandler = async (req, _res, next) => {
+  const requested = req.streamFarmId ?? (req.get("X-Farm-Id")?.trim() || undefined);
+
+  if (!config.features.auth) {
+    req.farmId = requested ?? DEFAULT_FARM_ID;
+    return next();
+  }
+
+  const farmIds = await userFarmIds(req);
+  if (requested) {
+    if (!farmIds.includes(requested)) {
+      throw new ForbiddenError("No access to this farm", { farmId: requested });
+    }
+    req.farmId = requested;
+  } else if (farmIds.length === 1) {
+    req.farmId = farmIds[0];
+  } else if (farmIds.length === 0) {
+    throw new ForbiddenError("User is not assigned to any farm");
+  } else {
+    throw new ValidationError("X-Farm-Id header is required", { farmIds });
+  }
+  next();
+};
+
+/** Storage scoped to the farm chosen by requireFarm. */
+export const farmStorage = (req: Request): FarmStorage => storage.forFarm(req.farmId!);
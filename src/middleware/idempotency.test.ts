@@ -0,0 +1,107 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import storage from '../storage';
+import { TestApi, goat, setupOwner, startApi } from '../test/api';
+import { asyncHandler } from './errorHandler';
+import { idempotent } from './idempotency';
+
+describe('Idempotency-Key', () => {
+  let api: TestApi;
+  let token: string;
+
+  const post = (key: string, body: unknown) =>
+    api.request('POST', '/animals', { token, body, headers: { 'Idempotency-Key': key } });
+
+  beforeAll(async () => {
+    api = await startApi();
+    token = await setupOwner(api);
+  });
+
+  afterAll(() => api.close());
+
+  it('replays the first response to a retry instead of creating again', async () => {
+    const first = await post('create-bella', goat());
+    expect(first.status).toBe(201);
+
+    // The response is stored once it has been sent
+    const retry = await vi.waitFor(async () => {
+      const response = await post('create-bella', goat());
+      expect(response.status).toBe(201);
+      return response;
+    });
+    expect(retry.headers.get('Idempotent-Replayed')).toBe('true');
+    expect(retry.headers.get('Content-Type')).toBe(first.headers.get('Content-Type'));
+    expect(retry.body).toEqual(first.body);
+
+    const animals = await api.request('GET', '/animals', { token });
+    expect(animals.body).toHaveLength(1);
+  });
+
+  it('rejects a key reused for a different body', async () => {
+    expect((await post('create-max', goat({ name: 'Max' }))).status).toBe(201);
+
+    const reused = await vi.waitFor(async () => {
+      const response = await post('create-max', goat({ name: 'Molly' }));
+      expect(response.status).not.toBe(409);
+      return response;
+    });
+    expect(reused.status).toBe(422);
+  });
+
+  it('creates every time without a key', async () => {
+    const first = await api.request('POST', '/animals', { token, body: goat({ name: 'Daisy' }) });
+    const second = await api.request('POST', '/animals', { token, body: goat({ name: 'Daisy' }) });
+    expect(second.body.id).not.toBe(first.body.id);
+    expect(second.headers.get('Idempotent-Replayed')).toBeNull();
+  });
+
+  it('never stores a webhook secret', async () => {
+    const body = { url: 'https://example.com/hooks', events: ['animal.sold'], secret: 'subscriber-secret-0123456789' };
+    const create = () => api.request('POST', '/webhooks', { token, body, headers: { 'Idempotency-Key': 'hook' } });
+
+    const first = await create();
+    expect(first.body.secret).toBe(body.secret);
+
+    const retry = await vi.waitFor(async () => {
+      const response = await create();
+      expect(response.headers.get('Idempotent-Replayed')).toBe('true');
+      return response;
+    });
+    expect(retry.status).toBe(201);
+    expect(retry.body).toEqual({ ...first.body, secret: undefined });
+    const stored = await storage.idempotencyKeys.claim({ scope: '1:1', key: 'hook', fingerprint: '', createdAt: '' });
+    expect(stored).toMatchObject({ status: 201, body: { id: first.body.id } });
+    expect(JSON.stringify(stored)).not.toContain(body.secret);
+  });
+
+  it('replays the ETag and Location headers of the first response', async () => {
+    let created = 0;
+    const app = express().use(express.json());
+    app.post('/things', ...[idempotent, (req: express.Request, res: express.Response) => {
+      created += 1;
+      res.set({ ETag: '"v1"', Location: `/things/${created}` }).status(201).json({ id: String(created) });
+    }].map(asyncHandler));
+    const server = app.listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+    const post = () => fetch(`http://127.0.0.1:${(server.address() as AddressInfo).port}/things`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Idempotency-Key': 'thing' },
+      body: '{}',
+    });
+
+    try {
+      await post();
+      const retry = await vi.waitFor(async () => {
+        const response = await post();
+        expect(response.headers.get('Idempotent-Replayed')).toBe('true');
+        return response;
+      });
+      expect(created).toBe(1);
+      expect(retry.headers.get('ETag')).toBe('"v1"');
+      expect(retry.headers.get('Location')).toBe('/things/1');
+    } finally {
+      server.close();
+    }
+  });
+});
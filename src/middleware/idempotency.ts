@@ -0,0 +1,110 @@
+import { createHash } from "crypto";
+import { RequestHandler } from "express";
+import config from "../config";
+import storage, { IdempotencyRecord } from "../storage";
+import logger from "../utils/errorLogger";
+import { ConflictError, UnprocessableError, ValidationError } from "../utils/errors";
+
+const MAX_KEY_LENGTH = 255;
+
+// Keys belong to the caller and farm that used them, so two users cannot collide
+const scopeOf = (userId: string | undefined, farmId: string | undefined) =>
+  `${userId ?? "anonymous"}:${farmId ?? "-"}`;
+
+// The same key must come with the same method, path and body
+const fingerprintOf = (method: string, path: string, body: unknown) =>
+  createHash("sha256").update(`${method} ${path}\n${JSON.stringify(body ?? null)}`).digest("hex");
+
+const isExpired = (record: IdempotencyRecord) =>
+  Date.parse(record.createdAt) < Date.now() - config.idempotency.ttlMs;
+
+// Response headers stored along with the body and set again on replay
+const REPLAYED_HEADERS = ["Content-Type", "ETag", "Location"];
+
+const replayedHeaders = (get: (name: string) => string | undefined): Record<string, string> =>
+  Object.fromEntries(REPLAYED_HEADERS.flatMap(name => {
+    const value = get(name);
+    return value ? [[name, value]] : [];
+  }));
+
+// Drops `fields` from a stored JSON object body
+const omitFields = (body: unknown, fields: string[]): unknown =>
+  fields.length > 0 && body !== null && typeof body === "object" && !Array.isArray(body)
+    ? Object.fromEntries(Object.entries(body).filter(([field]) => !fields.includes(field)))
+    : body;
+
+/**
+ * Honors an `Idempotency-Key` header on create and import routes. The first
+ * request with a key runs normally and its response (status, JSON body and
+ * the REPLAYED_HEADERS it set) is stored for IDEMPOTENCY_TTL_HOURS; retries
+ * with the same key get that response replayed, marked
+ * `Idempotent-Replayed: true`, without running the handler again. Reusing a key for a different request is a 422, and a retry
+ * while the first request is still running is a 409. 5xx responses are not
+ * stored, so the request can be retried for real.
+ *
+ * Requests without the header pass straight through. Place it before
+ * validateBody so the fingerprint covers the body as sent.
+ *
+ * `secretFields` are top-level body fields that are never stored, such as a
+ * signing secret shown only once; a replay comes back without them.
+ */
+export const idempotentOmitting = (...secretFields: string[]): RequestHandler => async (req, res, next) => {
+  const key = req.get("Idempotency-Key")?.trim();
+  if (!key) return next();
+  if (key.length > MAX_KEY_LENGTH) {
+    throw new ValidationError("Invalid Idempotency-Key", [
+      { field: "Idempotency-Key", message: `At most ${MAX_KEY_LENGTH} characters` },
+    ]);
+  }
+
+  const scope = scopeOf(req.user?.id, req.farmId);
+  const record: IdempotencyRecord = {
+    scope,
+    key,
+    fingerprint: fingerprintOf(req.method, req.baseUrl + req.path, req.body),
+    createdAt: new Date().toISOString(),
+  };
+
+  let existing = await storage.idempotencyKeys.claim(record);
+  if (existing && isExpired(existing)) {
+    await storage.idempotencyKeys.release(scope, key);
+    existing = await storage.idempotencyKeys.claim(record);
+  }
+
+  if (existing) {
+    if (existing.fingerprint !== record.fingerprint) {
+      throw new UnprocessableError("Idempotency-Key was already used for a different request", { key });
+    }
+    if (existing.status === undefined) {
+      throw new ConflictError("A request with this Idempotency-Key is still being processed", { key });
+    }
+    res.set({ ...existing.headers, "Idempotent-Replayed": "true" });
+    return res.status(existing.status).json(existing.body);
+  }
+
+  // Every handler and errorHandler answers through res.json
+  let body: unknown;
+  const json = res.json.bind(res);
+  res.json = (value: unknown) => {
+    body = value;
+    return json(value);
+  };
+
+  // Also frees the key when the client disconnects before the response is sent
+  res.on("close", () => {
+    const stored = res.writableFinished && res.statusCode < 500
+      ? storage.idempotencyKeys.complete(scope, key, {
+        status: res.statusCode,
+        body: omitFields(body, secretFields),
+        headers: replayedHeaders(name => res.get(name)),
+      })
+      : storage.idempotencyKeys.release(scope, key);
+    stored.catch(error =>
+      logger.error("Failed to store the idempotent response", "middleware.idempotent", { key, error }, req),
+    );
+  });
+  next();
+};
+
+// For routes whose responses carry no secrets
+export const idempotent = idempotentOmitting();
@@ -0,0 +1,57 @@
+import { randomUUID } from "crypto";
+import { Request, RequestHandler } from "express";
+import config from "../config";
+import { recordRequest } from "../utils/metrics";
+
+declare global {
+  namespace Express {
+    interface Request {
+      requestId?: string;
+    }
+  }
+}
+
+// Incoming ids are reused only when they are short and safe to echo into logs
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+// Route pattern of the matched route; requests no route matched share one series
+const routeOf = (req: Request): string => (req.route ? req.baseUrl + req.route.path : "unmatched");
+
+/**
+ * Assigns the request id (the caller's `X-Request-Id` when usable, otherwise
+ * a new UUID), echoes it in the response header, and once the response is
+ * sent records metrics and writes one JSON access line. Registered first so
+ * that requests rejected by CORS or the body parsers are covered too.
+ */
+export const requestLogger: RequestHandler = (req, res, next) => {
+  const incoming = req.get("X-Request-Id");
+  req.requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+  res.setHeader("X-Request-Id", req.requestId);
+
+  const start = process.hrtime.bigint();
+  res.on("finish", () => {
+    const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+    const route = routeOf(req);
+    recordRequest(req.method, route, res.statusCode, seconds);
+
+    if (config.features.accessLog) {
+      console.log(JSON.stringify({
+        type: "access",
+        timestamp: new Date().toISOString(),
+        requestId: req.requestId,
+        method: req.method,
+        path: req.originalUrl.split("?")[0],
+        route,
+        status: res.statusCode,
+        durationMs: Math.round(seconds * 100000) / 100,
+        bytes: Number(res.get("Content-Length")) || undefined,
+        userId: req.user?.id,
+        farmId: req.farmId,
+        ip: req.ip,
+        userAgent: req.get("User-Agent"),
+      }));
+    }
+  });
+
+  next();
+};
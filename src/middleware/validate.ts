@@ -0,0 +1,62 @@
+import { RequestHandler } from "express";
+import { ZodError, ZodTypeAny } from "zod";
+import { ValidationError } from "../utils/errors";
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+// What a validateBody/validateQuery middleware checks; read by the OpenAPI generator
+export interface RequestValidator {
+  location: "body" | "query";
+  schema: ZodTypeAny;
+}
+
+const validators = new WeakMap<RequestHandler, RequestValidator>();
+
+export const describeValidator = (handler: RequestHandler): RequestValidator | undefined =>
+  validators.get(handler);
+
+// Flattens zod issues into one entry per invalid field, e.g. "3.amount"
+export const toFieldErrors = (error: ZodError, root = "body"): FieldError[] =>
+  error.issues.map((issue) => ({
+    field: issue.path.length > 0 ? issue.path.join(".") : root,
+    message: issue.message,
+  }));
+
+/**
+ * Validates `req.body` against a schema from `@shared/*-schemas`.
+ * On success the parsed value (with defaults applied and unknown keys
+ * stripped) replaces `req.body`; on failure passes a ValidationError
+ * listing every invalid field.
+ */
+export const validateBody = (schema: ZodTypeAny): RequestHandler => {
+  const handler: RequestHandler = (req, res, next) => {
+    const result = schema.safeParse(req.body);
+    if (!result.success) {
+      return next(new ValidationError("Invalid request body", toFieldErrors(result.error)));
+    }
+    req.body = result.data;
+    next();
+  };
+  validators.set(handler, { location: "body", schema });
+  return handler;
+};
+
+/**
+ * Validates `req.query` the same way; handlers read the parsed value
+ * (numbers, ranges, defaults) from `req.query`.
+ */
+export const validateQuery = (schema: ZodTypeAny): RequestHandler => {
+  const handler: RequestHandler = (req, res, next) => {
+    const result = schema.safeParse(req.query);
+    if (!result.success) {
+      return next(new ValidationError("Invalid query parameters", toFieldErrors(result.error, "query")));
+    }
+    req.query = result.data;
+    next();
+  };
+  validators.set(handler, { location: "query", schema });
+  return handler;
+};
@@ -0,0 +1,315 @@
+import { ZodTypeAny } from "zod";
+import {
+  animalCreateSchema,
+  weightRecordCreateSchema,
+  breedingRecordCreateSchema,
+  vaccinationRecordCreateSchema,
+  healthRecordCreateSchema,
+} from "@shared/animal-schemas";
+import { expenseCreateSchema, categoryConfigSchema } from "@shared/expense-schemas";
+import { taskCreateSchema } from "@shared/task-schemas";
+import { farmCreateSchema } from "@shared/farm-schemas";
+import { userCreateSchema } from "@shared/auth-schemas";
+import { ALL_PERMISSIONS } from "@shared/auth-types";
+import { API_ERROR_CODES } from "@shared/api";
+import { auditEntitySchema, auditActionSchema } from "@shared/audit-schemas";
+import { trashEntitySchema } from "@shared/trash-schemas";
+import { animalTimelineEventTypeSchema } from "@shared/timeline-schemas";
+import { logLevelSchema, logStatsIntervalSchema } from "@shared/log-schemas";
+import { webhookEventTypeSchema, webhookDeliveryStatusSchema } from "@shared/webhook-schemas";
+import { JsonSchema, toJsonSchema } from "./jsonSchema";
+
+/**
+ * Response shapes for the OpenAPI document. Stored records are derived from
+ * the create schemas plus their server-managed fields; the remaining shapes
+ * mirror the interfaces in `@shared/*-types`.
+ */
+
+export const ref = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+
+export const arrayOf = (name: string): JsonSchema => ({ type: "array", items: ref(name) });
+
+// The records a TrashItem can hold, which restoring it returns
+export const trashedRecordSchemas: JsonSchema[] = [
+  "Animal",
+  "WeightRecord",
+  "BreedingRecord",
+  "VaccinationRecord",
+  "HealthRecord",
+  "Task",
+  "Expense",
+].map(name => ref(name));
+
+const timestamp: JsonSchema = { type: "string", format: "date-time" };
+const text: JsonSchema = { type: "string" };
+const amount: JsonSchema = { type: "number" };
+const count: JsonSchema = { type: "integer" };
+
+const object = (properties: Record<string, JsonSchema>, optional: string[] = []): JsonSchema => ({
+  type: "object",
+  properties,
+  required: Object.keys(properties).filter(key => !optional.includes(key)),
+});
+
+// A create schema's fields plus `id` and the given server-managed fields
+const record = (schema: ZodTypeAny, serverFields: Record<string, JsonSchema>): JsonSchema => {
+  const { properties, required = [] } = toJsonSchema(schema) as {
+    properties: Record<string, JsonSchema>;
+    required?: string[];
+  };
+  return {
+    type: "object",
+    properties: { id: text, ...properties, ...serverFields },
+    required: ["id", ...required, ...Object.keys(serverFields)],
+  };
+};
+
+// PaginatedResponse<T> from `@shared/api`, plus any extra fields
+export const pageOf = (name: string, extra: Record<string, JsonSchema> = {}): JsonSchema =>
+  object(
+    {
+      data: arrayOf(name),
+      total: count,
+      page: count,
+      pageSize: count,
+      totalPages: count,
+      nextCursor: text,
+      ...extra,
+    },
+    ["nextCursor"],
+  );
+
+const expenseSummary = object({
+  totalIncome: amount,
+  totalExpenses: amount,
+  balance: amount,
+  transactionCount: count,
+});
+
+const categoryTotals = object(
+  {
+    category: text,
+    amount,
+    count,
+    previousYear: object({ amount, count }),
+  },
+  ["previousYear"],
+);
+
+// LogCounts from `@shared/log-types`
+const logCounts: Record<string, JsonSchema> = {
+  total: count,
+  byLevel: object(Object.fromEntries(logLevelSchema.options.map(level => [level, count]))),
+};
+
+// LivenessReport from `@shared/health-types`, less its status
+const liveness: Record<string, JsonSchema> = { version: text, build: text, uptimeSeconds: count };
+const healthCheck = object({ name: text, ok: { type: "boolean" }, error: text }, ["error"]);
+
+// WebhookSubscription from `@shared/webhook-types`
+const webhook: Record<string, JsonSchema> = {
+  id: text,
+  url: { type: "string", format: "uri" },
+  events: { type: "array", items: toJsonSchema(webhookEventTypeSchema) },
+  active: { type: "boolean" },
+  description: text,
+  createdAt: timestamp,
+  updatedAt: timestamp,
+};
+
+export const componentSchemas: Record<string, JsonSchema> = {
+  Error: object(
+    { error: text, code: { type: "string", enum: API_ERROR_CODES }, requestId: text, details: {} },
+    ["requestId", "details"],
+  ),
+  ValidationError: object(
+    {
+      error: text,
+      code: { type: "string", enum: API_ERROR_CODES },
+      requestId: text,
+      details: { type: "array", items: object({ field: text, message: text }) },
+    },
+    ["requestId"],
+  ),
+  Message: object({ message: text }),
+  LivenessReport: object({ status: { type: "string", enum: ["ok"] }, ...liveness }, ["build"]),
+  ReadinessReport: object(
+    {
+      status: { type: "string", enum: ["ok", "degraded"] },
+      ...liveness,
+      storage: object({
+        backend: { type: "string", enum: ["supabase", "local"] },
+        ok: { type: "boolean" },
+        checks: { type: "array", items: healthCheck },
+      }),
+      logger: object({ ok: { type: "boolean" }, buffered: count, spooled: count }),
+    },
+    ["build"],
+  ),
+
+  Animal: record(animalCreateSchema, { createdAt: timestamp, updatedAt: timestamp }),
+  AnimalSummary: object(
+    Object.fromEntries(
+      [
+        "totalAnimals",
+        "totalGoats",
+        "totalSheep",
+        "totalMales",
+        "totalFemales",
+        "activeAnimals",
+        "soldAnimals",
+        "readyToSell",
+        "deadAnimals",
+        "averageWeight",
+        "totalInvestment",
+        "totalRevenue",
+        "profitLoss",
+      ].map(key => [key, amount]),
+    ),
+  ),
+  AnimalStats: object(
+    { ageMonths: count, lastWeightDate: text, lastWeight: amount, totalCareCost: amount },
+    ["ageMonths", "lastWeightDate", "lastWeight"],
+  ),
+  // Only the parts named in `include` are present
+  AnimalDetail: {
+    allOf: [
+      ref("Animal"),
+      object(
+        {
+          weights: arrayOf("WeightRecord"),
+          breeding: arrayOf("BreedingRecord"),
+          vaccinations: arrayOf("VaccinationRecord"),
+          health: arrayOf("HealthRecord"),
+          offspring: arrayOf("Animal"),
+          stats: ref("AnimalStats"),
+        },
+        ["weights", "breeding", "vaccinations", "health", "offspring", "stats"],
+      ),
+    ],
+  },
+  WeightRecord: record(weightRecordCreateSchema, { createdAt: timestamp }),
+  BreedingRecord: record(breedingRecordCreateSchema, { createdAt: timestamp, updatedAt: timestamp }),
+  VaccinationRecord: record(vaccinationRecordCreateSchema, { createdAt: timestamp }),
+  HealthRecord: record(healthRecordCreateSchema, { createdAt: timestamp }),
+  // `record` is the animal for purchase, birth, sale and death events
+  AnimalTimelineEvent: object({
+    id: text,
+    type: toJsonSchema(animalTimelineEventTypeSchema),
+    date: text,
+    title: text,
+    record: {
+      anyOf: ["Animal", "WeightRecord", "VaccinationRecord", "HealthRecord", "BreedingRecord", "Task"].map(name => ref(name)),
+    },
+  }),
+
+  Task: record(taskCreateSchema, { createdAt: timestamp }),
+
+  Expense: record(expenseCreateSchema, {}),
+  ExpenseSummary: expenseSummary,
+  ExpenseSummaryReport: {
+    ...expenseSummary,
+    properties: { ...(expenseSummary.properties as object), previousYear: expenseSummary },
+  },
+  CategoryBreakdown: {
+    ...categoryTotals,
+    properties: {
+      ...(categoryTotals.properties as object),
+      subCategories: { type: "array", items: categoryTotals },
+    },
+    required: [...(categoryTotals.required as string[]), "subCategories"],
+  },
+  MonthlyBreakdown: object(
+    {
+      month: { type: "string", pattern: "^\\d{4}-\\d{2}$" },
+      income: amount,
+      expenses: amount,
+      previousYear: object({ income: amount, expenses: amount }),
+    },
+    ["previousYear"],
+  ),
+  Category: record(categoryConfigSchema, { createdAt: timestamp }),
+  CategoryManagementData: object({ categories: arrayOf("Category"), lastUpdated: timestamp }),
+
+  AuditEntry: object(
+    {
+      id: text,
+      entity: toJsonSchema(auditEntitySchema),
+      entityId: text,
+      animalId: text,
+      action: toJsonSchema(auditActionSchema),
+      changes: {
+        type: "object",
+        additionalProperties: object({ before: {}, after: {} }, ["before", "after"]),
+      },
+      userId: text,
+      username: text,
+      timestamp,
+    },
+    ["animalId", "userId", "username"],
+  ),
+
+  TrashItem: object(
+    {
+      type: toJsonSchema(trashEntitySchema),
+      id: text,
+      label: text,
+      deletedAt: timestamp,
+      purgeAt: timestamp,
+      record: { anyOf: trashedRecordSchemas },
+    },
+    ["purgeAt"],
+  ),
+
+  LogEntry: object(
+    {
+      id: text,
+      timestamp,
+      level: toJsonSchema(logLevelSchema),
+      message: text,
+      source: text,
+      details: {},
+      userId: text,
+      ipAddress: text,
+      userAgent: text,
+      requestId: text,
+    },
+    ["id", "details", "userId", "ipAddress", "userAgent", "requestId"],
+  ),
+  LogStats: object({
+    ...logCounts,
+    bySource: { type: "array", items: object({ source: text, ...logCounts }) },
+    interval: toJsonSchema(logStatsIntervalSchema),
+    timeline: { type: "array", items: object({ start: timestamp, ...logCounts }) },
+  }),
+
+  Webhook: object(webhook, ["description"]),
+  CreatedWebhook: object({ ...webhook, secret: text }, ["description"]),
+  WebhookDelivery: object(
+    {
+      id: text,
+      webhookId: text,
+      event: toJsonSchema(webhookEventTypeSchema),
+      payload: object({ id: text, event: toJsonSchema(webhookEventTypeSchema), farmId: text, timestamp, data: {} }),
+      status: toJsonSchema(webhookDeliveryStatusSchema),
+      attempts: count,
+      lastAttempt: object(
+        { at: timestamp, durationMs: count, responseStatus: count, error: text },
+        ["responseStatus", "error"],
+      ),
+      nextAttemptAt: timestamp,
+      redeliveryOf: text,
+      createdAt: timestamp,
+    },
+    ["lastAttempt", "nextAttemptAt", "redeliveryOf"],
+  ),
+
+  Farm: record(farmCreateSchema, { createdAt: timestamp, updatedAt: timestamp }),
+  User: record(userCreateSchema.omit({ password: true }), { createdAt: timestamp, updatedAt: timestamp }),
+  LoginResponse: object({ token: text, expiresAt: timestamp, user: ref("User") }),
+  EventStreamToken: object({ token: text, expiresAt: timestamp }),
+  CurrentUser: object({
+    user: ref("User"),
+    permissions: { type: "array", items: { type: "string", enum: ALL_PERMISSIONS } },
+  }),
+};
@@ -0,0 +1,144 @@
+import { RequestHandler } from "express";
+import { RouteAccess } from "../middleware/auth";
+import { requireFarm } from "../middleware/farm";
+import { idempotent } from "../middleware/idempotency";
+import { describeValidator } from "../middleware/validate";
+import { JsonSchema, toJsonSchema, toQueryParameters } from "./jsonSchema";
+import { componentSchemas, ref } from "./components";
+import { routeDocs } from "./routeDocs";
+
+/** A route as passed to registerRoute in createServer. */
+export interface RegisteredRoute {
+  method: "get" | "post" | "put" | "patch" | "delete";
+  // Path relative to the API base path, in Express syntax (`/animals/:id`)
+  path: string;
+  access: RouteAccess;
+  handlers: RequestHandler[];
+}
+
+const errorResponse = (description: string, schema = "Error"): JsonSchema => ({
+  description,
+  content: { "application/json": { schema: ref(schema) } },
+});
+
+const farmHeader: JsonSchema = {
+  name: "X-Farm-Id",
+  in: "header",
+  required: false,
+  description: "Farm to act on. Required when the caller belongs to more than one farm.",
+  schema: { type: "string" },
+};
+
+const idempotencyKeyHeader: JsonSchema = {
+  name: "Idempotency-Key",
+  in: "header",
+  required: false,
+  description: "Unique per logical request; retries with the same key get the first response replayed.",
+  schema: { type: "string", maxLength: 255 },
+};
+
+// `/animals/:id` -> `/animals/{id}`
+const toOpenApiPath = (path: string) => path.replace(/:(\w+)/g, "{$1}");
+
+const pathParameters = (path: string): JsonSchema[] =>
+  [...path.matchAll(/:(\w+)/g)].map(([, name]) => ({
+    name,
+    in: "path",
+    required: true,
+    schema: { type: "string" },
+  }));
+
+const toOperation = ({ method, path, access, handlers }: RegisteredRoute): JsonSchema => {
+  const openApiPath = toOpenApiPath(path);
+  const doc = routeDocs[`${method.toUpperCase()} ${openApiPath}`];
+  const validators = handlers.map(describeValidator).filter(validator => validator !== undefined);
+  const body = validators.find(validator => validator.location === "body");
+  const query = validators.find(validator => validator.location === "query");
+  const farmScoped = handlers.includes(requireFarm);
+  const idempotencyKeyed = handlers.includes(idempotent);
+
+  const parameters = [
+    ...pathParameters(path),
+    ...(query ? toQueryParameters(query.schema) : []),
+    ...(doc?.parameters ?? []),
+    ...(farmScoped ? [farmHeader] : []),
+    ...(idempotencyKeyed ? [idempotencyKeyHeader] : []),
+  ];
+
+  const responses: JsonSchema = {
+    [doc?.status ?? 200]: {
+      description: "Success",
+      ...(doc?.response && { content: { "application/json": { schema: doc.response } } }),
+    },
+  };
+  if (body || query) {
+    responses[400] = errorResponse("Invalid request", "ValidationError");
+  } else if (farmScoped) {
+    responses[400] = errorResponse("X-Farm-Id header is required");
+  }
+  if (access !== "public") {
+    responses[401] = errorResponse("Authentication required");
+  }
+  if (access !== "public" && (access !== "authenticated" || farmScoped)) {
+    responses[403] = errorResponse("Insufficient permissions or no access to the farm");
+  }
+  if (path.includes(":")) {
+    responses[404] = errorResponse("Not found");
+  }
+  if (idempotencyKeyed) {
+    responses[409] = errorResponse("A request with the same Idempotency-Key is still being processed");
+    responses[422] = errorResponse("The Idempotency-Key was used for a different request");
+  }
+  responses[500] = errorResponse("Server error");
+  responses[502] = errorResponse("The database could not be reached or failed");
+
+  return {
+    tags: [path.split("/")[1]],
+    summary: doc?.summary,
+    description: doc?.description,
+    ...(parameters.length > 0 && { parameters }),
+    ...(body && {
+      requestBody: {
+        required: true,
+        content: {
+          [method === "patch" ? "application/merge-patch+json" : "application/json"]: {
+            schema: toJsonSchema(body.schema),
+          },
+        },
+      },
+    }),
+    responses,
+    ...(access === "public" ? { security: [] } : { "x-required-permission": access }),
+  };
+};
+
+/**
+ * Builds the OpenAPI 3.0 document for the registered routes. Request bodies
+ * and query parameters come from the validateBody / validateQuery schemas on
+ * each route; summaries and response shapes come from `routeDocs`.
+ */
+export const buildOpenApiDocument = (
+  routes: RegisteredRoute[],
+  info: { title: string; version: string; description?: string },
+  basePath: string,
+): JsonSchema => {
+  const paths: Record<string, JsonSchema> = {};
+  for (const route of routes) {
+    const path = toOpenApiPath(route.path);
+    paths[path] = { ...paths[path], [route.method]: toOperation(route) };
+  }
+
+  return {
+    openapi: "3.0.3",
+    info,
+    servers: [{ url: basePath }],
+    security: [{ bearerAuth: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer" },
+      },
+      schemas: componentSchemas,
+    },
+  };
+};
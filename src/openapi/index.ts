@@ -0,0 +1,3 @@
+export { buildOpenApiDocument } from './document';
+export type { RegisteredRoute } from './document';
+export { renderDocsPage } from './docsPage';
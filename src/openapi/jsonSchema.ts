@@ -0,0 +1,131 @@
+import { ZodFirstPartyTypeKind, ZodObject, ZodTypeAny } from "zod";
+
+export type JsonSchema = { [keyword: string]: unknown };
+
+/**
+ * Converts a request schema from `@shared/*-schemas` into an OpenAPI 3.0
+ * schema object. Preprocessing and transforms are skipped, so the result
+ * describes the accepted input; defaults and string/number checks carry over.
+ * Unsupported zod types become `{}` (any value).
+ */
+export const toJsonSchema = (schema: ZodTypeAny): JsonSchema => {
+  const converted = convert(schema);
+  return schema.description ? { ...converted, description: schema.description } : converted;
+};
+
+const convert = (schema: ZodTypeAny): JsonSchema => {
+  const def = schema._def;
+
+  switch (def.typeName as ZodFirstPartyTypeKind) {
+    case ZodFirstPartyTypeKind.ZodString: {
+      const result: JsonSchema = { type: "string" };
+      for (const check of def.checks) {
+        if (check.kind === "min") result.minLength = check.value;
+        if (check.kind === "max") result.maxLength = check.value;
+        if (check.kind === "regex") result.pattern = check.regex.source;
+        if (check.kind === "email") result.format = "email";
+        if (check.kind === "url") result.format = "uri";
+      }
+      return result;
+    }
+
+    case ZodFirstPartyTypeKind.ZodNumber: {
+      const isInt = def.checks.some((check: { kind: string }) => check.kind === "int");
+      const result: JsonSchema = { type: isInt ? "integer" : "number" };
+      for (const check of def.checks) {
+        if (check.kind === "min") {
+          result[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+        }
+        if (check.kind === "max") {
+          result[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+        }
+      }
+      // OpenAPI 3.0 spells exclusive bounds as booleans next to minimum/maximum
+      if (result.exclusiveMinimum !== undefined) {
+        result.minimum = result.exclusiveMinimum;
+        result.exclusiveMinimum = true;
+      }
+      if (result.exclusiveMaximum !== undefined) {
+        result.maximum = result.exclusiveMaximum;
+        result.exclusiveMaximum = true;
+      }
+      return result;
+    }
+
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: "boolean" };
+
+    case ZodFirstPartyTypeKind.ZodEnum:
+      return { type: "string", enum: def.values };
+
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return { enum: [def.value] };
+
+    case ZodFirstPartyTypeKind.ZodArray: {
+      const result: JsonSchema = { type: "array", items: toJsonSchema(def.type) };
+      if (def.minLength) result.minItems = def.minLength.value;
+      if (def.maxLength) result.maxItems = def.maxLength.value;
+      return result;
+    }
+
+    case ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (schema as ZodObject<any>).shape as Record<string, ZodTypeAny>;
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      for (const [key, value] of Object.entries(shape)) {
+        properties[key] = toJsonSchema(value);
+        if (!value.isOptional()) required.push(key);
+      }
+      return required.length > 0
+        ? { type: "object", properties, required }
+        : { type: "object", properties };
+    }
+
+    case ZodFirstPartyTypeKind.ZodRecord:
+      return { type: "object", additionalProperties: toJsonSchema(def.valueType) };
+
+    case ZodFirstPartyTypeKind.ZodUnion:
+      return { anyOf: def.options.map(toJsonSchema) };
+
+    case ZodFirstPartyTypeKind.ZodOptional:
+      return toJsonSchema(def.innerType);
+
+    case ZodFirstPartyTypeKind.ZodNullable:
+      return { ...toJsonSchema(def.innerType), nullable: true };
+
+    case ZodFirstPartyTypeKind.ZodDefault: {
+      const defaultValue = def.defaultValue();
+      return { ...toJsonSchema(def.innerType), default: defaultValue };
+    }
+
+    // preprocess, transform and refine wrap the schema that does the checking
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return toJsonSchema(def.schema);
+
+    // `a.pipe(b)`: b holds the constraints, a only coerces
+    case ZodFirstPartyTypeKind.ZodPipeline:
+      return toJsonSchema(def.out);
+
+    default:
+      return {};
+  }
+};
+
+/**
+ * Query parameters for a list-query schema: one entry per key of the
+ * underlying object, unwrapping refinements around it.
+ */
+export const toQueryParameters = (schema: ZodTypeAny) => {
+  let inner = schema;
+  while (inner._def.typeName === ZodFirstPartyTypeKind.ZodEffects) {
+    inner = inner._def.schema;
+  }
+  if (!(inner instanceof ZodObject)) return [];
+
+  return Object.entries(inner.shape as Record<string, ZodTypeAny>).map(([name, value]) => ({
+    name,
+    in: "query",
+    required: !value.isOptional(),
+    schema: toJsonSchema(value),
+  }));
+};
@@ -0,0 +1,381 @@
+import { JsonSchema } from "./jsonSchema";
+import { ref, arrayOf, pageOf, trashedRecordSchemas } from "./components";
+
+/**
+ * Human-facing details for each route, keyed by "METHOD /path" as passed to
+ * registerRoute. Methods, paths, permissions, farm scoping and request
+ * schemas come from the registrations themselves.
+ */
+export interface RouteDoc {
+  summary: string;
+  description?: string;
+  // Success status; defaults to 200
+  status?: number;
+  response?: JsonSchema;
+  // Parameters not covered by a validateQuery schema
+  parameters?: JsonSchema[];
+}
+
+const message = ref("Message");
+const animalIdFilter: JsonSchema = {
+  name: "animalId",
+  in: "query",
+  required: false,
+  description: "Only records for this animal",
+  schema: { type: "string" },
+};
+
+// Optimistic concurrency on updates of records with an ETag
+const ifMatchHeader: JsonSchema = {
+  name: "If-Match",
+  in: "header",
+  required: false,
+  description:
+    "The record's ETag as last read; the update is refused with 409 and the current record in `details.current` when it has changed since",
+  schema: { type: "string" },
+};
+const etagNote = "The `ETag` response header is the record's version, to send back as `If-Match` when updating it.";
+
+// PATCH routes take a JSON Merge Patch (RFC 7396) of the record
+const mergePatchNote =
+  "Only the fields sent change; `null` clears a field (or resets it to its default). The patched record must still be valid as a whole, and `PUT` remains for full replacement.";
+
+// Edits and deletes of weigh-ins
+const currentWeightNote =
+  "When the animal's latest weigh-in changes as a result, its `currentWeight` is set to the new latest weight.";
+
+const deletedCount: JsonSchema = {
+  type: "object",
+  properties: { message: { type: "string" }, deletedCount: { type: "integer" } },
+};
+
+export const routeDocs: Record<string, RouteDoc> = {
+  "GET /ping": { summary: "Check that the API is running", response: message },
+  "GET /health/live": {
+    summary: "Check that the process is up",
+    response: ref("LivenessReport"),
+  },
+  "GET /health/ready": {
+    summary: "Check the database, its tables and the log queue",
+    description:
+      "Answers 503 with the same body when a table or view is missing or unreachable, the database does not answer within 5 seconds, or log entries are waiting in the spool file.",
+    response: ref("ReadinessReport"),
+  },
+  "GET /demo": { summary: "Demo endpoint", response: message },
+  "GET /metrics": {
+    summary: "Request metrics",
+    description:
+      "Request counts by method, route and status, and latency histograms by method and route, in the Prometheus text format. Scrapers may authenticate with `Authorization: Bearer <METRICS_TOKEN>` instead of a user token.",
+  },
+
+  "POST /auth/setup": {
+    summary: "Create the first owner account",
+    description: "Only allowed while no users exist. Creates the first farm when none exists.",
+    status: 201,
+    response: ref("LoginResponse"),
+  },
+  "POST /auth/login": { summary: "Exchange username and password for a bearer token", response: ref("LoginResponse") },
+  "GET /auth/me": { summary: "Current user and the permissions granted by their role", response: ref("CurrentUser") },
+  "GET /users": { summary: "List users", response: arrayOf("User") },
+  "POST /users": { summary: "Create a user", status: 201, response: ref("User") },
+  "PUT /users/{id}": { summary: "Update a user's name, role, farms or password", response: ref("User") },
+  "DELETE /users/{id}": { summary: "Delete a user", response: message },
+
+  "GET /farms": { summary: "Farms the current user belongs to", response: arrayOf("Farm") },
+  "POST /farms": { summary: "Create a farm and add the caller to it", status: 201, response: ref("Farm") },
+  "PUT /farms/{id}": { summary: "Update a farm", response: ref("Farm") },
+
+  "GET /expenses": {
+    summary: "List expenses",
+    description:
+      "Returns an array, or a page with `summary` totals over all matching expenses when page, pageSize or cursor is given.",
+    response: {
+      anyOf: [arrayOf("Expense"), pageOf("Expense", { summary: ref("ExpenseSummary") })],
+    },
+  },
+  "GET /expenses/summary": { summary: "Income, expense and balance totals", response: ref("ExpenseSummaryReport") },
+  "GET /expenses/by-category": {
+    summary: "Totals per category with sub-category drill-down",
+    response: arrayOf("CategoryBreakdown"),
+  },
+  "GET /expenses/monthly": { summary: "Income and expenses per month", response: arrayOf("MonthlyBreakdown") },
+  "POST /expenses": { summary: "Create an expense", status: 201, response: ref("Expense") },
+  "GET /expenses/{id}": { summary: "Get an expense", description: etagNote, response: ref("Expense") },
+  "PUT /expenses/{id}": { summary: "Update an expense", parameters: [ifMatchHeader], response: ref("Expense") },
+  "PATCH /expenses/{id}": {
+    summary: "Change some of an expense's fields",
+    description: mergePatchNote,
+    parameters: [ifMatchHeader],
+    response: ref("Expense"),
+  },
+  "DELETE /expenses/{id}": { summary: "Move an expense to the trash", response: message },
+  "POST /expenses/import": {
+    summary: "Import expenses",
+    response: {
+      type: "object",
+      properties: {
+        message: { type: "string" },
+        successCount: { type: "integer" },
+        totalCount: { type: "integer" },
+        errors: { type: "array", items: { type: "string" } },
+      },
+    },
+  },
+  "POST /expenses/bulk-delete": { summary: "Move several expenses to the trash", response: deletedCount },
+  "GET /expenses/backup": { summary: "Download every expense as JSON", response: arrayOf("Expense") },
+  "GET /expenses/categories": { summary: "List expense categories", response: ref("CategoryManagementData") },
+  "POST /expenses/categories": { summary: "Replace the expense categories", response: message },
+  "POST /expenses/populate-categories": {
+    summary: "Rebuild categories from existing expenses",
+    response: {
+      type: "object",
+      properties: {
+        message: { type: "string" },
+        count: { type: "integer" },
+        categories: ref("CategoryManagementData"),
+      },
+    },
+  },
+
+  "GET /tasks": { summary: "List tasks", response: arrayOf("Task") },
+  "POST /tasks": { summary: "Create a task", status: 201, response: ref("Task") },
+  "GET /tasks/{id}": { summary: "Get a task", description: etagNote, response: ref("Task") },
+  "PUT /tasks/{id}": { summary: "Update a task", parameters: [ifMatchHeader], response: ref("Task") },
+  "PATCH /tasks/{id}": {
+    summary: "Change some of a task's fields",
+    description: `${mergePatchNote} Setting \`status\` to \`completed\` stamps \`completedAt\` unless the patch sets it.`,
+    parameters: [ifMatchHeader],
+    response: ref("Task"),
+  },
+  "DELETE /tasks/{id}": {
+    summary: "Move a task to the trash",
+    response: { type: "object", properties: { message: { type: "string" }, deletedTask: ref("Task") } },
+  },
+  "POST /tasks/bulk-delete": { summary: "Move several tasks to the trash", response: deletedCount },
+  "GET /tasks/backup": { summary: "Download every task as JSON", response: arrayOf("Task") },
+  "POST /tasks/import": {
+    summary: "Import tasks",
+    response: { type: "object", properties: { message: { type: "string" }, count: { type: "integer" } } },
+  },
+
+  "GET /animals": {
+    summary: "List animals",
+    description: "Returns an array, or a page when page, pageSize or cursor is given.",
+    response: { anyOf: [arrayOf("Animal"), pageOf("Animal")] },
+  },
+  "POST /animals": { summary: "Create an animal", status: 201, response: ref("Animal") },
+  "GET /animals/{id}": {
+    summary: "Get an animal",
+    description: `${etagNote} \`include\` is a comma-separated list of weights (oldest first), breeding (as dam or sire), vaccinations, health, offspring and stats (age in months, last weigh-in and total vaccination and health costs) to embed; the ETag covers the animal alone.`,
+    response: ref("AnimalDetail"),
+  },
+  "PUT /animals/{id}": { summary: "Update an animal", parameters: [ifMatchHeader], response: ref("Animal") },
+  "PATCH /animals/{id}": {
+    summary: "Change some of an animal's fields",
+    description: mergePatchNote,
+    parameters: [ifMatchHeader],
+    response: ref("Animal"),
+  },
+  "DELETE /animals/{id}": {
+    summary: "Move an animal and its records to the trash",
+    response: message,
+  },
+  "POST /animals/{id}/transfer": {
+    summary: "Move an animal and its history to another farm",
+    response: {
+      type: "object",
+      properties: { message: { type: "string" }, animal: ref("Animal"), farmId: { type: "string" } },
+    },
+  },
+  "GET /animals/{id}/audit": {
+    summary: "Changes to an animal and its records, newest first",
+    response: pageOf("AuditEntry"),
+  },
+  "GET /animals/{id}/timeline": {
+    summary: "The animal's history as dated events",
+    description:
+      "Purchase, birth, weigh-ins, vaccinations, health records, breedings and kiddings (as dam or sire), tasks linked through `animalId`, sale and death, newest first unless `sortOrder=asc`. `type` is a comma-separated list of event types to keep. Always paginated.",
+    response: pageOf("AnimalTimelineEvent"),
+  },
+  "GET /animals/summary": { summary: "Herd counts, average weight and financials", response: ref("AnimalSummary") },
+  "GET /animals/backup": {
+    summary: "Download animals and their records as JSON",
+    response: {
+      type: "object",
+      properties: {
+        animals: arrayOf("Animal"),
+        weightRecords: arrayOf("WeightRecord"),
+        breedingRecords: arrayOf("BreedingRecord"),
+        vaccinationRecords: arrayOf("VaccinationRecord"),
+        healthRecords: arrayOf("HealthRecord"),
+        exportDate: { type: "string", format: "date-time" },
+      },
+    },
+  },
+
+  "GET /weight-records": {
+    summary: "List weight records",
+    parameters: [animalIdFilter],
+    response: arrayOf("WeightRecord"),
+  },
+  "POST /weight-records": { summary: "Record a weight", status: 201, response: ref("WeightRecord") },
+  "POST /weight-records/bulk-delete": {
+    summary: "Move several weight records to the trash",
+    description: currentWeightNote,
+    response: deletedCount,
+  },
+  "GET /weight-records/{id}": { summary: "Get a weight record", description: etagNote, response: ref("WeightRecord") },
+  "PUT /weight-records/{id}": {
+    summary: "Update a weight record",
+    description: currentWeightNote,
+    parameters: [ifMatchHeader],
+    response: ref("WeightRecord"),
+  },
+  "PATCH /weight-records/{id}": {
+    summary: "Change some of a weight record's fields",
+    description: `${mergePatchNote} ${currentWeightNote}`,
+    parameters: [ifMatchHeader],
+    response: ref("WeightRecord"),
+  },
+  "DELETE /weight-records/{id}": {
+    summary: "Move a weight record to the trash",
+    description: currentWeightNote,
+    response: message,
+  },
+  "GET /breeding-records": {
+    summary: "List breeding records",
+    parameters: [{ ...animalIdFilter, description: "Only records where this animal is a parent" }],
+    response: arrayOf("BreedingRecord"),
+  },
+  "POST /breeding-records": { summary: "Create a breeding record", status: 201, response: ref("BreedingRecord") },
+  "POST /breeding-records/bulk-delete": { summary: "Move several breeding records to the trash", response: deletedCount },
+  "GET /breeding-records/{id}": { summary: "Get a breeding record", description: etagNote, response: ref("BreedingRecord") },
+  "PUT /breeding-records/{id}": {
+    summary: "Update a breeding record",
+    parameters: [ifMatchHeader],
+    response: ref("BreedingRecord"),
+  },
+  "PATCH /breeding-records/{id}": {
+    summary: "Change some of a breeding record's fields",
+    description: mergePatchNote,
+    parameters: [ifMatchHeader],
+    response: ref("BreedingRecord"),
+  },
+  "DELETE /breeding-records/{id}": { summary: "Move a breeding record to the trash", response: message },
+  "GET /vaccination-records": {
+    summary: "List vaccination records",
+    parameters: [animalIdFilter],
+    response: arrayOf("VaccinationRecord"),
+  },
+  "POST /vaccination-records": {
+    summary: "Record a vaccination",
+    status: 201,
+    response: ref("VaccinationRecord"),
+  },
+  "POST /vaccination-records/bulk-delete": {
+    summary: "Move several vaccination records to the trash",
+    response: deletedCount,
+  },
+  "GET /vaccination-records/{id}": {
+    summary: "Get a vaccination record",
+    description: etagNote,
+    response: ref("VaccinationRecord"),
+  },
+  "PUT /vaccination-records/{id}": {
+    summary: "Update a vaccination record",
+    parameters: [ifMatchHeader],
+    response: ref("VaccinationRecord"),
+  },
+  "PATCH /vaccination-records/{id}": {
+    summary: "Change some of a vaccination record's fields",
+    description: mergePatchNote,
+    parameters: [ifMatchHeader],
+    response: ref("VaccinationRecord"),
+  },
+  "DELETE /vaccination-records/{id}": { summary: "Move a vaccination record to the trash", response: message },
+  "GET /health-records": {
+    summary: "List health records",
+    parameters: [animalIdFilter],
+    response: arrayOf("HealthRecord"),
+  },
+  "POST /health-records": { summary: "Create a health record", status: 201, response: ref("HealthRecord") },
+  "POST /health-records/bulk-delete": { summary: "Move several health records to the trash", response: deletedCount },
+  "GET /health-records/{id}": { summary: "Get a health record", description: etagNote, response: ref("HealthRecord") },
+  "PUT /health-records/{id}": {
+    summary: "Update a health record",
+    parameters: [ifMatchHeader],
+    response: ref("HealthRecord"),
+  },
+  "PATCH /health-records/{id}": {
+    summary: "Change some of a health record's fields",
+    description: mergePatchNote,
+    parameters: [ifMatchHeader],
+    response: ref("HealthRecord"),
+  },
+  "DELETE /health-records/{id}": { summary: "Move a health record to the trash", response: message },
+
+  "GET /audit": {
+    summary: "Who changed what, newest first",
+    description: "Covers creates, updates, deletes and imports of animals, records, tasks, expenses and categories.",
+    response: pageOf("AuditEntry"),
+  },
+
+  "GET /events": {
+    summary: "Stream changes to the farm's data (Server-Sent Events)",
+    description:
+      "A `text/event-stream` of `animal.created`, `animal.updated`, `animal.deleted`, `weight.recorded`, `task.statusChanged`, `expense.added` and `categories.saved` events, each carrying a ChangeEvent as JSON. `entity` is a comma-separated list limiting the entities streamed. Send `Last-Event-ID` (or `lastEventId`) to replay missed events; when they cannot be replayed a `reset` event is sent instead. Browsers' EventSource cannot send headers, so `token` may carry a token from `POST /events/token` in place of `Authorization` and `X-Farm-Id`.",
+  },
+  "POST /events/token": {
+    summary: "Issue a token that opens this farm's event stream",
+    description:
+      "The token is valid for 60 seconds, only as `GET /events?token=…`. Only available while auth is enabled.",
+    response: ref("EventStreamToken"),
+  },
+
+  "GET /webhooks": { summary: "List the farm's webhook subscriptions", response: arrayOf("Webhook") },
+  "POST /webhooks": {
+    summary: "Subscribe a URL to events",
+    description:
+      "Events: `animal.sold`, `animal.died`, `breeding.delivered`, `task.completed` and `expenses.imported`. A secret is generated when none is given; the response is the only one that includes it.",
+    status: 201,
+    response: ref("CreatedWebhook"),
+  },
+  "GET /webhooks/{id}": { summary: "Get a webhook subscription", response: ref("Webhook") },
+  "PUT /webhooks/{id}": {
+    summary: "Update a subscription's URL, events, secret or active flag",
+    response: ref("Webhook"),
+  },
+  "DELETE /webhooks/{id}": { summary: "Delete a subscription and its deliveries", response: message },
+  "GET /webhooks/{id}/deliveries": {
+    summary: "A subscription's deliveries, newest first",
+    response: pageOf("WebhookDelivery"),
+  },
+  "POST /webhooks/{id}/deliveries/{deliveryId}/redeliver": {
+    summary: "Send a delivery's payload again",
+    description: "Creates a new delivery of the same payload, with its own retries, and returns it after the first attempt.",
+    status: 201,
+    response: ref("WebhookDelivery"),
+  },
+
+  "GET /logs": {
+    summary: "Application log entries, newest first",
+    description: "Entries written through ErrorLogger, including every 5xx error. `search` matches the message and details.",
+    response: pageOf("LogEntry"),
+  },
+  "GET /logs/stats": {
+    summary: "Log entry counts by level, source and hour or day",
+    response: ref("LogStats"),
+  },
+
+  "GET /trash": {
+    summary: "Deleted animals, records, tasks and expenses, most recently deleted first",
+    description:
+      "Only item types the caller may read are listed. Records deleted along with their animal are not listed; they come back when the animal is restored.",
+    response: arrayOf("TrashItem"),
+  },
+  "POST /trash/{type}/{id}/restore": {
+    summary: "Restore an item from the trash",
+    description: "Requires the delete permission for the item type. Restoring an animal also restores the records deleted with it.",
+    response: { anyOf: trashedRecordSchemas },
+  },
+};
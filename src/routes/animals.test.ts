@@ -0,0 +1,146 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { TestApi, goat, setupOwner, startApi } from '../test/api';
+
+describe('animals', () => {
+  let api: TestApi;
+  let token: string;
+
+  const create = async (overrides: Record<string, unknown> = {}) =>
+    (await api.request('POST', '/animals', { token, body: goat(overrides) })).body;
+
+  const mergePatch = (id: string, body: unknown, headers: Record<string, string> = {}) =>
+    api.request('PATCH', `/animals/${id}`, {
+      token,
+      body,
+      headers: { 'Content-Type': 'application/merge-patch+json', ...headers },
+    });
+
+  beforeAll(async () => {
+    api = await startApi();
+    token = await setupOwner(api);
+  });
+
+  afterAll(() => api.close());
+
+  describe('If-Match', () => {
+    it('returns the ETag of the animal read', async () => {
+      const animal = await create();
+      const read = await api.request('GET', `/animals/${animal.id}`, { token });
+      expect(read.headers.get('ETag')).toMatch(/^".+"$/);
+    });
+
+    it('updates when the ETag matches and conflicts when it is stale', async () => {
+      const animal = await create();
+      const etag = (await api.request('GET', `/animals/${animal.id}`, { token })).headers.get('ETag')!;
+
+      const updated = await api.request('PUT', `/animals/${animal.id}`, {
+        token,
+        body: { ...animal, markings: 'Brown' },
+        headers: { 'If-Match': etag },
+      });
+      expect(updated.status).toBe(200);
+      expect(updated.headers.get('ETag')).not.toBe(etag);
+
+      const stale = await api.request('PUT', `/animals/${animal.id}`, {
+        token,
+        body: { ...animal, markings: 'White' },
+        headers: { 'If-Match': etag },
+      });
+      expect(stale.status).toBe(409);
+      expect(stale.headers.get('ETag')).toBe(updated.headers.get('ETag'));
+      expect(stale.body.details.current.markings).toBe('Brown');
+    });
+
+    it('does not match a weak ETag', async () => {
+      const animal = await create();
+      const etag = (await api.request('GET', `/animals/${animal.id}`, { token })).headers.get('ETag')!;
+
+      expect((await mergePatch(animal.id, { markings: 'Black' }, { 'If-Match': `W/${etag}` })).status).toBe(409);
+      expect((await mergePatch(animal.id, { markings: 'Black' }, { 'If-Match': `W/${etag}, ${etag}` })).status).toBe(200);
+    });
+
+    it('updates unconditionally without the header or with *', async () => {
+      const animal = await create();
+      expect((await mergePatch(animal.id, { markings: 'Black' })).status).toBe(200);
+      expect((await mergePatch(animal.id, { markings: 'Grey' }, { 'If-Match': '*' })).status).toBe(200);
+    });
+  });
+
+  describe('merge patch', () => {
+    it('changes only the fields sent and clears those sent as null', async () => {
+      const animal = await create({ notes: 'Quiet', markings: 'White blaze' });
+
+      const patched = await mergePatch(animal.id, { notes: 'Friendly', markings: null });
+      expect(patched.status).toBe(200);
+      expect(patched.body).toMatchObject({ name: 'Bella', breed: 'Boer', notes: 'Friendly' });
+      expect(patched.body.markings).toBeUndefined();
+    });
+
+    it('validates the fields sent', async () => {
+      const animal = await create();
+      const invalid = await mergePatch(animal.id, { gender: 'unknown' });
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.code).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('health records', () => {
+    it('moves a record to another animal of the farm on PUT, and only to one', async () => {
+      const bella = await create();
+      const max = await create({ name: 'Max', gender: 'male' });
+      const record = (
+        await api.request('POST', '/health-records', {
+          token,
+          body: { animalId: bella.id, recordType: 'checkup', date: '2025-01-01', description: 'Routine' },
+        })
+      ).body;
+
+      const moved = await api.request('PUT', `/health-records/${record.id}`, { token, body: { ...record, animalId: max.id } });
+      expect(moved.status).toBe(200);
+      expect(moved.body.animalId).toBe(max.id);
+
+      const unknown = await api.request('PUT', `/health-records/${record.id}`, { token, body: { ...record, animalId: '999' } });
+      expect(unknown.status).toBe(400);
+      expect(unknown.body.details).toEqual([{ field: 'animalId', message: 'Animal not found' }]);
+    });
+  });
+
+  describe('details', () => {
+    const stats = async (id: string) =>
+      (await api.request('GET', `/animals/${id}?include=stats`, { token })).body.stats;
+
+    it('adds the parts listed in include, with the ETag of the animal alone', async () => {
+      const animal = await create({ dateOfBirth: '2024-01-15' });
+      await api.request('POST', '/weight-records', { token, body: { animalId: animal.id, weight: 20, date: '2024-06-01' } });
+      await api.request('POST', '/weight-records', { token, body: { animalId: animal.id, weight: 35, date: '2025-01-01' } });
+      await api.request('POST', '/health-records', {
+        token,
+        body: { animalId: animal.id, recordType: 'treatment', date: '2024-08-01', description: 'Foot rot', cost: 25 },
+      });
+
+      const plain = await api.request('GET', `/animals/${animal.id}`, { token });
+      const detail = await api.request('GET', `/animals/${animal.id}?include=weights,stats`, { token });
+      expect(detail.headers.get('ETag')).toBe(plain.headers.get('ETag'));
+      expect(detail.body.weights.map((record: { weight: number }) => record.weight)).toEqual([20, 35]);
+      expect(detail.body.stats).toMatchObject({ lastWeight: 35, lastWeightDate: '2025-01-01', totalCareCost: 25 });
+      expect(detail.body.health).toBeUndefined();
+    });
+
+    it('counts age up to the death or sale date', async () => {
+      const dead = await create({ dateOfBirth: '2024-01-15', status: 'dead', deathDate: '2025-03-20' });
+      expect((await stats(dead.id)).ageMonths).toBe(14);
+
+      const sold = await create({ dateOfBirth: '2024-01-15' });
+      await mergePatch(sold.id, { status: 'sold', saleDate: '2024-07-14' });
+      expect((await stats(sold.id)).ageMonths).toBe(5);
+    });
+
+    it('counts age up to today for a living animal', async () => {
+      const born = new Date();
+      born.setUTCDate(1);
+      born.setUTCFullYear(born.getUTCFullYear() - 2);
+      const animal = await create({ dateOfBirth: born.toISOString().slice(0, 10) });
+      expect((await stats(animal.id)).ageMonths).toBe(24);
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { RequestHandler } from "express";
+import { Request, RequestHandler, Response } from "express";
 import {
   AnimalRecord,
   WeightRecord,
@@ -6,847 +6,914 @@ import {
   VaccinationRecord,
   HealthRecord,
   AnimalSummary,
+  AnimalDetail,
+  AnimalInclude,
 } from "@shared/animal-types";
-import supabase from './supabaseClient';
-
-// Helper functions for database operations
-const readAnimals = async (): Promise<AnimalRecord[]> => {
-  try {
-    const { data: animals, error } = await supabase
-      .from('animals')
-      .select('*')
-      .order('id', { ascending: false });
-
-    if (error) {
-      console.error("Supabase error:", error);
-      return [];
-    }
-
-    return animals?.map(animal => ({
-      id: animal.id.toString(),
-      name: animal.name,
-      type: animal.type,
-      breed: animal.breed,
-      gender: animal.gender,
-      dateOfBirth: animal.dateOfBirth,
-      photos: animal.photos || [],
-      status: animal.status,
-      currentWeight: animal.currentWeight,
-      markings: animal.markings,
-      purchaseDate: animal.purchaseDate,
-      purchasePrice: animal.purchasePrice,
-      purchaseLocation: animal.purchaseLocation,
-      previousOwner: animal.previousOwner,
-      insured: animal.insured,
-      insuranceProvider: animal.insuranceProvider,
-      insurancePolicyNumber: animal.insurancePolicyNumber,
-      insuranceAmount: animal.insuranceAmount,
-      insuranceExpiryDate: animal.insuranceExpiryDate,
-      saleDate: animal.saleDate,
-      salePrice: animal.salePrice,
-      buyerName: animal.buyerName,
-      saleNotes: animal.saleNotes,
-      notes: animal.notes,
-      createdAt: animal.createdAt,
-      updatedAt: animal.updatedAt
-    })) || [];
-  } catch (error) {
-    console.error("Error reading animals:", error);
-    return [];
-  }
-};
-
-const readWeightRecords = async (animalId?: string): Promise<WeightRecord[]> => {
-  try {
-    let query = supabase
-      .from('weight_records')
-      .select('*')
-      .order('date', { ascending: false });
-
-    if (animalId) {
-      query = query.eq('animalId', parseInt(animalId));
-    }
-
-    const { data: records, error } = await query;
-
-    if (error) {
-      console.error("Supabase error:", error);
-      return [];
-    }
+import { AnimalTransferRequest } from "@shared/farm-types";
+import {
+  ParsedAnimalListQuery,
+  ParsedAnimalDetailQuery,
+  animalCreateSchema,
+  weightRecordCreateSchema,
+  breedingRecordCreateSchema,
+  vaccinationRecordCreateSchema,
+  healthRecordCreateSchema,
+} from "@shared/animal-schemas";
+import storage, {
+  AnimalInput,
+  WeightRecordInput,
+  BreedingRecordInput,
+  VaccinationRecordInput,
+  HealthRecordInput,
+  Changes,
+  FarmStorage,
+} from '../storage';
+import config from '../config';
+import { farmStorage, userFarmIds } from '../middleware/farm';
+import logger from '../utils/errorLogger';
+import { recordAudit } from '../utils/audit';
+import { publishEvent } from '../utils/events';
+import { dispatchWebhook } from '../utils/webhooks';
+import {
+  isPaged,
+  toPageWindow,
+  toPaginatedResponse,
+} from '../utils/pagination';
+import { assertIfMatch, setETag } from '../utils/etags';
+import { toMergeChanges } from '../utils/mergePatch';
+import { readLatestWeighIns, syncCurrentWeights } from '../utils/currentWeight';
+import { AnimalRefs, assertFarmAnimals } from '../utils/animalRefs';
+import { NotFoundError, ValidationError, ForbiddenError } from '../utils/errors';
+
+const today = () => new Date().toISOString().split("T")[0];
+
+// YYYY-MM-DD date `months` months before today
+const monthsAgo = (months: number): string => {
+  const date = new Date();
+  date.setMonth(date.getMonth() - months);
+  return date.toISOString().split("T")[0];
+};
 
-    return records?.map(record => ({
-      id: record.id.toString(),
-      animalId: record.animalId.toString(),
-      weight: record.weight,
-      date: record.date,
-      notes: record.notes,
-      recordedBy: record.recordedBy,
-      createdAt: record.createdAt
-    })) || [];
-  } catch (error) {
-    console.error("Error reading weight records:", error);
-    return [];
-  }
-};
-
-const readBreedingRecords = async (animalId?: string): Promise<BreedingRecord[]> => {
-  try {
-    let query = supabase
-      .from('breeding_records')
-      .select('*')
-      .order('breedingDate', { ascending: false });
-
-    if (animalId) {
-      query = query.or(`motherId.eq.${animalId},fatherId.eq.${animalId}`);
-    }
+// Maps the list query onto storage filters; age in months becomes a dateOfBirth window
+const toAnimalFilters = (query: ParsedAnimalListQuery) => ({
+  search: query.search,
+  type: query.type,
+  gender: query.gender,
+  status: query.status,
+  breed: query.breed,
+  bornFrom: query.ageRange?.max !== undefined ? monthsAgo(query.ageRange.max) : undefined,
+  bornTo: query.ageRange?.min !== undefined ? monthsAgo(query.ageRange.min) : undefined,
+  minWeight: query.weightRange?.min,
+  maxWeight: query.weightRange?.max,
+  sortBy: query.sortBy,
+  sortOrder: query.sortOrder,
+});
 
-    const { data: records, error } = await query;
+// Animal CRUD operations
+// GET /api/animals - Filtered, sorted animals; paginated when page, pageSize or cursor is given
+export const getAnimals: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
+  const query = req.query as unknown as ParsedAnimalListQuery;
+  const filters = toAnimalFilters(query);
 
-    if (error) {
-      console.error("Supabase error:", error);
-      return [];
-    }
+  if (!isPaged(query)) {
+    const { items } = await farm.animals.query({ ...filters, offset: 0 });
+    return res.json(items);
+  }
 
-    return records?.map(record => ({
-      id: record.id.toString(),
-      motherId: record.motherId?.toString(),
-      fatherId: record.fatherId?.toString(),
-      breedingDate: record.breedingDate,
-      expectedDeliveryDate: record.expectedDeliveryDate,
-      actualDeliveryDate: record.actualDeliveryDate,
-      totalKids: record.totalKids,
-      maleKids: record.maleKids,
-      femaleKids: record.femaleKids,
-      kidDetails: record.kid_details,
-      breedingMethod: record.breedingMethod,
-      veterinarianName: record.veterinarianName,
-      notes: record.notes,
-      complications: record.complications,
-      createdAt: record.createdAt,
-      updatedAt: record.updatedAt
-    })) || [];
-  } catch (error) {
-    console.error("Error reading breeding records:", error);
-    return [];
-  }
-};
-
-const readVaccinationRecords = async (animalId?: string): Promise<VaccinationRecord[]> => {
-  try {
-    let query = supabase
-      .from('vaccination_records')
-      .select('*')
-      .order('administrationDate', { ascending: false });
-
-    if (animalId) {
-      query = query.eq('animalId', parseInt(animalId));
-    }
+  const window = toPageWindow(query);
+  const result = await farm.animals.query({ ...filters, ...window });
+  res.json(toPaginatedResponse(result, window));
+};
 
-    const { data: records, error } = await query;
+// Whole calendar months from `from` to `to` (YYYY-MM-DD)
+const monthsBetween = (from: string, to: string): number => {
+  const [fromYear, fromMonth, fromDay] = from.split("-").map(Number);
+  const [toYear, toMonth, toDay] = to.split("-").map(Number);
+  const months = (toYear - fromYear) * 12 + (toMonth - fromMonth) - (toDay < fromDay ? 1 : 0);
+  return Math.max(months, 0);
+};
 
-    if (error) {
-      console.error("Supabase error:", error);
-      return [];
+const sumCosts = (records: { cost?: number }[]): number =>
+  records.reduce((total, record) => total + (record.cost ?? 0), 0);
+
+// Adds the requested parts to an animal; each record list is read at most once
+const toAnimalDetail = async (
+  farm: FarmStorage,
+  animal: AnimalRecord,
+  include: AnimalInclude[],
+): Promise<AnimalDetail> => {
+  const wants = (...parts: AnimalInclude[]) => parts.some(part => include.includes(part));
+
+  // Repository lists are latest first
+  const weights = wants("weights", "stats") ? await farm.weightRecords.list(animal.id) : [];
+  const breeding = wants("breeding", "offspring") ? await farm.breedingRecords.list(animal.id) : [];
+  const vaccinations = wants("vaccinations", "stats") ? await farm.vaccinationRecords.list(animal.id) : [];
+  const health = wants("health", "stats") ? await farm.healthRecords.list(animal.id) : [];
+
+  const detail: AnimalDetail = { ...animal };
+  if (wants("weights")) detail.weights = [...weights].reverse();
+  if (wants("breeding")) detail.breeding = breeding;
+  if (wants("vaccinations")) detail.vaccinations = vaccinations;
+  if (wants("health")) detail.health = health;
+
+  if (wants("offspring")) {
+    const kidIds = new Set(
+      breeding.flatMap(record => record.kidDetails ?? []).flatMap(kid => (kid.animalId ? [kid.animalId] : [])),
+    );
+    detail.offspring = [];
+    for (const kidId of kidIds) {
+      const kid = await farm.animals.findById(kidId);
+      if (kid) detail.offspring.push(kid);
     }
+  }
 
-    return records?.map(record => ({
-      id: record.id.toString(),
-      animalId: record.animalId.toString(),
-      vaccineName: record.vaccineName,
-      vaccineType: record.vaccineType,
-      administrationDate: record.administrationDate,
-      nextDueDate: record.nextDueDate,
-      batchNumber: record.batchNumber,
-      veterinarianName: record.veterinarianName,
-      dosage: record.dosage,
-      administrationMethod: record.administrationMethod,
-      cost: record.cost,
-      notes: record.notes,
-      createdAt: record.createdAt
-    })) || [];
-  } catch (error) {
-    console.error("Error reading vaccination records:", error);
-    return [];
-  }
-};
-
-const readHealthRecords = async (animalId?: string): Promise<HealthRecord[]> => {
-  try {
-    let query = supabase
-      .from('health_records')
-      .select('*')
-      .order('date', { ascending: false });
-
-    if (animalId) {
-      query = query.eq('animalId', parseInt(animalId));
-    }
+  if (wants("stats")) {
+    const endDate = animal.deathDate ?? animal.saleDate ?? today();
+    detail.stats = {
+      ageMonths: animal.dateOfBirth ? monthsBetween(animal.dateOfBirth.slice(0, 10), endDate.slice(0, 10)) : undefined,
+      lastWeightDate: weights[0]?.date,
+      lastWeight: weights[0]?.weight,
+      totalCareCost: sumCosts(vaccinations) + sumCosts(health),
+    };
+  }
 
-    const { data: records, error } = await query;
+  return detail;
+};
 
-    if (error) {
-      console.error("Supabase error:", error);
-      return [];
-    }
+// GET /api/animals/:id - One animal, with its ETag for If-Match; `include` embeds records, offspring and stats
+export const getAnimal: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
+  const { include = [] } = req.query as unknown as ParsedAnimalDetailQuery;
 
-    return records?.map(record => ({
-      id: record.id.toString(),
-      animalId: record.animalId.toString(),
-      recordType: record.recordType,
-      date: record.date,
-      description: record.description,
-      veterinarianName: record.veterinarianName,
-      diagnosis: record.diagnosis,
-      treatment: record.treatment,
-      medications: record.medications,
-      cost: record.cost,
-      nextCheckupDate: record.nextCheckupDate,
-      notes: record.notes,
-      createdAt: record.createdAt
-    })) || [];
-  } catch (error) {
-    console.error("Error reading health records:", error);
-    return [];
+  const animal = await farm.animals.findById(req.params.id);
+  if (!animal) {
+    throw new NotFoundError("Animal not found");
   }
-};
 
-// Animal CRUD operations
-export const getAnimals: RequestHandler = async (req, res) => {
-  try {
-    const animals = await readAnimals();
-    res.json(animals);
-  } catch (error) {
-    console.error("Error getting animals:", error);
-    res.status(500).json({ error: "Failed to fetch animals" });
-  }
+  // The ETag covers the animal alone, so it still matches If-Match on updates
+  setETag(res, animal);
+  res.json(include.length > 0 ? await toAnimalDetail(farm, animal, include) : animal);
 };
 
 export const addAnimal: RequestHandler = async (req, res) => {
-  try {
-    const newAnimal: AnimalRecord = req.body;
-
-    // Prepare animal data for Supabase
-    const animalData = {
-      name: newAnimal.name,
-      type: newAnimal.type,
-      breed: newAnimal.breed,
-      gender: newAnimal.gender,
-      dateOfBirth: newAnimal.dateOfBirth,
-      photos: newAnimal.photos || [],
-      status: newAnimal.status || 'active',
-      currentWeight: newAnimal.currentWeight,
-      markings: newAnimal.markings,
-      purchaseDate: newAnimal.purchaseDate,
-      purchasePrice: newAnimal.purchasePrice,
-      purchaseLocation: newAnimal.purchaseLocation,
-      previousOwner: newAnimal.previousOwner,
-      insured: newAnimal.insured || false,
-      insuranceProvider: newAnimal.insuranceProvider,
-      insurancePolicyNumber: newAnimal.insurancePolicyNumber,
-      insuranceAmount: newAnimal.insuranceAmount,
-      insuranceExpiryDate: newAnimal.insuranceExpiryDate,
-      notes: newAnimal.notes
-    };
-
-    const { data, error } = await supabase
-      .from('animals')
-      .insert([animalData])
-      .select()
-      .single();
+  const farm = farmStorage(req);
+  const newAnimal: AnimalRecord = req.body;
+
+  const animalData: AnimalInput = {
+    name: newAnimal.name,
+    type: newAnimal.type,
+    breed: newAnimal.breed,
+    gender: newAnimal.gender,
+    dateOfBirth: newAnimal.dateOfBirth,
+    photos: newAnimal.photos || [],
+    status: newAnimal.status || 'active',
+    currentWeight: newAnimal.currentWeight,
+    markings: newAnimal.markings,
+    purchaseDate: newAnimal.purchaseDate,
+    purchasePrice: newAnimal.purchasePrice,
+    purchaseLocation: newAnimal.purchaseLocation,
+    previousOwner: newAnimal.previousOwner,
+    insured: newAnimal.insured || false,
+    insuranceProvider: newAnimal.insuranceProvider,
+    insurancePolicyNumber: newAnimal.insurancePolicyNumber,
+    insuranceAmount: newAnimal.insuranceAmount,
+    insuranceExpiryDate: newAnimal.insuranceExpiryDate,
+    saleDate: newAnimal.saleDate,
+    salePrice: newAnimal.salePrice,
+    buyerName: newAnimal.buyerName,
+    saleNotes: newAnimal.saleNotes,
+    deathDate: newAnimal.deathDate,
+    deathCause: newAnimal.deathCause,
+    notes: newAnimal.notes
+  };
+
+  const animal = await farm.animals.create(animalData);
+  await recordAudit(farm, "animal", "create", { after: animal });
+  publishEvent(farm, "animal.created", { animal });
+  res.status(201).json(animal);
+};
 
-    if (error) {
-      console.error("Supabase insert error:", error);
-      throw error;
+/**
+ * Applies the changes `changesFor` derives from the stored animal, after
+ * checking If-Match against it, then audits, notifies and responds with the
+ * updated animal. Shared by PUT and PATCH.
+ */
+const changeAnimal = async (
+  req: Request,
+  res: Response,
+  changesFor: (before: AnimalRecord) => Changes<AnimalInput>,
+) => {
+  const farm = farmStorage(req);
+
+  const before = await farm.animals.findById(req.params.id);
+  if (!before) {
+    throw new NotFoundError("Animal not found");
+  }
+  assertIfMatch(req, res, before);
+
+  const changes = changesFor(before);
+  // Marking an animal sold or dead dates it today unless a date is given or already stored
+  const status = changes.status ?? before.status;
+  if (status !== before.status && (status === "sold" || status === "dead")) {
+    const dateField = status === "sold" ? "saleDate" : "deathDate";
+    if (!(changes[dateField] === undefined ? before[dateField] : changes[dateField])) {
+      changes[dateField] = today();
     }
+  }
 
-    // Transform back to expected format
-    const returnAnimal = {
-      id: data.id.toString(),
-      name: data.name,
-      type: data.type,
-      breed: data.breed,
-      gender: data.gender,
-      dateOfBirth: data.dateOfBirth,
-      photos: data.photos || [],
-      status: data.status,
-      currentWeight: data.currentWeight,
-      markings: data.markings,
-      purchaseDate: data.purchaseDate,
-      purchasePrice: data.purchasePrice,
-      purchaseLocation: data.purchaseLocation,
-      previousOwner: data.previousOwner,
-      insured: data.insured,
-      insuranceProvider: data.insuranceProvider,
-      insurancePolicyNumber: data.insurancePolicyNumber,
-      insuranceAmount: data.insuranceAmount,
-      insuranceExpiryDate: data.insuranceExpiryDate,
-      notes: data.notes,
-      createdAt: data.createdAt,
-      updatedAt: data.updatedAt
-    };
+  const animal = await farm.animals.update(before.id, changes);
+  if (!animal) {
+    throw new NotFoundError("Animal not found");
+  }
 
-    res.status(201).json(returnAnimal);
-  } catch (error) {
-    console.error("Error adding animal:", error);
-    res.status(500).json({ error: "Failed to add animal" });
+  await recordAudit(farm, "animal", "update", { before, after: animal });
+  publishEvent(farm, "animal.updated", { animal });
+  if (animal.status !== before.status && (animal.status === "sold" || animal.status === "dead")) {
+    await dispatchWebhook(farm, animal.status === "sold" ? "animal.sold" : "animal.died", {
+      animal,
+      previousStatus: before.status,
+    });
   }
+  setETag(res, animal);
+  res.json(animal);
 };
 
+// PUT /api/animals/:id - Replace an animal's fields
 export const updateAnimal: RequestHandler = async (req, res) => {
-  try {
-    const { id } = req.params;
-    const updatedAnimal: AnimalRecord = req.body;
-
-    // Prepare update data
-    const updateData = {
-      name: updatedAnimal.name,
-      type: updatedAnimal.type,
-      breed: updatedAnimal.breed,
-      gender: updatedAnimal.gender,
-      dateOfBirth: updatedAnimal.dateOfBirth,
-      photos: updatedAnimal.photos || [],
-      status: updatedAnimal.status,
-      currentWeight: updatedAnimal.currentWeight,
-      markings: updatedAnimal.markings,
-      purchaseDate: updatedAnimal.purchaseDate,
-      purchasePrice: updatedAnimal.purchasePrice,
-      purchaseLocation: updatedAnimal.purchaseLocation,
-      previousOwner: updatedAnimal.previousOwner,
-      insured: updatedAnimal.insured,
-      insuranceProvider: updatedAnimal.insuranceProvider,
-      insurancePolicyNumber: updatedAnimal.insurancePolicyNumber,
-      insuranceAmount: updatedAnimal.insuranceAmount,
-      insuranceExpiryDate: updatedAnimal.insuranceExpiryDate,
-      saleDate: updatedAnimal.saleDate,
-      salePrice: updatedAnimal.salePrice,
-      buyerName: updatedAnimal.buyerName,
-      saleNotes: updatedAnimal.saleNotes,
-      notes: updatedAnimal.notes
-    };
+  const updatedAnimal: AnimalRecord = req.body;
+
+  // Prepare update data
+  const updateData: Partial<AnimalInput> = {
+    name: updatedAnimal.name,
+    type: updatedAnimal.type,
+    breed: updatedAnimal.breed,
+    gender: updatedAnimal.gender,
+    dateOfBirth: updatedAnimal.dateOfBirth,
+    photos: updatedAnimal.photos || [],
+    status: updatedAnimal.status,
+    currentWeight: updatedAnimal.currentWeight,
+    markings: updatedAnimal.markings,
+    purchaseDate: updatedAnimal.purchaseDate,
+    purchasePrice: updatedAnimal.purchasePrice,
+    purchaseLocation: updatedAnimal.purchaseLocation,
+    previousOwner: updatedAnimal.previousOwner,
+    insured: updatedAnimal.insured,
+    insuranceProvider: updatedAnimal.insuranceProvider,
+    insurancePolicyNumber: updatedAnimal.insurancePolicyNumber,
+    insuranceAmount: updatedAnimal.insuranceAmount,
+    insuranceExpiryDate: updatedAnimal.insuranceExpiryDate,
+    saleDate: updatedAnimal.saleDate,
+    salePrice: updatedAnimal.salePrice,
+    buyerName: updatedAnimal.buyerName,
+    saleNotes: updatedAnimal.saleNotes,
+    deathDate: updatedAnimal.deathDate,
+    deathCause: updatedAnimal.deathCause,
+    notes: updatedAnimal.notes
+  };
+
+  await changeAnimal(req, res, () => updateData);
+};
 
-    const { data, error } = await supabase
-      .from('animals')
-      .update(updateData)
-      .eq('id', parseInt(id))
-      .select()
-      .single();
-
-    if (error) {
-      if (error.code === 'PGRST116') {
-        return res.status(404).json({ error: "Animal not found" });
-      }
-      console.error("Supabase update error:", error);
-      throw error;
-    }
+// PATCH /api/animals/:id - Change only the fields sent (JSON Merge Patch); null clears a field
+export const patchAnimal: RequestHandler = (req, res) =>
+  changeAnimal(req, res, before => toMergeChanges(before, req.body, animalCreateSchema));
 
-    // Transform back to expected format
-    const returnAnimal = {
-      id: data.id.toString(),
-      name: data.name,
-      type: data.type,
-      breed: data.breed,
-      gender: data.gender,
-      dateOfBirth: data.dateOfBirth,
-      photos: data.photos || [],
-      status: data.status,
-      currentWeight: data.currentWeight,
-      markings: data.markings,
-      purchaseDate: data.purchaseDate,
-      purchasePrice: data.purchasePrice,
-      purchaseLocation: data.purchaseLocation,
-      previousOwner: data.previousOwner,
-      insured: data.insured,
-      insuranceProvider: data.insuranceProvider,
-      insurancePolicyNumber: data.insurancePolicyNumber,
-      insuranceAmount: data.insuranceAmount,
-      insuranceExpiryDate: data.insuranceExpiryDate,
-      saleDate: data.saleDate,
-      salePrice: data.salePrice,
-      buyerName: data.buyerName,
-      saleNotes: data.saleNotes,
-      notes: data.notes,
-      createdAt: data.createdAt,
-      updatedAt: data.updatedAt
-    };
+export const deleteAnimal: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
+  const { id } = req.params;
 
-    res.json(returnAnimal);
-  } catch (error) {
-    console.error("Error updating animal:", error);
-    res.status(500).json({ error: "Failed to update animal" });
+  const animal = await farm.animals.delete(id);
+  if (!animal) {
+    throw new NotFoundError("Animal not found");
   }
-};
 
-export const deleteAnimal: RequestHandler = async (req, res) => {
-  try {
-    const { id } = req.params;
+  await recordAudit(farm, "animal", "delete", { before: animal });
+  publishEvent(farm, "animal.deleted", { animalId: animal.id });
+  res.json({ message: "Animal deleted successfully" });
+};
 
-    const { error } = await supabase
-      .from('animals')
-      .delete()
-      .eq('id', parseInt(id));
+// POST /api/animals/:id/transfer - Move an animal and its history to another farm
+export const transferAnimal: RequestHandler = async (req, res) => {
+  const { id } = req.params;
+  const { farmId }: AnimalTransferRequest = req.body;
 
-    if (error) {
-      console.error("Supabase delete error:", error);
-      throw error;
-    }
+  if (farmId === req.farmId) {
+    throw new ValidationError("Animal is already on this farm");
+  }
+  if (!(await storage.farms.findById(farmId))) {
+    throw new NotFoundError("Farm not found");
+  }
+  if (config.features.auth && !(await userFarmIds(req)).includes(farmId)) {
+    throw new ForbiddenError("No access to this farm", { farmId });
+  }
 
-    res.json({ message: "Animal deleted successfully" });
-  } catch (error) {
-    console.error("Error deleting animal:", error);
-    res.status(500).json({ error: "Failed to delete animal" });
+  const animal = await storage.transferAnimal(id, req.farmId!, farmId);
+  if (!animal) {
+    throw new NotFoundError("Animal not found");
   }
+
+  // Both farms keep a record of the move
+  const move = { before: { ...animal, farmId: req.farmId }, after: { ...animal, farmId } };
+  await recordAudit(storage.forFarm(req.farmId!), "animal", "transfer", move);
+  await recordAudit(storage.forFarm(farmId), "animal", "transfer", move);
+  publishEvent(storage.forFarm(req.farmId!), "animal.deleted", { animalId: animal.id });
+  publishEvent(storage.forFarm(farmId), "animal.created", { animal });
+
+  await logger.info(`Animal ${id} transferred from farm ${req.farmId} to ${farmId}`, "animals.transferAnimal", undefined, req);
+  res.json({ message: "Animal transferred successfully", animal, farmId });
 };
 
 // Weight record operations
 export const getWeightRecords: RequestHandler = async (req, res) => {
-  try {
-    const { animalId } = req.query;
-    const records = await readWeightRecords(animalId as string);
-    res.json(records);
-  } catch (error) {
-    console.error("Error getting weight records:", error);
-    res.status(500).json({ error: "Failed to fetch weight records" });
-  }
+  const farm = farmStorage(req);
+  const { animalId } = req.query;
+  const records = await farm.weightRecords.list(animalId as string);
+  res.json(records);
 };
 
 export const addWeightRecord: RequestHandler = async (req, res) => {
-  try {
-    const newRecord: WeightRecord = req.body;
-
-    const recordData = {
-      animalId: parseInt(newRecord.animalId),
-      weight: newRecord.weight,
-      date: newRecord.date,
-      notes: newRecord.notes,
-      recordedBy: newRecord.recordedBy
-    };
+  const farm = farmStorage(req);
+  const newRecord: WeightRecord = req.body;
+
+  const recordData = {
+    animalId: newRecord.animalId,
+    weight: newRecord.weight,
+    date: newRecord.date,
+    notes: newRecord.notes,
+    recordedBy: newRecord.recordedBy
+  };
+
+  await assertFarmAnimals(farm, { animalId: recordData.animalId });
+  const record = await farm.weightRecords.create(recordData);
+  await recordAudit(farm, "weightRecord", "create", { after: record });
+  publishEvent(farm, "weight.recorded", { record });
+  res.status(201).json(record);
+};
 
-    const { data, error } = await supabase
-      .from('weight_records')
-      .insert([recordData])
-      .select()
-      .single();
+// GET /api/weight-records/:id - One weight record, with its ETag for If-Match
+export const getWeightRecord: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
 
-    if (error) {
-      console.error("Supabase insert error:", error);
-      throw error;
-    }
+  const record = await farm.weightRecords.findById(req.params.id);
+  if (!record) {
+    throw new NotFoundError("Record not found");
+  }
 
-    const returnRecord = {
-      id: data.id.toString(),
-      animalId: data.animalId.toString(),
-      weight: data.weight,
-      date: data.date,
-      notes: data.notes,
-      recordedBy: data.recordedBy,
-      createdAt: data.createdAt
-    };
+  setETag(res, record);
+  res.json(record);
+};
 
-    res.status(201).json(returnRecord);
-  } catch (error) {
-    console.error("Error adding weight record:", error);
-    res.status(500).json({ error: "Failed to add weight record" });
+// Shared by PUT and PATCH, like changeAnimal; keeps the animal's currentWeight on its latest weigh-in
+const changeWeightRecord = async (
+  req: Request,
+  res: Response,
+  changesFor: (before: WeightRecord) => Changes<WeightRecordInput>,
+) => {
+  const farm = farmStorage(req);
+
+  const before = await farm.weightRecords.findById(req.params.id);
+  if (!before) {
+    throw new NotFoundError("Record not found");
+  }
+  assertIfMatch(req, res, before);
+
+  const changes = changesFor(before);
+  await assertFarmAnimals(farm, { animalId: changes.animalId });
+  const latest = await readLatestWeighIns(farm, [before.animalId, changes.animalId ?? before.animalId]);
+  const record = await farm.weightRecords.update(before.id, changes);
+  if (!record) {
+    throw new NotFoundError("Record not found");
   }
+
+  await recordAudit(farm, "weightRecord", "update", { before, after: record });
+  await syncCurrentWeights(farm, latest);
+  setETag(res, record);
+  res.json(record);
 };
 
-export const updateBreedingRecord: RequestHandler = async (req, res) => {
-  try {
-    const { id } = req.params;
-    const updatedRecord: BreedingRecord = req.body;
-
-    // Prepare update data
-    const updateData = {
-      motherId: parseInt(updatedRecord.motherId),
-      fatherId: updatedRecord.fatherId ? parseInt(updatedRecord.fatherId) : null,
-      breedingDate: updatedRecord.breedingDate,
-      expectedDeliveryDate: updatedRecord.expectedDeliveryDate,
-      actualDeliveryDate: updatedRecord.actualDeliveryDate,
-      totalKids: updatedRecord.totalKids,
-      maleKids: updatedRecord.maleKids,
-      femaleKids: updatedRecord.femaleKids,
-      kid_details: updatedRecord.kidDetails,
-      breedingMethod: updatedRecord.breedingMethod,
-      veterinarianName: updatedRecord.veterinarianName,
-      notes: updatedRecord.notes,
-      complications: updatedRecord.complications 
-    };
+// PUT /api/weight-records/:id - Replace a weight record's fields
+export const updateWeightRecord: RequestHandler = async (req, res) => {
+  const updatedRecord: WeightRecord = req.body;
 
-    const { data, error } = await supabase
-      .from('breeding_records')
-      .update(updateData)
-      .eq('id', parseInt(id))
-      .select()
-      .single();
-
-    if (error) {
-      if (error.code === 'PGRST116') {
-        return res.status(404).json({ error: "Record not found" });
-      }
-      console.error("Supabase update error:", error);
-      throw error;
-    }
+  const updateData: Partial<WeightRecordInput> = {
+    animalId: updatedRecord.animalId,
+    weight: updatedRecord.weight,
+    date: updatedRecord.date,
+    notes: updatedRecord.notes,
+    recordedBy: updatedRecord.recordedBy
+  };
 
-    // Transform back to expected format
-     const returnRecord = {
-      id: data.id.toString(),
-      motherId: data.motherId?.toString(),
-      fatherId: data.fatherId?.toString(),
-      breedingDate: data.breedingDate,
-      expectedDeliveryDate: data.expectedDeliveryDate,
-      actualDeliveryDate: data.actualDeliveryDate,
-      totalKids: data.totalKids,
-      maleKids: data.maleKids,
-      femaleKids: data.femaleKids,
-      kidDetails: data.kid_details,
-      breedingMethod: data.breedingMethod,
-      veterinarianName: data.veterinarianName,
-      notes: data.notes,
-      createdAt: data.createdAt,
-      updatedAt: data.updatedAt,
-      complications: data.complications 
-    };
+  await changeWeightRecord(req, res, () => updateData);
+};
+
+// PATCH /api/weight-records/:id - Change only the fields sent (JSON Merge Patch)
+export const patchWeightRecord: RequestHandler = (req, res) =>
+  changeWeightRecord(req, res, before => toMergeChanges(before, req.body, weightRecordCreateSchema));
+
+// DELETE /api/weight-records/:id - Move a weight record to the trash
+export const deleteWeightRecord: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
 
-    res.json(returnRecord);
-  } catch (error) {
-    console.error("Error updating breeding record:", error);
-    res.status(500).json({ error: "Failed to update breeding record" });
+  const existing = await farm.weightRecords.findById(req.params.id);
+  const latest = await readLatestWeighIns(farm, existing ? [existing.animalId] : []);
+  const record = existing && await farm.weightRecords.delete(existing.id);
+  if (!record) {
+    throw new NotFoundError("Record not found");
   }
+
+  await recordAudit(farm, "weightRecord", "delete", { before: record });
+  await syncCurrentWeights(farm, latest);
+  res.json({ message: "Record deleted successfully" });
 };
 
-export const addBreedingRecord: RequestHandler = async (req, res) => {
-  try {
-    const newRecord: BreedingRecord = req.body;
-
-    const recordData = {
-      motherId: parseInt(newRecord.motherId),
-      fatherId: newRecord.fatherId ? parseInt(newRecord.fatherId) : null,
-      breedingDate: newRecord.breedingDate,
-      expectedDeliveryDate: newRecord.expectedDeliveryDate,
-      actualDeliveryDate: newRecord.actualDeliveryDate,
-      totalKids: newRecord.totalKids,
-      maleKids: newRecord.maleKids,
-      femaleKids: newRecord.femaleKids,
-      kid_details: newRecord.kidDetails,
-      breedingMethod: newRecord.breedingMethod,
-      veterinarianName: newRecord.veterinarianName,
-      notes: newRecord.notes,
-      complications: newRecord.complications || null // Optional field
-    };
+// POST /api/weight-records/bulk-delete - Move several weight records to the trash
+export const bulkDeleteWeightRecords: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
+  const { ids }: { ids: string[] } = req.body;
+
+  const existing = (await farm.weightRecords.list()).filter(record => ids.includes(record.id));
+  const latest = await readLatestWeighIns(farm, existing.map(record => record.animalId));
+  const deleted = await farm.weightRecords.deleteMany(ids);
+  await recordAudit(farm, "weightRecord", "delete", ...deleted.map(before => ({ before })));
+  await syncCurrentWeights(farm, latest);
+
+  res.json({
+    message: "Records deleted successfully",
+    deletedCount: deleted.length,
+  });
+};
 
-    const { data, error } = await supabase
-      .from('breeding_records')
-      .insert([recordData])
-      .select()
-      .single();
+// The parents and the kids added as animals
+const breedingAnimalRefs = (record: Changes<BreedingRecordInput>): AnimalRefs => ({
+  motherId: record.motherId,
+  fatherId: record.fatherId,
+  ...Object.fromEntries((record.kidDetails ?? []).map((kid, index) => [`kidDetails.${index}.animalId`, kid.animalId])),
+});
+
+// Shared by PUT and PATCH, like changeAnimal
+const changeBreedingRecord = async (
+  req: Request,
+  res: Response,
+  changesFor: (before: BreedingRecord) => Changes<BreedingRecordInput>,
+) => {
+  const farm = farmStorage(req);
+
+  const before = await farm.breedingRecords.findById(req.params.id);
+  if (!before) {
+    throw new NotFoundError("Record not found");
+  }
+  assertIfMatch(req, res, before);
 
-    if (error) {
-      console.error("Supabase insert error:", error);
-      throw error;
-    }
+  const changes = changesFor(before);
+  await assertFarmAnimals(farm, breedingAnimalRefs(changes));
+  const record = await farm.breedingRecords.update(before.id, changes);
+  if (!record) {
+    throw new NotFoundError("Record not found");
+  }
 
-    const returnRecord = {
-      id: data.id.toString(),
-      motherId: data.motherId?.toString(),
-      fatherId: data.fatherId?.toString(),
-      breedingDate: data.breedingDate,
-      expectedDeliveryDate: data.expectedDeliveryDate,
-      actualDeliveryDate: data.actualDeliveryDate,
-      totalKids: data.totalKids,
-      maleKids: data.maleKids,
-      femaleKids: data.femaleKids,
-      kidDetails: data.kid_details,
-      breedingMethod: data.breedingMethod,
-      veterinarianName: data.veterinarianName,
-      notes: data.notes,
-      createdAt: data.createdAt,
-      updatedAt: data.updatedAt,
-      complications: data.complications 
-    };
+  await recordAudit(farm, "breedingRecord", "update", { before, after: record });
+  if (record.actualDeliveryDate && !before.actualDeliveryDate) {
+    await dispatchWebhook(farm, "breeding.delivered", { record });
+  }
+  setETag(res, record);
+  res.json(record);
+};
 
-    res.status(201).json(returnRecord);
-  } catch (error) {
-    console.error("Error adding breeding record:", error);
-    res.status(500).json({ error: "Failed to add breeding record" });
+// PUT /api/breeding-records/:id - Replace a breeding record's fields
+export const updateBreedingRecord: RequestHandler = async (req, res) => {
+  const updatedRecord: BreedingRecord = req.body;
+
+  // Prepare update data
+  const updateData: Partial<BreedingRecordInput> = {
+    motherId: updatedRecord.motherId,
+    fatherId: updatedRecord.fatherId,
+    breedingDate: updatedRecord.breedingDate,
+    expectedDeliveryDate: updatedRecord.expectedDeliveryDate,
+    actualDeliveryDate: updatedRecord.actualDeliveryDate,
+    totalKids: updatedRecord.totalKids,
+    maleKids: updatedRecord.maleKids,
+    femaleKids: updatedRecord.femaleKids,
+    kidDetails: updatedRecord.kidDetails,
+    breedingMethod: updatedRecord.breedingMethod,
+    veterinarianName: updatedRecord.veterinarianName,
+    notes: updatedRecord.notes,
+    complications: updatedRecord.complications 
+  };
+
+  await changeBreedingRecord(req, res, () => updateData);
+};
+
+// PATCH /api/breeding-records/:id - Change only the fields sent (JSON Merge Patch)
+export const patchBreedingRecord: RequestHandler = (req, res) =>
+  changeBreedingRecord(req, res, before => toMergeChanges(before, req.body, breedingRecordCreateSchema));
+
+// DELETE /api/breeding-records/:id - Move a breeding record to the trash
+export const deleteBreedingRecord: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
+
+  const record = await farm.breedingRecords.delete(req.params.id);
+  if (!record) {
+    throw new NotFoundError("Record not found");
   }
+
+  await recordAudit(farm, "breedingRecord", "delete", { before: record });
+  res.json({ message: "Record deleted successfully" });
+};
+
+// POST /api/breeding-records/bulk-delete - Move several breeding records to the trash
+export const bulkDeleteBreedingRecords: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
+  const { ids }: { ids: string[] } = req.body;
+
+  const deleted = await farm.breedingRecords.deleteMany(ids);
+  await recordAudit(farm, "breedingRecord", "delete", ...deleted.map(before => ({ before })));
+
+  res.json({
+    message: "Records deleted successfully",
+    deletedCount: deleted.length,
+  });
+};
+
+export const addBreedingRecord: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
+  const newRecord: BreedingRecord = req.body;
+
+  const recordData: BreedingRecordInput = {
+    motherId: newRecord.motherId,
+    fatherId: newRecord.fatherId,
+    breedingDate: newRecord.breedingDate,
+    expectedDeliveryDate: newRecord.expectedDeliveryDate,
+    actualDeliveryDate: newRecord.actualDeliveryDate,
+    totalKids: newRecord.totalKids,
+    maleKids: newRecord.maleKids,
+    femaleKids: newRecord.femaleKids,
+    kidDetails: newRecord.kidDetails,
+    breedingMethod: newRecord.breedingMethod,
+    veterinarianName: newRecord.veterinarianName,
+    notes: newRecord.notes,
+    complications: newRecord.complications // Optional field
+  };
+
+  await assertFarmAnimals(farm, breedingAnimalRefs(recordData));
+  const record = await farm.breedingRecords.create(recordData);
+  await recordAudit(farm, "breedingRecord", "create", { after: record });
+  if (record.actualDeliveryDate) {
+    await dispatchWebhook(farm, "breeding.delivered", { record });
+  }
+  res.status(201).json(record);
 };
 
 // Breeding record operations
 export const getBreedingRecords: RequestHandler = async (req, res) => {
-  try {
-    const { animalId } = req.query;
-    const records = await readBreedingRecords(animalId as string);
-    res.json(records);
-  } catch (error) {
-    console.error("Error getting breeding records:", error);
-    res.status(500).json({ error: "Failed to fetch breeding records" });
+  const farm = farmStorage(req);
+  const { animalId } = req.query;
+  const records = await farm.breedingRecords.list(animalId as string);
+  res.json(records);
+};
+
+// GET /api/breeding-records/:id - One breeding record, with its ETag for If-Match
+export const getBreedingRecord: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
+
+  const record = await farm.breedingRecords.findById(req.params.id);
+  if (!record) {
+    throw new NotFoundError("Record not found");
   }
+
+  setETag(res, record);
+  res.json(record);
 };
+
 // Vaccination record operations
 export const getVaccinationRecords: RequestHandler = async (req, res) => {
-  try {
-    const { animalId } = req.query;
-    const records = await readVaccinationRecords(animalId as string);
-    res.json(records);
-  } catch (error) {
-    console.error("Error getting vaccination records:", error);
-    res.status(500).json({ error: "Failed to fetch vaccination records" });
-  }
+  const farm = farmStorage(req);
+  const { animalId } = req.query;
+  const records = await farm.vaccinationRecords.list(animalId as string);
+  res.json(records);
 };
 
 export const addVaccinationRecord: RequestHandler = async (req, res) => {
-  try {
-    const newRecord: VaccinationRecord = req.body;
-
-    const recordData = {
-      animalId: parseInt(newRecord.animalId),
-      vaccineName: newRecord.vaccineName,
-      vaccineType: newRecord.vaccineType,
-      administrationDate: newRecord.administrationDate,
-      nextDueDate: newRecord.nextDueDate,
-      batchNumber: newRecord.batchNumber,
-      veterinarianName: newRecord.veterinarianName,
-      dosage: newRecord.dosage,
-      administrationMethod: newRecord.administrationMethod,
-      cost: newRecord.cost,
-      notes: newRecord.notes
-    };
+  const farm = farmStorage(req);
+  const newRecord: VaccinationRecord = req.body;
+
+  const recordData = {
+    animalId: newRecord.animalId,
+    vaccineName: newRecord.vaccineName,
+    vaccineType: newRecord.vaccineType,
+    administrationDate: newRecord.administrationDate,
+    nextDueDate: newRecord.nextDueDate,
+    batchNumber: newRecord.batchNumber,
+    veterinarianName: newRecord.veterinarianName,
+    dosage: newRecord.dosage,
+    administrationMethod: newRecord.administrationMethod,
+    sideEffects: newRecord.sideEffects,
+    cost: newRecord.cost,
+    notes: newRecord.notes
+  };
+
+  await assertFarmAnimals(farm, { animalId: recordData.animalId });
+  const record = await farm.vaccinationRecords.create(recordData);
+  await recordAudit(farm, "vaccinationRecord", "create", { after: record });
+  res.status(201).json(record);
+};
 
-    const { data, error } = await supabase
-      .from('vaccination_records')
-      .insert([recordData])
-      .select()
-      .single();
+// GET /api/vaccination-records/:id - One vaccination record, with its ETag for If-Match
+export const getVaccinationRecord: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
 
-    if (error) {
-      console.error("Supabase insert error:", error);
-      throw error;
-    }
+  const record = await farm.vaccinationRecords.findById(req.params.id);
+  if (!record) {
+    throw new NotFoundError("Record not found");
+  }
 
-    const returnRecord = {
-      id: data.id.toString(),
-      animalId: data.animalId.toString(),
-      vaccineName: data.vaccineName,
-      vaccineType: data.vaccineType,
-      administrationDate: data.administrationDate,
-      nextDueDate: data.nextDueDate,
-      batchNumber: data.batchNumber,
-      veterinarianName: data.veterinarianName,
-      dosage: data.dosage,
-      administrationMethod: data.administrationMethod,
-      cost: data.cost,
-      notes: data.notes,
-      createdAt: data.createdAt
-    };
+  setETag(res, record);
+  res.json(record);
+};
+
+// Shared by PUT and PATCH, like changeAnimal
+const changeVaccinationRecord = async (
+  req: Request,
+  res: Response,
+  changesFor: (before: VaccinationRecord) => Changes<VaccinationRecordInput>,
+) => {
+  const farm = farmStorage(req);
+
+  const before = await farm.vaccinationRecords.findById(req.params.id);
+  if (!before) {
+    throw new NotFoundError("Record not found");
+  }
+  assertIfMatch(req, res, before);
 
-    res.status(201).json(returnRecord);
-  } catch (error) {
-    console.error("Error adding vaccination record:", error);
-    res.status(500).json({ error: "Failed to add vaccination record" });
+  const changes = changesFor(before);
+  await assertFarmAnimals(farm, { animalId: changes.animalId });
+  const record = await farm.vaccinationRecords.update(before.id, changes);
+  if (!record) {
+    throw new NotFoundError("Record not found");
   }
+
+  await recordAudit(farm, "vaccinationRecord", "update", { before, after: record });
+  setETag(res, record);
+  res.json(record);
+};
+
+// PUT /api/vaccination-records/:id - Replace a vaccination record's fields
+export const updateVaccinationRecord: RequestHandler = async (req, res) => {
+  const updatedRecord: VaccinationRecord = req.body;
+
+  const updateData: Partial<VaccinationRecordInput> = {
+    animalId: updatedRecord.animalId,
+    vaccineName: updatedRecord.vaccineName,
+    vaccineType: updatedRecord.vaccineType,
+    administrationDate: updatedRecord.administrationDate,
+    nextDueDate: updatedRecord.nextDueDate,
+    batchNumber: updatedRecord.batchNumber,
+    veterinarianName: updatedRecord.veterinarianName,
+    dosage: updatedRecord.dosage,
+    administrationMethod: updatedRecord.administrationMethod,
+    sideEffects: updatedRecord.sideEffects,
+    cost: updatedRecord.cost,
+    notes: updatedRecord.notes
+  };
+
+  await changeVaccinationRecord(req, res, () => updateData);
+};
+
+// PATCH /api/vaccination-records/:id - Change only the fields sent (JSON Merge Patch)
+export const patchVaccinationRecord: RequestHandler = (req, res) =>
+  changeVaccinationRecord(req, res, before => toMergeChanges(before, req.body, vaccinationRecordCreateSchema));
+
+// DELETE /api/vaccination-records/:id - Move a vaccination record to the trash
+export const deleteVaccinationRecord: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
+
+  const record = await farm.vaccinationRecords.delete(req.params.id);
+  if (!record) {
+    throw new NotFoundError("Record not found");
+  }
+
+  await recordAudit(farm, "vaccinationRecord", "delete", { before: record });
+  res.json({ message: "Record deleted successfully" });
+};
+
+// POST /api/vaccination-records/bulk-delete - Move several vaccination records to the trash
+export const bulkDeleteVaccinationRecords: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
+  const { ids }: { ids: string[] } = req.body;
+
+  const deleted = await farm.vaccinationRecords.deleteMany(ids);
+  await recordAudit(farm, "vaccinationRecord", "delete", ...deleted.map(before => ({ before })));
+
+  res.json({
+    message: "Records deleted successfully",
+    deletedCount: deleted.length,
+  });
 };
 
 // Health record operations
 export const getHealthRecords: RequestHandler = async (req, res) => {
-  try {
-    const { animalId } = req.query;
-    const records = await readHealthRecords(animalId as string);
-    res.json(records);
-  } catch (error) {
-    console.error("Error getting health records:", error);
-    res.status(500).json({ error: "Failed to fetch health records" });
-  }
+  const farm = farmStorage(req);
+  const { animalId } = req.query;
+  const records = await farm.healthRecords.list(animalId as string);
+  res.json(records);
 };
 
-export const addHealthRecord: RequestHandler = async (req, res) => {
-  try {
-    const newRecord: HealthRecord = req.body;
-
-    const recordData = {
-      animalId: parseInt(newRecord.animalId),
-      recordType: newRecord.recordType,
-      date: newRecord.date,
-      description: newRecord.description,
-      veterinarianName: newRecord.veterinarianName,
-      diagnosis: newRecord.diagnosis,
-      treatment: newRecord.treatment,
-      medications: newRecord.medications,
-      cost: newRecord.cost,
-      nextCheckupDate: newRecord.nextCheckupDate,
-      notes: newRecord.notes
-    };
+// GET /api/health-records/:id - One health record, with its ETag for If-Match
+export const getHealthRecord: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
 
-    const { data, error } = await supabase
-      .from('health_records')
-      .insert([recordData])
-      .select()
-      .single();
+  const record = await farm.healthRecords.findById(req.params.id);
+  if (!record) {
+    throw new NotFoundError("Record not found");
+  }
 
-    if (error) {
-      console.error("Supabase insert error:", error);
-      throw error;
-    }
+  setETag(res, record);
+  res.json(record);
+};
 
-    const returnRecord = {
-      id: data.id.toString(),
-      animalId: data.animalId.toString(),
-      recordType: data.recordType,
-      date: data.date,
-      description: data.description,
-      veterinarianName: data.veterinarianName,
-      diagnosis: data.diagnosis,
-      treatment: data.treatment,
-      medications: data.medications,
-      cost: data.cost,
-      nextCheckupDate: data.nextCheckupDate,
-      notes: data.notes,
-      createdAt: data.createdAt
-    };
+export const addHealthRecord: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
+  const newRecord: HealthRecord = req.body;
+
+  const recordData = {
+    animalId: newRecord.animalId,
+    recordType: newRecord.recordType,
+    date: newRecord.date,
+    description: newRecord.description,
+    veterinarianName: newRecord.veterinarianName,
+    diagnosis: newRecord.diagnosis,
+    treatment: newRecord.treatment,
+    medications: newRecord.medications,
+    cost: newRecord.cost,
+    nextCheckupDate: newRecord.nextCheckupDate,
+    notes: newRecord.notes
+  };
+
+  await assertFarmAnimals(farm, { animalId: recordData.animalId });
+  const record = await farm.healthRecords.create(recordData);
+  await recordAudit(farm, "healthRecord", "create", { after: record });
+  res.status(201).json(record);
+};
+
+// Shared by PUT and PATCH, like changeAnimal
+const changeHealthRecord = async (
+  req: Request,
+  res: Response,
+  changesFor: (before: HealthRecord) => Changes<HealthRecordInput>,
+) => {
+  const farm = farmStorage(req);
+
+  const before = await farm.healthRecords.findById(req.params.id);
+  if (!before) {
+    throw new NotFoundError("Record not found");
+  }
+  assertIfMatch(req, res, before);
 
-    res.status(201).json(returnRecord);
-  } catch (error) {
-    console.error("Error adding health record:", error);
-    res.status(500).json({ error: "Failed to add health record" });
+  const changes = changesFor(before);
+  await assertFarmAnimals(farm, { animalId: changes.animalId });
+  const record = await farm.healthRecords.update(before.id, changes);
+  if (!record) {
+    throw new NotFoundError("Record not found");
   }
+
+  await recordAudit(farm, "healthRecord", "update", { before, after: record });
+  setETag(res, record);
+  res.json(record);
 };
+
+// PUT /api/health-records/:id - Replace a health record's fields
 export const updateHealthRecord: RequestHandler = async (req, res) => {
-  try {
-    const { id } = req.params;
-    const newRecord: HealthRecord = req.body;
-console.log("Updating health record with ID:", id, "Data:", newRecord);
-    const recordData = {
-      recordType: newRecord.recordType,
-      date: newRecord.date,
-      description: newRecord.description,
-      veterinarianName: newRecord.veterinarianName,
-      cost: newRecord.cost,      
-      notes: newRecord.notes
-    };
+  const newRecord: HealthRecord = req.body;
+
+  const recordData: Partial<HealthRecordInput> = {
+    animalId: newRecord.animalId,
+    recordType: newRecord.recordType,
+    date: newRecord.date,
+    description: newRecord.description,
+    veterinarianName: newRecord.veterinarianName,
+    diagnosis: newRecord.diagnosis,
+    treatment: newRecord.treatment,
+    medications: newRecord.medications,
+    cost: newRecord.cost,
+    nextCheckupDate: newRecord.nextCheckupDate,
+    notes: newRecord.notes
+  };
+
+  await changeHealthRecord(req, res, () => recordData);
+};
 
-    const { data, error } = await supabase
-      .from('health_records')
-      .update(recordData)
-      .eq('id', parseInt(id))
-      .select()
-      .single();
-
-    if (error) {
-      
-      if (error.code === 'PGRST116') {
-        return res.status(404).json({ error: "Record not found" });
-      }
-      console.error("Supabase update error:", error);
-      throw error;
-    }
-console.log("Updated health record:", data);
-    const returnRecord = {
-      id: data.id.toString(),
-      animalId: data.animalId.toString(),
-      recordType: data.recordType,
-      date: data.date,
-      description: data.description,
-      veterinarianName: data.veterinarianName,
-      diagnosis: data.diagnosis,
-      treatment: data.treatment,
-      medications: data.medications,
-      cost: data.cost,
-      nextCheckupDate: data.nextCheckupDate,
-      notes: data.notes,
-      createdAt: data.createdAt
-    };
-    res.json(returnRecord);
-  } catch (error) {
-    console.error("Error Updating health record:", error);
-    res.status(500).json({ error: "Failed to update health record" });
+// PATCH /api/health-records/:id - Change only the fields sent (JSON Merge Patch)
+export const patchHealthRecord: RequestHandler = (req, res) =>
+  changeHealthRecord(req, res, before => toMergeChanges(before, req.body, healthRecordCreateSchema));
+
+// DELETE /api/health-records/:id - Move a health record to the trash
+export const deleteHealthRecord: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
+
+  const record = await farm.healthRecords.delete(req.params.id);
+  if (!record) {
+    throw new NotFoundError("Record not found");
   }
+
+  await recordAudit(farm, "healthRecord", "delete", { before: record });
+  res.json({ message: "Record deleted successfully" });
 };
-// Dashboard summary
-export const getAnimalSummary: RequestHandler = async (req, res) => {
-  try {
-    const animals = await readAnimals();
-    const weightRecords = await readWeightRecords();
-
-    const summary: AnimalSummary = {
-      totalAnimals: animals.length,
-      totalGoats: animals.filter((a) => a.type === "goat").length,
-      totalSheep: animals.filter((a) => a.type === "sheep").length,
-      totalMales: animals.filter((a) => a.gender === "male").length,
-      totalFemales: animals.filter((a) => a.gender === "female").length,
-      activeAnimals: animals.filter((a) => a.status === "active").length,
-      soldAnimals: animals.filter((a) => a.status === "sold").length,
-      readyToSell: animals.filter((a) => a.status === "ready_to_sell").length,
-      deadAnimals: animals.filter((a) => a.status === "dead").length,
-      averageWeight: 0,
-      totalInvestment: 0,
-      totalRevenue: 0,
-      profitLoss: 0,
-    };
 
-    // Calculate average weight from most recent weight records
-    const animalWeights = animals
-      .map((animal) => {
-        const animalWeightRecords = weightRecords
-          .filter((w) => w.animalId === animal.id)
-          .sort(
-            (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime(),
-          );
-
-        return animalWeightRecords.length > 0
-          ? animalWeightRecords[0].weight
-          : animal.currentWeight || 0;
-      })
-      .filter((weight) => weight > 0);
-
-    if (animalWeights.length > 0) {
-      summary.averageWeight =
-        animalWeights.reduce((sum, weight) => sum + weight, 0) /
-        animalWeights.length;
-    }
+// POST /api/health-records/bulk-delete - Move several health records to the trash
+export const bulkDeleteHealthRecords: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
+  const { ids }: { ids: string[] } = req.body;
 
-    // Calculate financial summary
-    summary.totalInvestment = animals.reduce(
-      (sum, animal) => sum + (animal.purchasePrice || 0),
-      0,
-    );
-    summary.totalRevenue = animals
-      .filter((a) => a.status === "sold")
-      .reduce((sum, animal) => sum + (animal.salePrice || 0), 0);
-    summary.profitLoss = summary.totalRevenue - summary.totalInvestment;
+  const deleted = await farm.healthRecords.deleteMany(ids);
+  await recordAudit(farm, "healthRecord", "delete", ...deleted.map(before => ({ before })));
+
+  res.json({
+    message: "Records deleted successfully",
+    deletedCount: deleted.length,
+  });
+};
 
-    res.json(summary);
-  } catch (error) {
-    console.error("Error getting animal summary:", error);
-    res.status(500).json({ error: "Failed to fetch animal summary" });
+// Dashboard summary
+export const getAnimalSummary: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
+  const animals = await farm.animals.list();
+  const weightRecords = await farm.weightRecords.list();
+
+  const summary: AnimalSummary = {
+    totalAnimals: animals.length,
+    totalGoats: animals.filter((a) => a.type === "goat").length,
+    totalSheep: animals.filter((a) => a.type === "sheep").length,
+    totalMales: animals.filter((a) => a.gender === "male").length,
+    totalFemales: animals.filter((a) => a.gender === "female").length,
+    activeAnimals: animals.filter((a) => a.status === "active").length,
+    soldAnimals: animals.filter((a) => a.status === "sold").length,
+    readyToSell: animals.filter((a) => a.status === "ready_to_sell").length,
+    deadAnimals: animals.filter((a) => a.status === "dead").length,
+    averageWeight: 0,
+    totalInvestment: 0,
+    totalRevenue: 0,
+    profitLoss: 0,
+  };
+
+  // Calculate average weight from most recent weight records
+  const animalWeights = animals
+    .map((animal) => {
+      const animalWeightRecords = weightRecords
+        .filter((w) => w.animalId === animal.id)
+        .sort(
+          (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime(),
+        );
+
+      return animalWeightRecords.length > 0
+        ? animalWeightRecords[0].weight
+        : animal.currentWeight || 0;
+    })
+    .filter((weight) => weight > 0);
+
+  if (animalWeights.length > 0) {
+    summary.averageWeight =
+      animalWeights.reduce((sum, weight) => sum + weight, 0) /
+      animalWeights.length;
   }
+
+  // Calculate financial summary
+  summary.totalInvestment = animals.reduce(
+    (sum, animal) => sum + (animal.purchasePrice || 0),
+    0,
+  );
+  summary.totalRevenue = animals
+    .filter((a) => a.status === "sold")
+    .reduce((sum, animal) => sum + (animal.salePrice || 0), 0);
+  summary.profitLoss = summary.totalRevenue - summary.totalInvestment;
+
+  res.json(summary);
 };
 
 // Backup and import operations
 export const backupAnimals: RequestHandler = async (req, res) => {
-  try {
-    const animals = await readAnimals();
-    const weightRecords = await readWeightRecords();
-    const breedingRecords = await readBreedingRecords();
-    const vaccinationRecords = await readVaccinationRecords();
-    const healthRecords = await readHealthRecords();
-
-    const backup = {
-      animals,
-      weightRecords,
-      breedingRecords,
-      vaccinationRecords,
-      healthRecords,
-      exportDate: new Date().toISOString(),
-    };
-
-    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-    const backupFileName = `animals-backup-${timestamp}.json`;
-
-    res.setHeader("Content-Type", "application/json");
-    res.setHeader(
-      "Content-Disposition",
-      `attachment; filename="${backupFileName}"`,
-    );
-    res.json(backup);
-  } catch (error) {
-    console.error("Error creating backup:", error);
-    res.status(500).json({ error: "Failed to create backup" });
-  }
+  const farm = farmStorage(req);
+  const animals = await farm.animals.list();
+  const weightRecords = await farm.weightRecords.list();
+  const breedingRecords = await farm.breedingRecords.list();
+  const vaccinationRecords = await farm.vaccinationRecords.list();
+  const healthRecords = await farm.healthRecords.list();
+
+  const backup = {
+    animals,
+    weightRecords,
+    breedingRecords,
+    vaccinationRecords,
+    healthRecords,
+    exportDate: new Date().toISOString(),
+  };
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const backupFileName = `animals-backup-${timestamp}.json`;
+
+  res.setHeader("Content-Type", "application/json");
+  res.setHeader(
+    "Content-Disposition",
+    `attachment; filename="${backupFileName}"`,
+  );
+  res.json(backup);
 };
@@ -0,0 +1,37 @@
+import { RequestHandler } from "express";
+import { ParsedAuditListQuery } from "@shared/audit-schemas";
+import { FarmStorage } from '../storage';
+import { farmStorage } from '../middleware/farm';
+import { toPageWindow, toPaginatedResponse, PageWindow } from '../utils/pagination';
+
+// The audit log is unbounded, so it is always paginated
+const readAuditPage = async (farm: FarmStorage, query: ParsedAuditListQuery, window: PageWindow) =>
+  toPaginatedResponse(
+    await farm.audit.query({
+      entity: query.entity,
+      entityId: query.entityId,
+      animalId: query.animalId,
+      action: query.action,
+      userId: query.userId,
+      since: query.dateFrom,
+      until: query.dateTo && `${query.dateTo}T23:59:59.999Z`,
+      ...window,
+    }),
+    window,
+  );
+
+// GET /api/audit - Audit entries for the farm, newest first
+export const getAuditLog: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
+  const query = req.query as unknown as ParsedAuditListQuery;
+
+  res.json(await readAuditPage(farm, query, toPageWindow(query)));
+};
+
+// GET /api/animals/:id/audit - Changes to an animal and its records, newest first
+export const getAnimalAuditLog: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
+  const query = req.query as unknown as ParsedAuditListQuery;
+
+  res.json(await readAuditPage(farm, { ...query, animalId: req.params.id }, toPageWindow(query)));
+};
@@ -0,0 +1,69 @@
+import { RequestHandler } from "express";
+import { LoginResponse, ROLE_PERMISSIONS, UserRecord } from "@shared/auth-types";
+import storage from '../storage';
+import config from '../config';
+import logger from '../utils/errorLogger';
+import { hashPassword, verifyPassword } from '../utils/passwords';
+import { signToken } from '../utils/tokens';
+import { AuthenticationError, ConflictError } from '../utils/errors';
+
+const issueToken = (user: UserRecord): LoginResponse => {
+  const { token, expiresAt } = signToken(
+    { sub: user.id, username: user.username, role: user.role },
+    config.auth.jwtSecret,
+    config.auth.tokenTtlSeconds,
+  );
+  return { token, expiresAt, user };
+};
+
+// POST /api/auth/setup - Create the first owner account (only while no users exist)
+export const setupOwner: RequestHandler = async (req, res) => {
+  const existing = await storage.users.list();
+  if (existing.length > 0) {
+    throw new ConflictError("Setup has already been completed");
+  }
+
+  const { username, name, password, farmName } = req.body;
+
+  // The owner joins every existing farm; a fresh install gets its first farm here
+  let farms = await storage.farms.list();
+  if (farms.length === 0) {
+    farms = [await storage.farms.create({ name: farmName || "My Farm" })];
+  }
+
+  const user = await storage.users.create({
+    username,
+    name,
+    role: "owner",
+    farmIds: farms.map(farm => farm.id),
+    passwordHash: await hashPassword(password),
+  });
+
+  await logger.info(`Owner account created: ${user.username}`, "auth.setupOwner", undefined, req);
+  res.status(201).json(issueToken(user));
+};
+
+// POST /api/auth/login - Exchange username and password for a bearer token
+export const login: RequestHandler = async (req, res) => {
+  const { username, password } = req.body;
+  const stored = await storage.users.findByUsername(username);
+
+  if (!stored || !(await verifyPassword(password, stored.passwordHash))) {
+    await logger.warn(`Failed login for ${username}`, "auth.login", undefined, req);
+    throw new AuthenticationError("Invalid username or password");
+  }
+
+  const { passwordHash, ...user } = stored;
+  res.json(issueToken(user));
+};
+
+// GET /api/auth/me - Current user and the permissions granted by their role
+export const getCurrentUser: RequestHandler = async (req, res) => {
+  const stored = req.user ? await storage.users.findById(req.user.id) : null;
+  if (!stored) {
+    throw new AuthenticationError();
+  }
+
+  const { passwordHash, ...user } = stored;
+  res.json({ user, permissions: ROLE_PERMISSIONS[user.role] });
+};
@@ -0,0 +1,26 @@
+import { RequestHandler } from "express";
+import { buildOpenApiDocument, renderDocsPage, RegisteredRoute } from "../openapi";
+
+const API_INFO = {
+  title: "Bija Farms API",
+  version: "1.0.0",
+  description: "Backend API for Bija farm management system",
+};
+
+// GET /api/openapi.json - OpenAPI document for every registered route
+export const openApiDocument = (routes: RegisteredRoute[], basePath: string): RequestHandler => {
+  // Built on first request, once createServer has registered every route
+  let document: object | undefined;
+
+  return (_req, res) => {
+    document ??= buildOpenApiDocument(routes, API_INFO, basePath);
+    res.json(document);
+  };
+};
+
+// GET /api/docs - Browsable API documentation
+export const docsPage =
+  (specUrl: string): RequestHandler =>
+  (_req, res) => {
+    res.type("html").send(renderDocsPage(specUrl, API_INFO.title));
+  };
@@ -0,0 +1,56 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { TestApi, TestResponse, addUser, setupOwner, startApi } from '../test/api';
+
+// Matches HEARTBEAT_MS in events.ts
+const HEARTBEAT_MS = 25_000;
+
+describe('event stream', () => {
+  let api: TestApi;
+  let ownerToken: string;
+
+  beforeAll(async () => {
+    api = await startApi();
+    ownerToken = await setupOwner(api);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  afterAll(() => api.close());
+
+  // Opens a stream with only the heartbeat faked; `ended` settles when the server closes it
+  const openStream = async (path: string, token: string): Promise<{ ended: Promise<TestResponse> }> => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+    const ended = api.request('GET', path, { token });
+    await vi.waitFor(() => expect(vi.getTimerCount()).toBeGreaterThan(0));
+    return { ended };
+  };
+
+  it('ends when the user is deleted', async () => {
+    const worker = await addUser(api, ownerToken, 'worker');
+    const { ended } = await openStream('/events', worker.token);
+
+    expect((await api.request('DELETE', `/users/${worker.id}`, { token: ownerToken })).status).toBe(200);
+    await vi.advanceTimersByTimeAsync(HEARTBEAT_MS);
+
+    const response = await ended;
+    expect(response.status).toBe(200);
+    expect(response.body).toContain(': heartbeat');
+  });
+
+  it('ends when the role can no longer read the streamed entities', async () => {
+    const accountant = await addUser(api, ownerToken, 'accountant');
+    const { ended } = await openStream('/events?entity=expense', accountant.token);
+
+    // Still allowed: the stream stays open through a heartbeat
+    await vi.advanceTimersByTimeAsync(HEARTBEAT_MS);
+    expect(vi.getTimerCount()).toBeGreaterThan(0);
+
+    const demoted = await api.request('PUT', `/users/${accountant.id}`, { token: ownerToken, body: { role: 'worker' } });
+    expect(demoted.status).toBe(200);
+    await vi.advanceTimersByTimeAsync(HEARTBEAT_MS);
+
+    expect((await ended).status).toBe(200);
+  });
+});
@@ -0,0 +1,118 @@
+import { RequestHandler, Response } from "express";
+import { ChangeEntity, ChangeEvent, EventStreamToken } from "@shared/event-types";
+import { ParsedEventStreamQuery } from "@shared/event-schemas";
+import { hasPermission, Permission, Role } from "@shared/auth-types";
+import config from '../config';
+import storage from '../storage';
+import logger from '../utils/errorLogger';
+import { eventsSince, latestEventId, subscribeEvents } from '../utils/events';
+import { signToken } from '../utils/tokens';
+
+// Comment lines keep idle connections open through proxies
+const HEARTBEAT_MS = 25_000;
+// How long EventSource waits before reconnecting
+const RETRY_MS = 5_000;
+// Stream tokens only need to last until the connection is open
+const STREAM_TOKEN_TTL_SECONDS = 60;
+
+// Open streams, ended on shutdown so the server can close
+const openStreams = new Set<Response>();
+
+// Events reach only callers allowed to read what they carry
+const ENTITY_PERMISSIONS: Record<ChangeEntity, Permission> = {
+  animal: "animals:read",
+  weightRecord: "records:read",
+  task: "tasks:read",
+  expense: "expenses:read",
+  category: "expenses:read",
+};
+
+const formatEvent = (event: ChangeEvent) =>
+  `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+
+// Whether `role` may read any of the entities the stream was opened for
+const readsAny = (role: Role, entities?: ChangeEntity[]) =>
+  (entities ?? (Object.keys(ENTITY_PERMISSIONS) as ChangeEntity[])).some(entity =>
+    hasPermission(role, ENTITY_PERMISSIONS[entity]),
+  );
+
+// GET /api/events - Server-Sent Events stream of changes to the farm's data
+export const streamEvents: RequestHandler = (req, res) => {
+  const { farmId, user } = req;
+  const query = req.query as unknown as ParsedEventStreamQuery;
+  // Re-read on every heartbeat, like authorize does per request
+  let role = user?.role;
+
+  // Without auth there is no user and every event is sent
+  const wanted = (event: ChangeEvent) =>
+    event.farmId === farmId &&
+    (!query.entity || query.entity.includes(event.entity)) &&
+    (!role || hasPermission(role, ENTITY_PERMISSIONS[event.entity]));
+
+  // Ends the stream once the user is deleted, leaves the farm or can no
+  // longer read anything it carries; reconnecting goes through authorize
+  const recheckUser = async () => {
+    if (!user) return;
+    const stored = await storage.users.findById(user.id);
+    if (!stored || !stored.farmIds.includes(farmId!) || !readsAny(stored.role, query.entity)) {
+      res.end();
+      return;
+    }
+    role = stored.role;
+  };
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    // Stops nginx from buffering the stream
+    "X-Accel-Buffering": "no",
+  });
+  res.write(`retry: ${RETRY_MS}\n\n`);
+
+  const lastEventId = req.get("Last-Event-ID") ?? query.lastEventId;
+  if (lastEventId) {
+    const missed = eventsSince(lastEventId);
+    if (missed) {
+      missed.filter(wanted).forEach(event => res.write(formatEvent(event)));
+    } else {
+      // Too much was missed to replay; the client should reload its data
+      res.write(`id: ${latestEventId()}\nevent: reset\ndata: {}\n\n`);
+    }
+  }
+
+  const unsubscribe = subscribeEvents(event => {
+    if (wanted(event)) res.write(formatEvent(event));
+  });
+  const heartbeat = setInterval(() => {
+    res.write(": heartbeat\n\n");
+    recheckUser().catch(async error => {
+      await logger.error("Failed to re-check an event stream's user", "events.streamEvents", error);
+      res.end();
+    });
+  }, HEARTBEAT_MS);
+
+  openStreams.add(res);
+
+  res.on("close", () => {
+    openStreams.delete(res);
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+};
+
+// POST /api/events/token - Short-lived token opening the caller's event stream on this farm as ?token=
+export const issueEventStreamToken: RequestHandler = (req, res) => {
+  const user = req.user!;
+  const body: EventStreamToken = signToken(
+    { sub: user.id, username: user.username, role: user.role, scope: "events", farmId: req.farmId },
+    config.auth.jwtSecret,
+    STREAM_TOKEN_TTL_SECONDS,
+  );
+  res.json(body);
+};
+
+/** Ends every open event stream; clients reconnect to whichever server answers next. */
+export const closeEventStreams = (): void => {
+  openStreams.forEach(res => res.end());
+};
@@ -1,555 +1,459 @@
-import { RequestHandler } from "express";
+import { Request, RequestHandler, Response } from "express";
 import {
   ExpenseRecord,
   CategoryManagementData,
   CategoryConfig,
+  ExpenseListResponse,
+  ExpenseSummaryReport,
 } from "@shared/expense-types";
-import supabase from './supabaseClient';
+import {
+  ParsedExpenseListQuery,
+  ParsedExpenseAnalyticsQuery,
+  expenseCreateSchema,
+} from "@shared/expense-schemas";
+import {
+  FarmStorage,
+  Changes,
+  ExpenseInput,
+  ExpenseFilter,
+  totalsByCategory,
+  totalsByMonth,
+} from '../storage';
+import { farmStorage } from '../middleware/farm';
 import logger from '../utils/errorLogger';
+import { recordAudit, RowChange } from '../utils/audit';
+import { publishEvent } from '../utils/events';
+import { dispatchWebhook } from '../utils/webhooks';
+import {
+  isPaged,
+  toPageWindow,
+  toPaginatedResponse,
+} from '../utils/pagination';
+import { assertIfMatch, setETag } from '../utils/etags';
+import { toMergeChanges } from '../utils/mergePatch';
+import { NotFoundError, ValidationError } from '../utils/errors';
+
+// Looks up a category by name, creating it when it does not exist yet
+const resolveCategoryId = async (farm: FarmStorage, name: string, subCategory?: string): Promise<string> => {
+  const existing = await farm.categories.findByName(name);
+  if (existing) {
+    await logger.info(`Found category ${name} with ID: ${existing.id}`, "expenses.resolveCategoryId");
+    return existing.id;
+  }
 
-const readExpenses = async (): Promise<ExpenseRecord[]> => {
   try {
-    const { data:expenses, error } = await supabase
-      .from('allexpenses')
-      .select('*');
-    
-    if (error ) {
-      console.error("Supabase error:", error);      
-    }
-    if (!expenses) return [];    
-    //return JSON.parse(JSON.stringify(expenses));
-        
-    // Transform the data to match the expected format and ensure unique IDs
-        return expenses.map((item, index) => {
-            // ...existing transformation code...
-            
-            let formattedDate = new Date().toISOString().split("T")[0];
-            const dateStr = item.Date || item.date;
-            if (dateStr) {
-                try {
-                    if (/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
-                        formattedDate = dateStr;
-                    }
-                    else {
-                        const dateParts = dateStr.split("/");
-                        if (dateParts.length === 3) {
-                            const [month, day, year] = dateParts;
-                            const paddedMonth = month.padStart(2, "0");
-                            const paddedDay = day.padStart(2, "0");
-                            formattedDate = `${year}-${paddedMonth}-${paddedDay}`;
-                        }
-                    }
-                }
-                catch (e) {
-                    console.warn(`Invalid date format: ${dateStr}`);
-                }
-
-                }
-            return {
-                id: String(item.id || index + 1),
-                date: formattedDate,
-                type: item.Type || item.type || "Expense",
-                description: item.Description || item.description || "No description",
-                amount: parseFloat(item.Amount || item.amount || 0),
-                paidBy: item["Paid By"] || item.paidBy || "Unknown",
-                category: item.Category || item.category || "Other",
-                subCategory: item["Sub-Category"] || item.subCategory || "General",
-                source: item.Source || item.source || "Unknown",
-                notes: item.Notes || item.notes || "",
-            };});
-  } catch (error) {
-    console.error("Error reading expenses:", error);
-    return [];
+    const created = await farm.categories.create({
+      name,
+      subCategories: [subCategory || "General"],
+    });
+    await logger.info(`Created new category: ${name} with ID: ${created.id}`, "expenses.resolveCategoryId");
+    await recordAudit(farm, "category", "create", { after: created });
+    return created.id;
+  } catch (createError) {
+    await logger.error(`Error creating category ${name}`, "expenses.resolveCategoryId", createError);
+    throw createError;
   }
 };
 
 // Helper function to insert a single expense
-const insertExpense = async (expense: ExpenseRecord): Promise<any> => {
-  try {
-    console.log("Attempting to insert expense:", expense);
-
-    // Look up category ID from categories table
-    const { data: categoryData, error: categoryError } = await supabase
-      .from('categories')
-      .select('id')
-      .eq('name', expense.category)
-      .single();
-
-    let categoryId;
-    if (categoryError) {
-      await logger.error(`Error fetching category for ${expense.category}`, "expenses.insertExpense", categoryError);
-      const subCatgrs: string[] = [expense.subCategory];
-      // If category doesn't exist, create it
-      const { data: newCategory, error: createError } = await supabase
-        .from('categories')
-        .insert([{ name: expense.category, subCategories: subCatgrs || ["General"] }])
-        .select('id')
-        .single();
-
-      if (createError) {
-        await logger.error(`Error creating category ${expense.category}`, "expenses.insertExpense", createError);
-        throw createError;
-      }
+const insertExpense = async (farm: FarmStorage, expense: ExpenseRecord): Promise<ExpenseRecord> => {
+  console.log("Attempting to insert expense:", expense);
+
+  const categoryId = await resolveCategoryId(farm, expense.category, expense.subCategory);
+
+  const expenseData: ExpenseInput = {
+    description: expense.description,
+    amount: expense.amount,
+    type: expense.type,
+    date: expense.date,
+    paidBy: expense.paidBy,
+    category: expense.category,
+    categoryId: categoryId,
+    subCategory: expense.subCategory,
+    source: expense.source,
+    notes: expense.notes,
+  };
+
+  await logger.info("Inserting expense data", "expenses.insertExpense", { amount: expenseData.amount, categoryId: expenseData.categoryId });
 
-      await logger.info(`Created new category: ${expense.category} with ID: ${newCategory.id}`, "expenses.insertExpense");
-      categoryId = newCategory.id;
-    } else {
-      categoryId = categoryData.id;
-      await logger.info(`Found category ${expense.category} with ID: ${categoryId}`, "expenses.insertExpense");
-    }
+  try {
+    const inserted = await farm.expenses.create(expenseData);
+    console.log("Successfully inserted expense:", inserted);
+    return inserted;
+  } catch (insertError) {
+    await logger.error("Insert error for expense", "expenses.insertExpense", { description: expense.description, error: insertError });
+    throw insertError;
+  }
+};
 
-    // Insert expense with categoryId
-    const expenseData = {
-      description: expense.description,
-      amount: expense.amount,
-      type: expense.type,
-      date: expense.date,
-      paidBy: expense.paidBy,
-      categoryId: categoryId,
-      subCategory: expense.subCategory || null,
-      source: expense.source || null,
-      notes: expense.notes || null,
-    };
-
-    await logger.info("Inserting expense data", "expenses.insertExpense", { amount: expenseData.amount, categoryId: expenseData.categoryId });
-
-    const { data, error: insertError } = await supabase
-      .from('expenses')
-      .insert([expenseData])
-      .select();
-
-    if (insertError) {
-      await logger.error("Supabase insert error for expense", "expenses.insertExpense", { description: expense.description, error: insertError });
-      throw insertError;
-    }
+// Helper function to read categories from storage
+const readCategories = async (farm: FarmStorage): Promise<CategoryManagementData> => ({
+  categories: await farm.categories.list(),
+  lastUpdated: new Date().toISOString()
+});
+
+// Helper function to write categories to storage. Categories are replaced
+// wholesale, so the audit trail pairs old and new categories by name.
+const writeCategories = async (farm: FarmStorage, data: CategoryManagementData): Promise<void> => {
+  const before = await farm.categories.list();
+  await farm.categories.replaceAll(data.categories || []);
+  const after = await farm.categories.list();
+
+  const byName = (categories: CategoryConfig[], name: string) =>
+    categories.find(category => category.name === name);
+  const names = new Set([...before, ...after].map(category => category.name));
+  const changes = [...names].map((name): RowChange => ({
+    before: byName(before, name),
+    after: byName(after, name),
+  }));
+
+  await recordAudit(farm, "category", "create", ...changes.filter(change => !change.before));
+  await recordAudit(farm, "category", "update", ...changes.filter(change => change.before && change.after));
+  await recordAudit(farm, "category", "delete", ...changes.filter(change => !change.after));
+  publishEvent(farm, "categories.saved", { categories: after });
+};
 
-    console.log("Successfully inserted expense:", data);
-    return data[0];
-  } catch (error) {
-    console.error("Error inserting expense:", error);
-    throw error;
+// GET /api/expenses - Filtered, sorted expenses; paginated with totals when page, pageSize or cursor is given
+export const getExpenses: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
+  const { sortBy, sortOrder, page, pageSize, cursor, ...filter }: ParsedExpenseListQuery =
+    req.query as unknown as ParsedExpenseListQuery;
+  const paging = { page, pageSize, cursor };
+
+  if (!isPaged(paging)) {
+    const { items } = await farm.expenses.query({ ...filter, sortBy, sortOrder, offset: 0 });
+    return res.json(items);
   }
+
+  const window = toPageWindow(paging);
+  const [result, summary] = await Promise.all([
+    farm.expenses.query({ ...filter, sortBy, sortOrder, ...window }),
+    farm.expenses.summarize(filter),
+  ]);
+  const response: ExpenseListResponse = { ...toPaginatedResponse(result, window), summary };
+  res.json(response);
 };
 
-// Helper function to read categories from Supabase
-const readCategories = async (): Promise<CategoryManagementData> => {
-  try {
-    const { data: categories, error } = await supabase
-      .from('categories')
-      .select('*')
-      .order('id', { ascending: true });
-
-    if (error) {
-      console.error("Supabase error:", error);
-      return { categories: [], lastUpdated: new Date().toISOString() };
-    }
+// The same calendar date one year earlier (Feb 29 becomes Feb 28)
+const previousYearOf = (date: string): string =>
+  `${Number(date.slice(0, 4)) - 1}${date.slice(4)}`.replace(/-02-29/, "-02-28");
+
+// Filters for an analytics request, plus the same filters a year earlier when comparing
+const readAnalyticsFilters = (query: ParsedExpenseAnalyticsQuery) => {
+  const { compare, ...filter } = query;
+  const previous: ExpenseFilter | undefined = compare
+    ? { ...filter, dateFrom: previousYearOf(filter.dateFrom!), dateTo: previousYearOf(filter.dateTo!) }
+    : undefined;
+  return { filter, previous };
+};
 
-    const categoryConfigs: CategoryConfig[] = categories?.map(cat => ({
-      id: cat.id.toString(),
-      name: cat.name,
-      subCategories: cat.subCategories || [],
-      createdAt: cat.createdAt || new Date().toISOString()
-    })) || [];
-
-    return {
-      categories: categoryConfigs,
-      lastUpdated: new Date().toISOString()
-    };
-  } catch (error) {
-    console.error("Error reading categories:", error);
-    return { categories: [], lastUpdated: new Date().toISOString() };
-  }
+// Every expense matching the filter, oldest first
+const readMatchingExpenses = async (farm: FarmStorage, filter: ExpenseFilter): Promise<ExpenseRecord[]> =>
+  (await farm.expenses.query({ ...filter, sortBy: "date", sortOrder: "asc", offset: 0 })).items;
+
+// GET /api/expenses/summary - Income, expense and balance totals for the filtered expenses
+export const getExpenseSummary: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
+  const { filter, previous } = readAnalyticsFilters(req.query as unknown as ParsedExpenseAnalyticsQuery);
+
+  const [summary, previousYear] = await Promise.all([
+    farm.expenses.summarize(filter),
+    previous && farm.expenses.summarize(previous),
+  ]);
+  const report: ExpenseSummaryReport = previousYear ? { ...summary, previousYear } : summary;
+  res.json(report);
 };
 
-// Helper function to write categories to Supabase
-const writeCategories = async (data: CategoryManagementData): Promise<void> => {
-  try {
-    // For simplicity, we'll clear and re-insert all categories
-    // In production, you might want more sophisticated upsert logic
-
-    // First, delete existing categories
-    await supabase
-      .from('categories')
-      .delete()
-      .gte('id', 0);
-
-    // Then insert new categories
-    if (data.categories && data.categories.length > 0) {
-      const categoriesToInsert = data.categories.map(cat => ({
-        name: cat.name,
-        subCategories: cat.subCategories || []
-      }));
-
-      const { error } = await supabase
-        .from('categories')
-        .insert(categoriesToInsert);
-
-      if (error) {
-        console.error("Supabase insert error:", error);
-        throw error;
-      }
-    }
-  } catch (error) {
-    console.error("Error writing categories:", error);
-    throw error;
-  }
+// GET /api/expenses/by-category - Totals per category with sub-category drill-down
+export const getExpensesByCategory: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
+  const { filter, previous } = readAnalyticsFilters(req.query as unknown as ParsedExpenseAnalyticsQuery);
+
+  const [expenses, previousExpenses] = await Promise.all([
+    readMatchingExpenses(farm, filter),
+    previous && readMatchingExpenses(farm, previous),
+  ]);
+  res.json(totalsByCategory(expenses, previousExpenses));
 };
 
-// GET /api/expenses - Get all expenses
-export const getExpenses: RequestHandler = async (req, res) => {
-  try {
-    const expenses = await readExpenses();
-    res.json(expenses);
-  } catch (error) {
-    console.error("Error getting expenses:", error);
-    res.status(500).json({ error: "Failed to fetch expenses" });
+// GET /api/expenses/monthly - Income and expenses per month
+export const getMonthlyExpenses: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
+  const { filter, previous } = readAnalyticsFilters(req.query as unknown as ParsedExpenseAnalyticsQuery);
+
+  const [expenses, previousExpenses] = await Promise.all([
+    readMatchingExpenses(farm, filter),
+    previous && readMatchingExpenses(farm, previous),
+  ]);
+  res.json(totalsByMonth(expenses, { from: filter.dateFrom, to: filter.dateTo }, previousExpenses));
+};
+
+// GET /api/expenses/:id - One expense, with its ETag for If-Match
+export const getExpense: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
+
+  const expense = await farm.expenses.findById(req.params.id);
+  if (!expense) {
+    throw new NotFoundError("Expense not found");
   }
+
+  setETag(res, expense);
+  res.json(expense);
 };
 
 // POST /api/expenses - Add new expense
 export const addExpense: RequestHandler = async (req, res) => {
-  try {
-    const newExpense: ExpenseRecord = req.body;
+  const farm = farmStorage(req);
+  const newExpense: ExpenseRecord = req.body;
 
-    // Validate required fields
-    if (!newExpense.description || !newExpense.amount || !newExpense.category) {
-      return res.status(400).json({ error: "Missing required fields" });
-    }
+  const insertedExpense = await insertExpense(farm, newExpense);
+  await recordAudit(farm, "expense", "create", { after: insertedExpense });
+  publishEvent(farm, "expense.added", { expense: insertedExpense });
 
-    const insertedExpense = await insertExpense(newExpense);
-
-    // Transform the response to match expected format
-    const responseExpense = {
-      id: insertedExpense.id.toString(),
-      date: insertedExpense.date,
-      type: insertedExpense.type,
-      description: insertedExpense.description,
-      amount: insertedExpense.amount,
-      paidBy: insertedExpense.paidBy,
-      category: newExpense.category, // Use original category name
-      subCategory: insertedExpense.subCategory,
-      source: insertedExpense.source,
-      notes: insertedExpense.notes,
-    };
-
-    res.status(201).json(responseExpense);
-  } catch (error) {
-    console.error("Error adding expense:", error);
-    res.status(500).json({ error: "Failed to add expense" });
+  res.status(201).json(insertedExpense);
+};
+
+/**
+ * Applies the changes `changesFor` derives from the stored expense, after
+ * checking If-Match against it, then audits and responds with the updated
+ * expense. Shared by PUT and PATCH.
+ */
+const changeExpense = async (
+  req: Request,
+  res: Response,
+  changesFor: (before: ExpenseRecord) => Promise<Changes<ExpenseInput>>,
+) => {
+  const farm = farmStorage(req);
+
+  const before = await farm.expenses.findById(req.params.id);
+  if (!before) {
+    throw new NotFoundError("Expense not found");
+  }
+  assertIfMatch(req, res, before);
+
+  const expense = await farm.expenses.update(before.id, await changesFor(before));
+  if (!expense) {
+    throw new NotFoundError("Expense not found");
   }
+
+  await recordAudit(farm, "expense", "update", { before, after: expense });
+  setETag(res, expense);
+  res.json(expense);
 };
 
 // PUT /api/expenses/:id - Update existing expense
 export const updateExpense: RequestHandler = async (req, res) => {
-  try {
-    const { id } = req.params;
-    const updatedExpense: ExpenseRecord = req.body;
-
+  const farm = farmStorage(req);
+  const updatedExpense: ExpenseRecord = req.body;
+
+  // Prepare update data
+  const updateData: Partial<ExpenseInput> = {
+    description: updatedExpense.description,
+    amount: updatedExpense.amount,
+    type: updatedExpense.type,
+    date: updatedExpense.date,
+    paidBy: updatedExpense.paidBy,
+    subCategory: updatedExpense.subCategory,
+    source: updatedExpense.source,
+    notes: updatedExpense.notes,
+  };
+
+  await changeExpense(req, res, async () => {
     // Look up category ID if category is provided
-    let categoryId;
     if (updatedExpense.category) {
-      const { data: categoryData, error: categoryError } = await supabase
-        .from('categories')
-        .select('id')
-        .eq('name', updatedExpense.category)
-        .single();
-
-      if (categoryError) {
-        // If category doesn't exist, create it
-        const { data: newCategory, error: createError } = await supabase
-          .from('categories')
-          .insert([{ name: updatedExpense.category, subCategories: [updatedExpense.subCategory || "General"] }])
-          .select('id')
-          .single();
-
-        if (createError) {
-          console.error(`Error creating category ${updatedExpense.category}:`, createError);
-          return res.status(500).json({ error: "Failed to create category" });
-        }
-        categoryId = newCategory.id;
-      } else {
-        categoryId = categoryData.id;
-      }
+      updateData.category = updatedExpense.category;
+      updateData.categoryId = await resolveCategoryId(farm, updatedExpense.category, updatedExpense.subCategory);
     }
+    return updateData;
+  });
+};
 
-    // Prepare update data
-    const updateData: any = {
-      description: updatedExpense.description,
-      amount: updatedExpense.amount,
-      type: updatedExpense.type,
-      date: updatedExpense.date,
-      paidBy: updatedExpense.paidBy,
-      subCategory: updatedExpense.subCategory,
-      source: updatedExpense.source,
-      notes: updatedExpense.notes,
-    };
-
-    if (categoryId) {
-      updateData.categoryId = categoryId;
-    }
-
-    // Update in Supabase
-    const { data, error } = await supabase
-      .from('expenses')
-      .update(updateData)
-      .eq('id', parseInt(id))
-      .select();
-
-    if (error) {
-      if (error.code === 'PGRST116') {
-        return res.status(404).json({ error: "Expense not found" });
-      }
-      console.error("Supabase update error:", error);
-      return res.status(500).json({ error: "Failed to update expense" });
-    }
+// PATCH /api/expenses/:id - Change only the fields sent (JSON Merge Patch)
+export const patchExpense: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
 
-    if (!data || data.length === 0) {
-      return res.status(404).json({ error: "Expense not found" });
+  await changeExpense(req, res, async (before) => {
+    const changes: Changes<ExpenseInput> = toMergeChanges(before, req.body, expenseCreateSchema);
+    if (changes.category) {
+      changes.categoryId = await resolveCategoryId(farm, changes.category, changes.subCategory ?? before.subCategory);
     }
-
-    // Transform response to match expected format
-    const responseExpense = {
-      id: data[0].id.toString(),
-      date: data[0].date,
-      type: data[0].type,
-      description: data[0].description,
-      amount: data[0].amount,
-      paidBy: data[0].paidBy,
-      category: updatedExpense.category || data[0].category,
-      subCategory: data[0].subCategory,
-      source: data[0].source,
-      notes: data[0].notes,
-    };
-
-    res.json(responseExpense);
-  } catch (error) {
-    console.error("Error updating expense:", error);
-    res.status(500).json({ error: "Failed to update expense" });
-  }
+    return changes;
+  });
 };
 
 // DELETE /api/expenses/:id - Delete expense
 export const deleteExpense: RequestHandler = async (req, res) => {
-  try {
-    const { id } = req.params;
+  const farm = farmStorage(req);
+  const { id } = req.params;
 
-    const { error } = await supabase
-      .from('expenses')
-      .delete()
-      .eq('id', parseInt(id));
-
-    if (error) {
-      if (error.code === 'PGRST116') {
-        return res.status(404).json({ error: "Expense not found" });
-      }
-      console.error("Supabase delete error:", error);
-      return res.status(500).json({ error: "Failed to delete expense" });
-    }
-
-    res.json({ message: "Expense deleted successfully" });
-  } catch (error) {
-    console.error("Error deleting expense:", error);
-    res.status(500).json({ error: "Failed to delete expense" });
+  const expense = await farm.expenses.delete(id);
+  if (!expense) {
+    throw new NotFoundError("Expense not found");
   }
+
+  await recordAudit(farm, "expense", "delete", { before: expense });
+  res.json({ message: "Expense deleted successfully" });
 };
 
 // POST /api/expenses/import - Import multiple expenses
 export const importExpenses: RequestHandler = async (req, res) => {
-  try {
-    const importedExpenses: ExpenseRecord[] = req.body;
-
-    if (!Array.isArray(importedExpenses)) {
-      return res.status(400).json({ error: "Expected array of expenses" });
-    }
-
-    let successCount = 0;
-    const errors: string[] = [];
-
-    // Insert each expense individually to handle category creation
-    for (const expense of importedExpenses) {
-      try {
-        await insertExpense(expense);
-        successCount++;
-      } catch (error) {
-        console.error(`Error importing expense: ${expense.description}:`, error);
-        errors.push(`Failed to import: ${expense.description}`);
-      }
+  const farm = farmStorage(req);
+  const importedExpenses: ExpenseRecord[] = req.body;
+
+  const inserted: ExpenseRecord[] = [];
+  const errors: string[] = [];
+
+  // Insert each expense individually to handle category creation
+  for (const expense of importedExpenses) {
+    try {
+      inserted.push(await insertExpense(farm, expense));
+    } catch (error) {
+      console.error(`Error importing expense: ${expense.description}:`, error);
+      errors.push(`Failed to import: ${expense.description}`);
     }
-
-    const response: any = {
-      message: "Import completed",
-      successCount: successCount,
-      totalCount: importedExpenses.length,
-    };
-
-    if (errors.length > 0) {
-      response.errors = errors;
-      response.message = `Import completed with ${errors.length} errors`;
-    }
-
-    res.json(response);
-  } catch (error) {
-    console.error("Error importing expenses:", error);
-    res.status(500).json({ error: "Failed to import expenses" });
   }
+  await recordAudit(farm, "expense", "import", ...inserted.map(after => ({ after })));
+  inserted.forEach(expense => publishEvent(farm, "expense.added", { expense }));
+  await dispatchWebhook(farm, "expenses.imported", {
+    successCount: inserted.length,
+    totalCount: importedExpenses.length,
+    expenseIds: inserted.map(expense => expense.id),
+  });
+
+  const response: any = {
+    message: "Import completed",
+    successCount: inserted.length,
+    totalCount: importedExpenses.length,
+  };
+
+  if (errors.length > 0) {
+    response.errors = errors;
+    response.message = `Import completed with ${errors.length} errors`;
+  }
+
+  res.json(response);
 };
 
 // POST /api/expenses/bulk-delete - Delete multiple expenses
 export const bulkDeleteExpenses: RequestHandler = async (req, res) => {
-  try {
-    const { ids }: { ids: string[] } = req.body;
+  const farm = farmStorage(req);
+  const { ids }: { ids: string[] } = req.body;
 
-    if (!Array.isArray(ids)) {
-      return res.status(400).json({ error: "Expected array of IDs" });
-    }
-
-    // Convert string IDs to integers
-    const numericIds = ids.map(id => parseInt(id)).filter(id => !isNaN(id));
-
-    if (numericIds.length === 0) {
-      return res.status(400).json({ error: "No valid IDs provided" });
-    }
+  // Keep only IDs that parse as integers
+  const validIds = ids.filter(id => !isNaN(parseInt(id)));
 
-    const { error } = await supabase
-      .from('expenses')
-      .delete()
-      .in('id', numericIds);
+  if (validIds.length === 0) {
+    throw new ValidationError("No valid IDs provided");
+  }
 
-    if (error) {
-      console.error("Supabase bulk delete error:", error);
-      return res.status(500).json({ error: "Failed to delete expenses" });
-    }
+  const deleted = await farm.expenses.deleteMany(validIds);
+  await recordAudit(farm, "expense", "delete", ...deleted.map(before => ({ before })));
 
-    res.json({
-      message: "Expenses deleted successfully",
-      deletedCount: numericIds.length,
-    });
-  } catch (error) {
-    console.error("Error bulk deleting expenses:", error);
-    res.status(500).json({ error: "Failed to delete expenses" });
-  }
+  res.json({
+    message: "Expenses deleted successfully",
+    deletedCount: deleted.length,
+  });
 };
 
 // GET /api/expenses/backup - Create backup of expenses
 export const backupExpenses: RequestHandler = async (req, res) => {
-  try {
-    const expenses = await readExpenses();
-    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-    const backupFileName = `expenses-backup-${timestamp}.json`;
-
-    res.setHeader("Content-Type", "application/json");
-    res.setHeader(
-      "Content-Disposition",
-      `attachment; filename="${backupFileName}"`,
-    );
-    res.json(expenses);
-  } catch (error) {
-    console.error("Error creating backup:", error);
-    res.status(500).json({ error: "Failed to create backup" });
-  }
+  const farm = farmStorage(req);
+  const expenses = await farm.expenses.list();
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const backupFileName = `expenses-backup-${timestamp}.json`;
+
+  res.setHeader("Content-Type", "application/json");
+  res.setHeader(
+    "Content-Disposition",
+    `attachment; filename="${backupFileName}"`,
+  );
+  res.json(expenses);
 };
 
 // GET /api/expenses/categories - Get categories
 export const getCategories: RequestHandler = async (req, res) => {
-  try {
-    const categories = await readCategories();
-    res.json(categories);
-  } catch (error) {
-    console.error("Error getting categories:", error);
-    res.status(500).json({ error: "Failed to fetch categories" });
-  }
+  const farm = farmStorage(req);
+  const categories = await readCategories(farm);
+  res.json(categories);
 };
 
 // POST /api/expenses/categories - Save categories
 export const saveCategories: RequestHandler = async (req, res) => {
-  try {
-    const categoryData: CategoryManagementData = req.body;
-
-    // Validate required fields
-    if (!categoryData.categories || !Array.isArray(categoryData.categories)) {
-      return res.status(400).json({ error: "Invalid categories data" });
-    }
+  const farm = farmStorage(req);
+  const categoryData: CategoryManagementData = req.body;
 
-    await writeCategories(categoryData);
-    res.json({ message: "Categories saved successfully" });
-  } catch (error) {
-    console.error("Error saving categories:", error);
-    res.status(500).json({ error: "Failed to save categories" });
-  }
+  await writeCategories(farm, categoryData);
+  res.json({ message: "Categories saved successfully" });
 };
 
 // POST /api/expenses/populate-categories - Populate categories from existing expense data
 export const populateCategories: RequestHandler = async (req, res) => {
-  try {
-    const expenses = await readExpenses();
-    const categoryMap: { [key: string]: Set<string> } = {};
-
-    // Extract categories and sub-categories from existing expenses
-    expenses.forEach((expense:ExpenseRecord) => {
-      if (expense.category && expense.category.trim() !== "") {
-        const category = expense.category.trim();
-        const subCategory = expense.subCategory
-          ? expense.subCategory.trim()
-          : "General";
-
-        if (!categoryMap[category]) {
-          categoryMap[category] = new Set();
-        }
-
-        if (subCategory && subCategory !== "") {
-          categoryMap[category].add(subCategory);
-        }
+  const farm = farmStorage(req);
+  const expenses = await farm.expenses.list();
+  const categoryMap: { [key: string]: Set<string> } = {};
+
+  // Extract categories and sub-categories from existing expenses
+  expenses.forEach((expense:ExpenseRecord) => {
+    if (expense.category && expense.category.trim() !== "") {
+      const category = expense.category.trim();
+      const subCategory = expense.subCategory
+        ? expense.subCategory.trim()
+        : "General";
+
+      if (!categoryMap[category]) {
+        categoryMap[category] = new Set();
       }
-    });
 
-    // Convert to CategoryConfig format
-    const categories: CategoryConfig[] = Object.entries(categoryMap).map(
-      ([categoryName, subCategoriesSet], index) => {
-        // Clean up and deduplicate sub-categories
-        const subCategories = Array.from(subCategoriesSet)
-          .filter((sub) => sub && sub.trim() !== "")
-          .map((sub) => {
-            // Standardize common variations
-            if (sub.toLowerCase() === "misc") return "Misc";
-            if (sub.toLowerCase() === "plubming") return "Plumbing";
-            if (sub.toLowerCase() === "solar") return "Solar";
-            if (sub.toLowerCase() === "doors") return "Doors";
-            if (sub.toLowerCase() === "electric") return "Electric";
-            return sub;
-          })
-          .filter(
-            (sub, idx, arr) =>
-              arr.findIndex((s) => s.toLowerCase() === sub.toLowerCase()) ===
-              idx,
-          ) // Remove duplicates
-          .sort(); // Sort alphabetically
-
-        return {
-          id: (Date.now() + index).toString(),
-          name: categoryName,
-          subCategories: subCategories.length > 0 ? subCategories : ["General"],
-          createdAt: new Date().toISOString(),
-        };
-      },
-    );
-
-    // Sort categories alphabetically
-    categories.sort((a, b) => a.name.localeCompare(b.name));
-
-    const categoryData: CategoryManagementData = {
-      categories,
-      lastUpdated: new Date().toISOString(),
-    };
-
-    writeCategories(categoryData);
-
-    res.json({
-      message: "Categories populated successfully",
-      count: categories.length,
-      categories: categoryData,
-    });
-  } catch (error) {
-    console.error("Error populating categories:", error);
-    res.status(500).json({ error: "Failed to populate categories" });
-  }
+      if (subCategory && subCategory !== "") {
+        categoryMap[category].add(subCategory);
+      }
+    }
+  });
+
+  // Convert to CategoryConfig format
+  const categories: CategoryConfig[] = Object.entries(categoryMap).map(
+    ([categoryName, subCategoriesSet], index) => {
+      // Clean up and deduplicate sub-categories
+      const subCategories = Array.from(subCategoriesSet)
+        .filter((sub) => sub && sub.trim() !== "")
+        .map((sub) => {
+          // Standardize common variations
+          if (sub.toLowerCase() === "misc") return "Misc";
+          if (sub.toLowerCase() === "plubming") return "Plumbing";
+          if (sub.toLowerCase() === "solar") return "Solar";
+          if (sub.toLowerCase() === "doors") return "Doors";
+          if (sub.toLowerCase() === "electric") return "Electric";
+          return sub;
+        })
+        .filter(
+          (sub, idx, arr) =>
+            arr.findIndex((s) => s.toLowerCase() === sub.toLowerCase()) ===
+            idx,
+        ) // Remove duplicates
+        .sort(); // Sort alphabetically
+
+      return {
+        id: (Date.now() + index).toString(),
+        name: categoryName,
+        subCategories: subCategories.length > 0 ? subCategories : ["General"],
+        createdAt: new Date().toISOString(),
+      };
+    },
+  );
+
+  // Sort categories alphabetically
+  categories.sort((a, b) => a.name.localeCompare(b.name));
+
+  const categoryData: CategoryManagementData = {
+    categories,
+    lastUpdated: new Date().toISOString(),
+  };
+
+  await writeCategories(farm, categoryData);
+
+  res.json({
+    message: "Categories populated successfully",
+    count: categories.length,
+    categories: categoryData,
+  });
 };
@@ -0,0 +1,49 @@
+import { RequestHandler } from "express";
+import { FarmRecord } from "@shared/farm-types";
+import storage from '../storage';
+import config from '../config';
+import logger from '../utils/errorLogger';
+import { userFarmIds } from '../middleware/farm';
+import { NotFoundError } from '../utils/errors';
+
+// GET /api/farms - Farms the caller belongs to (every farm when auth is disabled)
+export const getFarms: RequestHandler = async (req, res) => {
+  const farms = await storage.farms.list();
+  if (!config.features.auth) {
+    return res.json(farms);
+  }
+
+  const farmIds = await userFarmIds(req);
+  res.json(farms.filter(farm => farmIds.includes(farm.id)));
+};
+
+// POST /api/farms - Create a farm; the creator is added to it
+export const addFarm: RequestHandler = async (req, res) => {
+  const { name, location, notes }: FarmRecord = req.body;
+  const farm = await storage.farms.create({ name, location, notes });
+
+  if (req.user) {
+    const farmIds = await userFarmIds(req);
+    await storage.users.update(req.user.id, { farmIds: [...farmIds, farm.id] });
+  }
+
+  await logger.info(`Farm created: ${farm.name} (${farm.id})`, "farms.addFarm", undefined, req);
+  res.status(201).json(farm);
+};
+
+// PUT /api/farms/:id - Update farm details
+export const updateFarm: RequestHandler = async (req, res) => {
+  const { id } = req.params;
+  const { name, location, notes }: Partial<FarmRecord> = req.body;
+
+  if (config.features.auth && !(await userFarmIds(req)).includes(id)) {
+    throw new NotFoundError("Farm not found");
+  }
+
+  const farm = await storage.farms.update(id, { name, location, notes });
+  if (!farm) {
+    throw new NotFoundError("Farm not found");
+  }
+
+  res.json(farm);
+};
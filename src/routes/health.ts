@@ -0,0 +1,50 @@
+import { RequestHandler } from "express";
+import { HealthCheck, LivenessReport, ReadinessReport } from "@shared/health-types";
+import config from '../config';
+import storage from '../storage';
+import logger from '../utils/errorLogger';
+
+// A database that does not answer within this is reported as down
+const CHECK_TIMEOUT_MS = 5000;
+
+const checkStorage = (): Promise<HealthCheck[]> => {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<HealthCheck[]>(resolve => {
+    timer = setTimeout(
+      () => resolve([{ name: "storage", ok: false, error: `No response within ${CHECK_TIMEOUT_MS} ms` }]),
+      CHECK_TIMEOUT_MS,
+    );
+  });
+  const checks = storage.checkHealth().catch((error): HealthCheck[] => [
+    { name: "storage", ok: false, error: error instanceof Error ? error.message : String(error) },
+  ]);
+  return Promise.race([checks, timeout]).finally(() => clearTimeout(timer));
+};
+
+const liveness = (): LivenessReport => ({
+  status: "ok",
+  version: config.version,
+  build: config.build,
+  uptimeSeconds: Math.round(process.uptime()),
+});
+
+// GET /api/health/live - The process is up and serving requests
+export const getLiveness: RequestHandler = (_req, res) => {
+  res.json(liveness());
+};
+
+// GET /api/health/ready - Database, tables and log queue; 503 when any check fails
+export const getReadiness: RequestHandler = async (_req, res) => {
+  const checks = await checkStorage();
+  const queue = logger.queueStatus();
+
+  const storageOk = checks.every(check => check.ok);
+  const loggerOk = queue.spooled === 0;
+  const report: ReadinessReport = {
+    ...liveness(),
+    status: storageOk && loggerOk ? "ok" : "degraded",
+    storage: { backend: config.storage.backend, ok: storageOk, checks },
+    logger: { ok: loggerOk, ...queue },
+  };
+  res.status(report.status === "ok" ? 200 : 503).json(report);
+};
@@ -0,0 +1,55 @@
+import { RequestHandler } from "express";
+import { LogEntry, LogFilterQuery } from "@shared/log-types";
+import { ParsedLogListQuery, ParsedLogStatsQuery } from "@shared/log-schemas";
+import { ErrorLogEntry, ErrorLogFilter } from '../storage';
+import logger from '../utils/errorLogger';
+import { toPageWindow, toPaginatedResponse } from '../utils/pagination';
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// A date-only upper bound covers the whole day
+const toLogFilter = (query: LogFilterQuery): ErrorLogFilter => ({
+  level: query.level,
+  source: query.source,
+  search: query.search,
+  requestId: query.requestId,
+  userId: query.userId,
+  startDate: query.dateFrom,
+  endDate: query.dateTo && DATE_ONLY.test(query.dateTo) ? `${query.dateTo}T23:59:59.999Z` : query.dateTo,
+});
+
+// ErrorLogger stores details as a JSON string; it is returned parsed, and unset fields are omitted
+const toLogEntry = ({ id, details, userId, ipAddress, userAgent, requestId, ...entry }: ErrorLogEntry): LogEntry => {
+  let parsed = details ?? undefined;
+  if (typeof details === "string") {
+    try {
+      parsed = JSON.parse(details);
+    } catch {
+      // Not JSON; returned as logged
+    }
+  }
+  return {
+    ...entry,
+    id: id == null ? undefined : String(id),
+    details: parsed,
+    userId: userId ?? undefined,
+    ipAddress: ipAddress ?? undefined,
+    userAgent: userAgent ?? undefined,
+    requestId: requestId ?? undefined,
+  };
+};
+
+// GET /api/logs - Logged entries, newest first; always paginated
+export const getLogs: RequestHandler = async (req, res) => {
+  const query = req.query as unknown as ParsedLogListQuery;
+  const window = toPageWindow(query);
+
+  const result = await logger.getLogs({ ...toLogFilter(query), ...window });
+  res.json(toPaginatedResponse({ ...result, items: result.items.map(toLogEntry) }, window));
+};
+
+// GET /api/logs/stats - Entry counts by level, source and hour or day
+export const getLogStats: RequestHandler = async (req, res) => {
+  const query = req.query as unknown as ParsedLogStatsQuery;
+  res.json(await logger.getLogStats(toLogFilter(query), query.interval ?? "day"));
+};
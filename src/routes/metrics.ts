@@ -0,0 +1,7 @@
+import { RequestHandler } from "express";
+import { renderMetrics } from '../utils/metrics';
+
+// GET /api/metrics - Request counters and latency histograms in Prometheus text format
+export const getMetrics: RequestHandler = (_req, res) => {
+  res.type("text/plain; version=0.0.4").send(renderMetrics());
+};
@@ -1,321 +1,207 @@
-import { RequestHandler } from "express";
-import supabase from './supabaseClient';
+import { Request, RequestHandler, Response } from "express";
+import { Task } from "@shared/task-types";
+import { taskCreateSchema } from "@shared/task-schemas";
+import { Changes, TaskInput } from '../storage';
+import { farmStorage } from '../middleware/farm';
+import { recordAudit } from '../utils/audit';
+import { publishEvent } from '../utils/events';
+import { dispatchWebhook } from '../utils/webhooks';
+import { assertIfMatch, setETag } from '../utils/etags';
+import { toMergeChanges } from '../utils/mergePatch';
+import { assertFarmAnimals } from '../utils/animalRefs';
+import { NotFoundError } from '../utils/errors';
 
-interface Task {
-  id: string;
-  title: string;
-  description: string;
-  category: string;
-  taskType: string;
-  priority: "low" | "medium" | "high";
-  status: "pending" | "in-progress" | "completed";
-  dueDate: string;
-  assignedTo: string;
-  notes: string;
-  createdAt: string;
-  completedAt?: string;
-}
-
-// Helper function to read tasks from Supabase
-const readTasks = async (): Promise<Task[]> => {
-  try {
-    const { data: tasks, error } = await supabase
-      .from('tasks')
-      .select('*')
-      .order('id', { ascending: false });
+// GET /api/tasks - Get all tasks
+export const getTasks: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
+  const tasks = await farm.tasks.list();
+  res.json(tasks);
+};
 
-    if (error) {
-      console.error("Supabase error:", error);
-      return [];
-    }
+// GET /api/tasks/:id - One task, with its ETag for If-Match
+export const getTask: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
 
-    return tasks?.map(task => ({
-      id: task.id.toString(),
-      title: task.title,
-      description: task.description,
-      category: task.category,
-      taskType: task.taskType,
-      priority: task.priority,
-      status: task.status,
-      dueDate: task.dueDate,
-      assignedTo: task.assignedTo,
-      notes: task.notes,      
-      completedAt: task.completedAt,
-      createdAt: task.createdAt
-    })) || [];
-  } catch (error) {
-    console.error("Error reading tasks:", error);
-    return [];
+  const task = await farm.tasks.findById(req.params.id);
+  if (!task) {
+    throw new NotFoundError("Task not found");
   }
-};
 
-// GET /api/tasks - Get all tasks
-export const getTasks: RequestHandler = async (req, res) => {
-  try {
-    const tasks = await readTasks();
-    res.json(tasks);
-  } catch (error) {
-    console.error("Error getting tasks:", error);
-    res.status(500).json({ error: "Failed to fetch tasks" });
-  }
+  setETag(res, task);
+  res.json(task);
 };
 
 // POST /api/tasks - Add new task
 export const addTask: RequestHandler = async (req, res) => {
-  try {
-    const newTask: Task = req.body;
+  const farm = farmStorage(req);
+  const newTask: Task = req.body;
+
+  const taskData: TaskInput = {
+    title: newTask.title,
+    description: newTask.description,
+    category: newTask.category,
+    taskType: newTask.taskType,
+    priority: newTask.priority || "medium",
+    status: newTask.status || "pending",
+    dueDate: newTask.dueDate,
+    assignedTo: newTask.assignedTo,
+    notes: newTask.notes,
+    animalId: newTask.animalId
+  };
+
+  await assertFarmAnimals(farm, { animalId: taskData.animalId });
+  const task = await farm.tasks.create(taskData);
+  await recordAudit(farm, "task", "create", { after: task });
+  res.status(201).json(task);
+};
 
-    // Validate required fields
-    if (!newTask.title || !newTask.dueDate || !newTask.assignedTo) {
-      return res.status(400).json({ error: "Missing required fields" });
-    }
+const today = () => new Date().toISOString().split("T")[0];
 
-    // Prepare task data for Supabase
-    const taskData = {
-      title: newTask.title,
-      description: newTask.description,
-      category: newTask.category,
-      taskType: newTask.taskType,
-      priority: newTask.priority || "medium",
-      status: newTask.status || "pending",
-      dueDate: newTask.dueDate,
-      assignedTo: newTask.assignedTo,
-      notes: newTask.notes
-    };
+/**
+ * Applies the changes `changesFor` derives from the stored task, after
+ * checking If-Match against it, then audits, notifies and responds with the
+ * updated task. Shared by PUT and PATCH.
+ */
+const changeTask = async (req: Request, res: Response, changesFor: (before: Task) => Changes<TaskInput>) => {
+  const farm = farmStorage(req);
 
-    const { data, error } = await supabase
-      .from('tasks')
-      .insert([taskData])
-      .select()
-      .single();
+  const before = await farm.tasks.findById(req.params.id);
+  if (!before) {
+    throw new NotFoundError("Task not found");
+  }
+  assertIfMatch(req, res, before);
 
-    if (error) {
-      console.error("Supabase insert error:", error);
-      throw error;
-    }
+  const changes = changesFor(before);
+  await assertFarmAnimals(farm, { animalId: changes.animalId });
 
-    // Transform back to expected format
-    const returnTask = {
-      id: data.id.toString(),
-      title: data.title,
-      description: data.description,
-      category: data.category,
-      taskType: data.taskType,
-      priority: data.priority,
-      status: data.status,
-      dueDate: data.dueDate,
-      assignedTo: data.assignedTo,
-      notes: data.notes,
-      completedAt: data.completedAt,
-      createdAt: data.createdAt
-    };
+  const task = await farm.tasks.update(before.id, changes);
+  if (!task) {
+    throw new NotFoundError("Task not found");
+  }
 
-    res.status(201).json(returnTask);
-  } catch (error) {
-    console.error("Error adding task:", error);
-    res.status(500).json({ error: "Failed to add task" });
+  await recordAudit(farm, "task", "update", { before, after: task });
+  if (task.status !== before.status) {
+    publishEvent(farm, "task.statusChanged", { task, previousStatus: before.status });
+    if (task.status === "completed") {
+      await dispatchWebhook(farm, "task.completed", { task, previousStatus: before.status });
+    }
   }
+  setETag(res, task);
+  res.json(task);
 };
 
 // PUT /api/tasks/:id - Update existing task
 export const updateTask: RequestHandler = async (req, res) => {
-  try {
-    const { id } = req.params;
-    const updatedTask: Task = req.body;
-
-    // Prepare update data
-    const updateData: any = {
-      title: updatedTask.title,
-      description: updatedTask.description,
-      category: updatedTask.category,
-      taskType: updatedTask.taskType,
-      priority: updatedTask.priority,
-      status: updatedTask.status,
-      dueDate: updatedTask.dueDate,
-      assignedTo: updatedTask.assignedTo,
-      notes: updatedTask.notes
-    };
-
-    // If status is being changed to completed, set completedAt
-    if (updatedTask.status === "completed") {
-      updateData.completedAt = new Date().toISOString().split("T")[0];
-    }
+  const updatedTask: Task = req.body;
+
+  // Prepare update data
+  const updateData: Partial<TaskInput> = {
+    title: updatedTask.title,
+    description: updatedTask.description,
+    category: updatedTask.category,
+    taskType: updatedTask.taskType,
+    priority: updatedTask.priority,
+    status: updatedTask.status,
+    dueDate: updatedTask.dueDate,
+    assignedTo: updatedTask.assignedTo,
+    notes: updatedTask.notes,
+    animalId: updatedTask.animalId
+  };
+
+  // If status is being changed to completed, set completedAt
+  if (updatedTask.status === "completed") {
+    updateData.completedAt = today();
+  }
 
-    const { data, error } = await supabase
-      .from('tasks')
-      .update(updateData)
-      .eq('id', parseInt(id))
-      .select()
-      .single();
+  await changeTask(req, res, () => updateData);
+};
 
-    if (error) {
-      if (error.code === 'PGRST116') {
-        return res.status(404).json({ error: "Task not found" });
-      }
-      console.error("Supabase update error:", error);
-      throw error;
+// PATCH /api/tasks/:id - Change only the fields sent (JSON Merge Patch); null clears a field
+export const patchTask: RequestHandler = (req, res) =>
+  changeTask(req, res, before => {
+    const changes = toMergeChanges(before, req.body, taskCreateSchema);
+    // Completing a task stamps completedAt unless the patch sets it
+    if (changes.status === "completed" && before.status !== "completed" && changes.completedAt === undefined) {
+      changes.completedAt = today();
     }
-
-    // Transform back to expected format
-    const returnTask = {
-      id: data.id.toString(),
-      title: data.title,
-      description: data.description,
-      category: data.category,
-      taskType: data.taskType,
-      priority: data.priority,
-      status: data.status,
-      dueDate: data.dueDate,
-      assignedTo: data.assignedTo,
-      notes: data.notes,
-      completedAt: data.completedAt,
-      createdAt: data.createdAt
-    };
-
-    res.json(returnTask);
-  } catch (error) {
-    console.error("Error updating task:", error);
-    res.status(500).json({ error: "Failed to update task" });
-  }
-};
+    return changes;
+  });
 
 // DELETE /api/tasks/:id - Delete task
 export const deleteTask: RequestHandler = async (req, res) => {
-  try {
-    const { id } = req.params;
-
-    const { data, error } = await supabase
-      .from('tasks')
-      .delete()
-      .eq('id', parseInt(id))
-      .select()
-      .single();
-
-    if (error) {
-      if (error.code === 'PGRST116') {
-        return res.status(404).json({ error: "Task not found" });
-      }
-      console.error("Supabase delete error:", error);
-      throw error;
-    }
-
-    // Transform deleted task to expected format
-    const deletedTask = {
-      id: data.id.toString(),
-      title: data.title,
-      description: data.description,
-      category: data.category,
-      taskType: data.taskType,
-      priority: data.priority,
-      status: data.status,
-      dueDate: data.dueDate,
-      assignedTo: data.assignedTo,
-      notes: data.notes,
-      completedAt: data.completedAt,
-      createdAt: data.createdAt
-    };
+  const farm = farmStorage(req);
+  const { id } = req.params;
 
-    res.json({
-      message: "Task deleted successfully",
-      deletedTask: deletedTask,
-    });
-  } catch (error) {
-    console.error("Error deleting task:", error);
-    res.status(500).json({ error: "Failed to delete task" });
+  const deletedTask = await farm.tasks.delete(id);
+  if (!deletedTask) {
+    throw new NotFoundError("Task not found");
   }
+
+  await recordAudit(farm, "task", "delete", { before: deletedTask });
+  res.json({
+    message: "Task deleted successfully",
+    deletedTask: deletedTask,
+  });
 };
 
 // POST /api/tasks/bulk-delete - Delete multiple tasks
 export const bulkDeleteTasks: RequestHandler = async (req, res) => {
-  try {
-    const { ids }: { ids: string[] } = req.body;
+  const farm = farmStorage(req);
+  const { ids }: { ids: string[] } = req.body;
 
-    if (!Array.isArray(ids)) {
-      return res.status(400).json({ error: "Expected array of IDs" });
-    }
-
-    // Convert string IDs to integers
-    const numericIds = ids.map(id => parseInt(id));
-
-    const { data, error } = await supabase
-      .from('tasks')
-      .delete()
-      .in('id', numericIds)
-      .select();
-
-    if (error) {
-      console.error("Supabase bulk delete error:", error);
-      throw error;
-    }
+  const deleted = await farm.tasks.deleteMany(ids);
+  await recordAudit(farm, "task", "delete", ...deleted.map(before => ({ before })));
 
-    res.json({
-      message: "Tasks deleted successfully",
-      deletedCount: data?.length || 0,
-    });
-  } catch (error) {
-    console.error("Error bulk deleting tasks:", error);
-    res.status(500).json({ error: "Failed to delete tasks" });
-  }
+  res.json({
+    message: "Tasks deleted successfully",
+    deletedCount: deleted.length,
+  });
 };
 
 // GET /api/tasks/backup - Create backup of tasks
 export const backupTasks: RequestHandler = async (req, res) => {
-  try {
-    const tasks = await readTasks();
-    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-    const backupFileName = `tasks-backup-${timestamp}.json`;
-
-    res.setHeader("Content-Type", "application/json");
-    res.setHeader(
-      "Content-Disposition",
-      `attachment; filename="${backupFileName}"`,
-    );
-    res.json(tasks);
-  } catch (error) {
-    console.error("Error creating backup:", error);
-    res.status(500).json({ error: "Failed to create backup" });
-  }
+  const farm = farmStorage(req);
+  const tasks = await farm.tasks.list();
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const backupFileName = `tasks-backup-${timestamp}.json`;
+
+  res.setHeader("Content-Type", "application/json");
+  res.setHeader(
+    "Content-Disposition",
+    `attachment; filename="${backupFileName}"`,
+  );
+  res.json(tasks);
 };
 
 // POST /api/tasks/import - Import multiple tasks
 export const importTasks: RequestHandler = async (req, res) => {
-  try {
-    const importedTasks: Task[] = req.body;
-
-    if (!Array.isArray(importedTasks)) {
-      return res.status(400).json({ error: "Expected array of tasks" });
-    }
-
-    // Prepare tasks data for Supabase
-    const tasksData = importedTasks.map(task => ({
-      title: task.title,
-      description: task.description,
-      category: task.category,
-      taskType: task.taskType,
-      priority: task.priority || "medium",
-      status: task.status || "pending",
-      dueDate: task.dueDate,
-      assignedTo: task.assignedTo,
-      notes: task.notes,
-      completedAt: task.completedAt
-    }));
-
-    const { data, error } = await supabase
-      .from('tasks')
-      .insert(tasksData)
-      .select();
-
-    if (error) {
-      console.error("Supabase import error:", error);
-      throw error;
-    }
-
-    res.json({
-      message: "Tasks imported successfully",
-      count: data?.length || 0,
-    });
-  } catch (error) {
-    console.error("Error importing tasks:", error);
-    res.status(500).json({ error: "Failed to import tasks" });
-  }
+  const farm = farmStorage(req);
+  const importedTasks: Task[] = req.body;
+
+  const tasksData: TaskInput[] = importedTasks.map(task => ({
+    title: task.title,
+    description: task.description,
+    category: task.category,
+    taskType: task.taskType,
+    priority: task.priority || "medium",
+    status: task.status || "pending",
+    dueDate: task.dueDate,
+    assignedTo: task.assignedTo,
+    notes: task.notes,
+    animalId: task.animalId,
+    completedAt: task.completedAt
+  }));
+
+  await assertFarmAnimals(
+    farm,
+    Object.fromEntries(tasksData.map((task, index) => [`${index}.animalId`, task.animalId]))
+  );
+
+  const tasks = await farm.tasks.createMany(tasksData);
+  await recordAudit(farm, "task", "import", ...tasks.map(after => ({ after })));
+
+  res.json({
+    message: "Tasks imported successfully",
+    count: tasks.length,
+  });
 };
@@ -0,0 +1,99 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { TestApi, goat, setupOwner, startApi } from '../test/api';
+
+describe('animal timeline', () => {
+  let api: TestApi;
+  let token: string;
+
+  const create = async (overrides: Record<string, unknown> = {}) =>
+    (await api.request('POST', '/animals', { token, body: goat(overrides) })).body;
+
+  const timeline = async (id: string, query = '') =>
+    (await api.request('GET', `/animals/${id}/timeline${query}`, { token })).body;
+
+  const typesOf = (page: { data: { type: string }[] }) => page.data.map(event => event.type);
+
+  beforeAll(async () => {
+    api = await startApi();
+    token = await setupOwner(api);
+  });
+
+  afterAll(() => api.close());
+
+  it('merges the animal, its records and its tasks, latest first', async () => {
+    const animal = await create({ dateOfBirth: '2024-01-15', purchaseDate: '2024-03-01' });
+    await api.request('POST', '/weight-records', { token, body: { animalId: animal.id, weight: 20, date: '2024-06-01' } });
+    await api.request('POST', '/tasks', {
+      token,
+      body: { title: 'Deworm', dueDate: '2024-09-01', assignedTo: 'Sam', animalId: animal.id },
+    });
+
+    const page = await timeline(animal.id);
+    expect(typesOf(page)).toEqual(['task', 'weight', 'purchase', 'birth']);
+    expect(page.data[0]).toMatchObject({ date: '2024-09-01', title: 'Deworm' });
+    expect(page.total).toBe(4);
+  });
+
+  it('pages, filters by type and date and sorts oldest first on request', async () => {
+    const animal = await create();
+    for (const [index, date] of ['2025-01-01', '2025-02-01', '2025-03-01', '2025-04-01', '2025-05-01'].entries()) {
+      await api.request('POST', '/weight-records', { token, body: { animalId: animal.id, weight: 20 + index, date } });
+    }
+    await api.request('POST', '/health-records', {
+      token,
+      body: { animalId: animal.id, recordType: 'checkup', date: '2025-02-15', description: 'Routine' },
+    });
+
+    const first = await timeline(animal.id, '?type=weight&pageSize=2&sortOrder=asc');
+    expect(first).toMatchObject({ total: 5, page: 1, pageSize: 2, totalPages: 3 });
+    expect(first.data.map((event: { date: string }) => event.date)).toEqual(['2025-01-01', '2025-02-01']);
+
+    const next = await timeline(animal.id, `?type=weight&pageSize=2&sortOrder=asc&cursor=${first.nextCursor}`);
+    expect(next.data.map((event: { date: string }) => event.date)).toEqual(['2025-03-01', '2025-04-01']);
+
+    const last = await timeline(animal.id, '?type=weight&pageSize=2&page=3');
+    expect(last.data.map((event: { date: string }) => event.date)).toEqual(['2025-01-01']);
+    expect(last.nextCursor).toBeUndefined();
+
+    const window = await timeline(animal.id, '?dateFrom=2025-02-01&dateTo=2025-03-01');
+    expect(typesOf(window)).toEqual(['weight', 'health', 'weight']);
+  });
+
+  it('rejects unknown types and reversed date ranges', async () => {
+    const animal = await create();
+    expect((await api.request('GET', `/animals/${animal.id}/timeline?type=party`, { token })).status).toBe(400);
+    expect(
+      (await api.request('GET', `/animals/${animal.id}/timeline?dateFrom=2025-02-01&dateTo=2025-01-01`, { token })).status,
+    ).toBe(400);
+  });
+
+  it('has a death event for an animal created dead', async () => {
+    const animal = await create({ status: 'dead', deathDate: '2025-03-20', deathCause: 'Bloat' });
+
+    const page = await timeline(animal.id, '?type=death');
+    expect(page.data).toMatchObject([{ id: `death:${animal.id}`, date: '2025-03-20', title: 'Died: Bloat' }]);
+  });
+
+  it('has a death event once an animal is marked dead, dated today without a date', async () => {
+    const animal = await create();
+    const patched = await api.request('PATCH', `/animals/${animal.id}`, {
+      token,
+      body: { status: 'dead' },
+      headers: { 'Content-Type': 'application/merge-patch+json' },
+    });
+    const today = new Date().toISOString().slice(0, 10);
+    expect(patched.body.deathDate).toBe(today);
+
+    const page = await timeline(animal.id, '?type=death');
+    expect(page.data).toMatchObject([{ type: 'death', date: today, title: 'Died' }]);
+  });
+
+  it('has a sale event once an animal is sold', async () => {
+    const animal = await create();
+    const body = { ...animal, status: 'sold', saleDate: '2025-06-01', buyerName: 'Hill Farm', salePrice: 250 };
+    expect((await api.request('PUT', `/animals/${animal.id}`, { token, body })).status).toBe(200);
+
+    const page = await timeline(animal.id, '?type=sale,death');
+    expect(page.data).toMatchObject([{ type: 'sale', date: '2025-06-01', title: 'Sold to Hill Farm' }]);
+  });
+});
@@ -0,0 +1,125 @@
+import { RequestHandler } from "express";
+import { AnimalRecord } from "@shared/animal-types";
+import { AnimalTimelineEvent, AnimalTimelineEventType } from "@shared/timeline-types";
+import { ParsedAnimalTimelineQuery } from "@shared/timeline-schemas";
+import { FarmStorage } from '../storage';
+import { farmStorage } from '../middleware/farm';
+import { toPageWindow, toPaginatedResponse } from '../utils/pagination';
+import { NotFoundError } from '../utils/errors';
+
+// Same-day events keep the order of a life: arrival first, departure last
+const TYPE_ORDER: AnimalTimelineEventType[] = [
+  "birth",
+  "purchase",
+  "breeding",
+  "kidding",
+  "weight",
+  "vaccination",
+  "health",
+  "task",
+  "sale",
+  "death",
+];
+
+// Stored dates may carry a time component
+const day = (date: string) => date.slice(0, 10);
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+const lifeEvents = (animal: AnimalRecord): AnimalTimelineEvent[] => {
+  const events: AnimalTimelineEvent[] = [];
+  const add = (type: "purchase" | "birth" | "sale" | "death", date: string | undefined, title: string) => {
+    if (date) events.push({ id: `${type}:${animal.id}`, type, date: day(date), title, record: animal });
+  };
+
+  add("birth", animal.dateOfBirth, "Born");
+  add("purchase", animal.purchaseDate, animal.previousOwner ? `Bought from ${animal.previousOwner}` : "Bought");
+  add("sale", animal.saleDate, animal.buyerName ? `Sold to ${animal.buyerName}` : "Sold");
+  add("death", animal.deathDate, animal.deathCause ? `Died: ${animal.deathCause}` : "Died");
+  return events;
+};
+
+/**
+ * Every event in an animal's history, unsorted: its purchase, birth, sale and
+ * death dates, weigh-ins, vaccinations, health records, breedings and
+ * kiddings (as dam or sire) and the tasks linked to it.
+ */
+const readTimeline = async (farm: FarmStorage, animal: AnimalRecord): Promise<AnimalTimelineEvent[]> => {
+  const events = lifeEvents(animal);
+
+  for (const record of await farm.weightRecords.list(animal.id)) {
+    events.push({ id: `weight:${record.id}`, type: "weight", date: day(record.date), title: `Weighed ${record.weight} kg`, record });
+  }
+
+  for (const record of await farm.vaccinationRecords.list(animal.id)) {
+    events.push({
+      id: `vaccination:${record.id}`,
+      type: "vaccination",
+      date: day(record.administrationDate),
+      title: `Vaccinated: ${record.vaccineName}`,
+      record,
+    });
+  }
+
+  for (const record of await farm.healthRecords.list(animal.id)) {
+    events.push({
+      id: `health:${record.id}`,
+      type: "health",
+      date: day(record.date),
+      title: `${record.recordType.charAt(0).toUpperCase()}${record.recordType.slice(1)}: ${record.description}`,
+      record,
+    });
+  }
+
+  for (const record of await farm.breedingRecords.list(animal.id)) {
+    const role = record.motherId === animal.id ? "dam" : "sire";
+    events.push({ id: `breeding:${record.id}`, type: "breeding", date: day(record.breedingDate), title: `Bred as ${role}`, record });
+    if (record.actualDeliveryDate) {
+      const kids = record.totalKids ?? record.kidDetails?.length;
+      events.push({
+        id: `kidding:${record.id}`,
+        type: "kidding",
+        date: day(record.actualDeliveryDate),
+        title: kids === undefined ? "Kidded" : `Kidded ${plural(kids, "kid")}`,
+        record,
+      });
+    }
+  }
+
+  // Completed tasks are dated by completion, open ones by their due date
+  for (const task of await farm.tasks.list()) {
+    if (task.animalId !== animal.id) continue;
+    const date = task.status === "completed" && task.completedAt ? task.completedAt : task.dueDate;
+    events.push({ id: `task:${task.id}`, type: "task", date: day(date), title: task.title, record: task });
+  }
+
+  return events;
+};
+
+// GET /api/animals/:id/timeline - The animal's history as dated, typed events; always paginated
+export const getAnimalTimeline: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
+  const query = req.query as unknown as ParsedAnimalTimelineQuery;
+
+  const animal = await farm.animals.findById(req.params.id);
+  if (!animal) {
+    throw new NotFoundError("Animal not found");
+  }
+
+  const events = (await readTimeline(farm, animal))
+    .filter(event =>
+      (!query.type || query.type.includes(event.type)) &&
+      (!query.dateFrom || event.date >= day(query.dateFrom)) &&
+      (!query.dateTo || event.date <= day(query.dateTo)))
+    .sort((a, b) =>
+      a.date.localeCompare(b.date) ||
+      TYPE_ORDER.indexOf(a.type) - TYPE_ORDER.indexOf(b.type) ||
+      a.id.localeCompare(b.id, undefined, { numeric: true }));
+  if (query.sortOrder === "desc") events.reverse();
+
+  const window = toPageWindow(query);
+  res.json(toPaginatedResponse(
+    { items: events.slice(window.offset, window.offset + window.limit), total: events.length },
+    window,
+  ));
+};
@@ -0,0 +1,83 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import storage from '../storage';
+import { TestApi, addUser, goat, setupOwner, startApi } from '../test/api';
+
+describe('trash', () => {
+  let api: TestApi;
+  let token: string;
+
+  beforeAll(async () => {
+    api = await startApi();
+    token = await setupOwner(api);
+  });
+
+  afterAll(() => api.close());
+
+  it('lists a deleted animal, without its records, and restores it with them', async () => {
+    const animal = (await api.request('POST', '/animals', { token, body: goat() })).body;
+    await api.request('POST', '/weight-records', { token, body: { animalId: animal.id, weight: 30, date: '2025-01-01' } });
+
+    expect((await api.request('DELETE', `/animals/${animal.id}`, { token })).status).toBe(200);
+    expect((await api.request('GET', `/animals/${animal.id}`, { token })).status).toBe(404);
+    expect((await api.request('GET', `/weight-records?animalId=${animal.id}`, { token })).body).toEqual([]);
+
+    const trash = await api.request('GET', '/trash', { token });
+    expect(trash.body).toMatchObject([{ type: 'animal', id: animal.id, label: 'Bella' }]);
+    expect(trash.body[0].purgeAt).toBeDefined();
+
+    const restored = await api.request('POST', `/trash/animal/${animal.id}/restore`, { token });
+    expect(restored.status).toBe(200);
+    expect((await api.request('GET', `/animals/${animal.id}`, { token })).status).toBe(200);
+    expect((await api.request('GET', `/weight-records?animalId=${animal.id}`, { token })).body).toHaveLength(1);
+    expect((await api.request('GET', '/trash', { token })).body).toEqual([]);
+  });
+
+  it('only restores items that are in the trash', async () => {
+    const animal = (await api.request('POST', '/animals', { token, body: goat({ name: 'Max' }) })).body;
+    expect((await api.request('POST', `/trash/animal/${animal.id}/restore`, { token })).status).toBe(404);
+    expect((await api.request('POST', `/trash/unicorn/${animal.id}/restore`, { token })).status).toBe(400);
+  });
+
+  it('needs the delete permission of the item to restore it', async () => {
+    const worker = await addUser(api, token, 'worker');
+    const task = (
+      await api.request('POST', '/tasks', { token, body: { title: 'Feed', dueDate: '2025-01-01', assignedTo: 'Sam' } })
+    ).body;
+    const animal = (await api.request('POST', '/animals', { token, body: goat({ name: 'Daisy' }) })).body;
+    expect((await api.request('DELETE', `/tasks/${task.id}`, { token })).status).toBe(200);
+    expect((await api.request('DELETE', `/animals/${animal.id}`, { token })).status).toBe(200);
+
+    expect((await api.request('POST', `/trash/animal/${animal.id}/restore`, { token: worker.token })).status).toBe(403);
+    expect((await api.request('POST', `/trash/task/${task.id}/restore`, { token: worker.token })).status).toBe(403);
+  });
+
+  it("keeps a trashed sire's breedings live and linked until the sire is purged", async () => {
+    const dam = (await api.request('POST', '/animals', { token, body: goat({ name: 'Luna' }) })).body;
+    const sire = (await api.request('POST', '/animals', { token, body: goat({ name: 'Bruno', gender: 'male' }) })).body;
+    const breeding = (
+      await api.request('POST', '/breeding-records', {
+        token,
+        body: { motherId: dam.id, fatherId: sire.id, breedingDate: '2025-01-01', breedingMethod: 'natural' },
+      })
+    ).body;
+    const task = (
+      await api.request('POST', '/tasks', {
+        token,
+        body: { title: 'Check hooves', dueDate: '2025-01-01', assignedTo: 'Sam', animalId: sire.id },
+      })
+    ).body;
+
+    expect((await api.request('DELETE', `/animals/${sire.id}`, { token })).status).toBe(200);
+    expect((await api.request('GET', `/breeding-records/${breeding.id}`, { token })).body.fatherId).toBe(sire.id);
+    const trash = (await api.request('GET', '/trash?type=breedingRecord', { token })).body;
+    expect(trash.map((item: { id: string }) => item.id)).not.toContain(breeding.id);
+
+    expect((await api.request('POST', `/trash/animal/${sire.id}/restore`, { token })).status).toBe(200);
+    expect((await api.request('GET', `/breeding-records/${breeding.id}`, { token })).body.fatherId).toBe(sire.id);
+
+    expect((await api.request('DELETE', `/animals/${sire.id}`, { token })).status).toBe(200);
+    await storage.purgeDeleted(new Date(Date.now() + 1000).toISOString());
+    expect((await api.request('GET', `/breeding-records/${breeding.id}`, { token })).body.fatherId).toBeUndefined();
+    expect((await api.request('GET', `/tasks/${task.id}`, { token })).body.animalId).toBeUndefined();
+  });
+});
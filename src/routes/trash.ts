@@ -0,0 +1,137 @@
+import { Request, RequestHandler } from "express";
+import { Permission, hasPermission } from "@shared/auth-types";
+import { TrashEntity, TrashItem } from "@shared/trash-types";
+import { ParsedTrashListQuery, trashEntitySchema } from "@shared/trash-schemas";
+import { FarmStorage, Trashed } from '../storage';
+import config from '../config';
+import { farmStorage } from '../middleware/farm';
+import { recordAudit } from '../utils/audit';
+import { ForbiddenError, NotFoundError, ValidationError } from '../utils/errors';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Seeing an item in the trash needs its read permission; restoring it needs delete
+const TRASH_PERMISSIONS: Record<TrashEntity, { read: Permission; restore: Permission }> = {
+  animal: { read: "animals:read", restore: "animals:delete" },
+  weightRecord: { read: "records:read", restore: "records:delete" },
+  breedingRecord: { read: "records:read", restore: "records:delete" },
+  vaccinationRecord: { read: "records:read", restore: "records:delete" },
+  healthRecord: { read: "records:read", restore: "records:delete" },
+  task: { read: "tasks:read", restore: "tasks:delete" },
+  expense: { read: "expenses:read", restore: "expenses:delete" },
+};
+
+const mayAccess = (req: Request, permission: Permission) =>
+  !config.features.auth || (!!req.user && hasPermission(req.user.role, permission));
+
+const toTrashItem = <T extends TrashItem["record"]>(
+  type: TrashEntity,
+  { deletedAt, ...record }: Trashed<T>,
+  label: string,
+): TrashItem => ({
+  type,
+  id: record.id,
+  label,
+  deletedAt,
+  purgeAt: config.trash.retentionDays > 0
+    ? new Date(new Date(deletedAt).getTime() + config.trash.retentionDays * DAY_MS).toISOString()
+    : undefined,
+  record: record as unknown as T,
+});
+
+const ANIMAL_RECORD_TYPES: TrashEntity[] = ["weightRecord", "breedingRecord", "vaccinationRecord", "healthRecord"];
+
+// Records deleted along with their animal come back with it, so they are not listed on their own
+const withoutTrashedAnimals = async <T>(
+  farm: FarmStorage,
+  records: Trashed<T>[],
+  animalIdOf: (record: T) => string,
+): Promise<Trashed<T>[]> => {
+  const trashedAnimalIds = new Set((await farm.animals.listDeleted()).map(animal => animal.id));
+  return records.filter(record => !trashedAnimalIds.has(animalIdOf(record)));
+};
+
+const readTrash = async (farm: FarmStorage, type: TrashEntity): Promise<TrashItem[]> => {
+  switch (type) {
+    case "animal":
+      return (await farm.animals.listDeleted()).map(animal => toTrashItem(type, animal, animal.name));
+    case "weightRecord":
+      return (await withoutTrashedAnimals(farm, await farm.weightRecords.listDeleted(), record => record.animalId))
+        .map(record => toTrashItem(type, record, `Weight ${record.weight} on ${record.date}`));
+    case "breedingRecord":
+      // Only the mother takes breedings into the trash; a trashed sire leaves them live and listed on their own
+      return (await withoutTrashedAnimals(farm, await farm.breedingRecords.listDeleted(), record => record.motherId))
+        .map(record => toTrashItem(type, record, `Breeding on ${record.breedingDate}`));
+    case "vaccinationRecord":
+      return (await withoutTrashedAnimals(farm, await farm.vaccinationRecords.listDeleted(), record => record.animalId))
+        .map(record => toTrashItem(type, record, `${record.vaccineName} on ${record.administrationDate}`));
+    case "healthRecord":
+      return (await withoutTrashedAnimals(farm, await farm.healthRecords.listDeleted(), record => record.animalId))
+        .map(record => toTrashItem(type, record, record.description));
+    case "task":
+      return (await farm.tasks.listDeleted()).map(task => toTrashItem(type, task, task.title));
+    case "expense":
+      return (await farm.expenses.listDeleted()).map(expense => toTrashItem(type, expense, expense.description));
+  }
+};
+
+const restoreFromTrash = (farm: FarmStorage, type: TrashEntity, id: string) => {
+  switch (type) {
+    case "animal":
+      return farm.animals.restore(id);
+    case "weightRecord":
+      return farm.weightRecords.restore(id);
+    case "breedingRecord":
+      return farm.breedingRecords.restore(id);
+    case "vaccinationRecord":
+      return farm.vaccinationRecords.restore(id);
+    case "healthRecord":
+      return farm.healthRecords.restore(id);
+    case "task":
+      return farm.tasks.restore(id);
+    case "expense":
+      return farm.expenses.restore(id);
+  }
+};
+
+// GET /api/trash - Deleted animals, records, tasks and expenses the caller may see, most recent first
+export const getTrash: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
+  const { type } = req.query as unknown as ParsedTrashListQuery;
+
+  if (type && !mayAccess(req, TRASH_PERMISSIONS[type].read)) {
+    throw new ForbiddenError("Insufficient permissions", { required: TRASH_PERMISSIONS[type].read });
+  }
+
+  const types = type ? [type] : trashEntitySchema.options.filter(entity => mayAccess(req, TRASH_PERMISSIONS[entity].read));
+  const items: TrashItem[] = [];
+  for (const entity of types) {
+    items.push(...(await readTrash(farm, entity)));
+  }
+
+  res.json(items.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt)));
+};
+
+// POST /api/trash/:type/:id/restore - Move an item out of the trash
+export const restoreTrashItem: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
+  const parsedType = trashEntitySchema.safeParse(req.params.type);
+  if (!parsedType.success) {
+    throw new ValidationError("Unknown trash type", { types: trashEntitySchema.options });
+  }
+
+  const type = parsedType.data;
+  if (!mayAccess(req, TRASH_PERMISSIONS[type].restore)) {
+    throw new ForbiddenError("Insufficient permissions", { required: TRASH_PERMISSIONS[type].restore });
+  }
+
+  // Only records listed in the trash can be restored on their own; the rest come back with their animal
+  const listed = !ANIMAL_RECORD_TYPES.includes(type) || (await readTrash(farm, type)).some(item => item.id === req.params.id);
+  const record = listed && await restoreFromTrash(farm, type, req.params.id);
+  if (!record) {
+    throw new NotFoundError("Item not found in trash");
+  }
+
+  await recordAudit(farm, type, "restore", { after: record });
+  res.json(record);
+};
@@ -0,0 +1,93 @@
+import { RequestHandler } from "express";
+import storage, { UserInput } from '../storage';
+import logger from '../utils/errorLogger';
+import { hashPassword } from '../utils/passwords';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+
+// Prevents leaving the farm without anyone able to manage users
+const isLastOwner = async (id: string): Promise<boolean> => {
+  const owners = (await storage.users.list()).filter(user => user.role === "owner");
+  return owners.length === 1 && owners[0].id === id;
+};
+
+// Farm ids in `farmIds` that do not exist
+const unknownFarmIds = async (farmIds: string[]): Promise<string[]> => {
+  const known = (await storage.farms.list()).map(farm => farm.id);
+  return farmIds.filter(farmId => !known.includes(farmId));
+};
+
+// GET /api/users - List users
+export const getUsers: RequestHandler = async (req, res) => {
+  res.json(await storage.users.list());
+};
+
+// POST /api/users - Create user
+export const addUser: RequestHandler = async (req, res) => {
+  const { username, name, role, farmIds, password } = req.body;
+
+  if (await storage.users.findByUsername(username)) {
+    throw new ConflictError("Username already exists");
+  }
+
+  const unknown = await unknownFarmIds(farmIds);
+  if (unknown.length > 0) {
+    throw new ValidationError("Unknown farm", { farmIds: unknown });
+  }
+
+  const user = await storage.users.create({
+    username,
+    name,
+    role,
+    farmIds,
+    passwordHash: await hashPassword(password),
+  });
+
+  await logger.info(`User created: ${user.username} (${user.role})`, "users.addUser", undefined, req);
+  res.status(201).json(user);
+};
+
+// PUT /api/users/:id - Update name, role, farms or password
+export const updateUser: RequestHandler = async (req, res) => {
+  const { id } = req.params;
+  const { name, role, farmIds, password } = req.body;
+
+  if (role && role !== "owner" && (await isLastOwner(id))) {
+    throw new ConflictError("Cannot change the role of the last owner");
+  }
+
+  if (farmIds) {
+    const unknown = await unknownFarmIds(farmIds);
+    if (unknown.length > 0) {
+      throw new ValidationError("Unknown farm", { farmIds: unknown });
+    }
+  }
+
+  const updateData: Partial<UserInput> = { name, role, farmIds };
+  if (password) {
+    updateData.passwordHash = await hashPassword(password);
+  }
+
+  const user = await storage.users.update(id, updateData);
+  if (!user) {
+    throw new NotFoundError("User not found");
+  }
+
+  res.json(user);
+};
+
+// DELETE /api/users/:id - Delete user
+export const deleteUser: RequestHandler = async (req, res) => {
+  const { id } = req.params;
+
+  if (await isLastOwner(id)) {
+    throw new ConflictError("Cannot delete the last owner");
+  }
+
+  const user = await storage.users.delete(id);
+  if (!user) {
+    throw new NotFoundError("User not found");
+  }
+
+  await logger.info(`User deleted: ${user.username}`, "users.deleteUser", undefined, req);
+  res.json({ message: "User deleted successfully" });
+};
@@ -0,0 +1,104 @@
+import { RequestHandler } from "express";
+import { randomBytes } from "crypto";
+import { CreatedWebhookSubscription, WebhookCreateRequest, WebhookUpdateRequest } from "@shared/webhook-types";
+import { ParsedWebhookDeliveryListQuery } from "@shared/webhook-schemas";
+import { StoredWebhook } from '../storage';
+import { farmStorage } from '../middleware/farm';
+import logger from '../utils/errorLogger';
+import { NotFoundError } from '../utils/errors';
+import { toPageWindow, toPaginatedResponse } from '../utils/pagination';
+import { redeliver } from '../utils/webhooks';
+
+// The secret is shown once, when the subscription is created
+const withoutSecret = ({ secret, ...webhook }: StoredWebhook) => webhook;
+
+// GET /api/webhooks - List the farm's webhook subscriptions
+export const getWebhooks: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
+  res.json(await farm.webhooks.list());
+};
+
+// GET /api/webhooks/:id - Get a webhook subscription
+export const getWebhook: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
+
+  const webhook = await farm.webhooks.findById(req.params.id);
+  if (!webhook) {
+    throw new NotFoundError("Webhook not found");
+  }
+
+  res.json(withoutSecret(webhook));
+};
+
+// POST /api/webhooks - Subscribe a URL to events; the response includes the signing secret
+export const addWebhook: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
+  const { url, events, secret, active, description }: WebhookCreateRequest = req.body;
+
+  const webhook: CreatedWebhookSubscription = await farm.webhooks.create({
+    url,
+    events,
+    secret: secret ?? randomBytes(32).toString("hex"),
+    active: active ?? true,
+    description,
+  });
+
+  await logger.info(`Webhook created for ${events.join(", ")}: ${url}`, "webhooks.addWebhook", undefined, req);
+  res.status(201).json(webhook);
+};
+
+// PUT /api/webhooks/:id - Change a subscription's URL, events, secret or active flag
+export const updateWebhook: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
+  const { url, events, secret, active, description }: WebhookUpdateRequest = req.body;
+
+  const webhook = await farm.webhooks.update(req.params.id, { url, events, secret, active, description });
+  if (!webhook) {
+    throw new NotFoundError("Webhook not found");
+  }
+
+  res.json(webhook);
+};
+
+// DELETE /api/webhooks/:id - Delete a subscription and its delivery log
+export const deleteWebhook: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
+
+  const webhook = await farm.webhooks.delete(req.params.id);
+  if (!webhook) {
+    throw new NotFoundError("Webhook not found");
+  }
+
+  await logger.info(`Webhook deleted: ${webhook.url}`, "webhooks.deleteWebhook", undefined, req);
+  res.json({ message: "Webhook deleted successfully" });
+};
+
+// GET /api/webhooks/:id/deliveries - A subscription's deliveries, newest first
+export const getWebhookDeliveries: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
+  const { id } = req.params;
+  const query = req.query as unknown as ParsedWebhookDeliveryListQuery;
+
+  if (!(await farm.webhooks.findById(id))) {
+    throw new NotFoundError("Webhook not found");
+  }
+
+  const window = toPageWindow(query);
+  res.json(toPaginatedResponse(
+    await farm.webhookDeliveries.query({ webhookId: id, status: query.status, ...window }),
+    window,
+  ));
+};
+
+// POST /api/webhooks/:id/deliveries/:deliveryId/redeliver - Send a delivery's payload again
+export const redeliverWebhook: RequestHandler = async (req, res) => {
+  const farm = farmStorage(req);
+  const { id, deliveryId } = req.params;
+
+  const delivery = await farm.webhookDeliveries.findById(deliveryId);
+  if (!delivery || delivery.webhookId !== id) {
+    throw new NotFoundError("Delivery not found");
+  }
+
+  res.status(201).json(await redeliver(farm, delivery));
+};
@@ -0,0 +1,227 @@
+import { z } from "zod";
+import {
+  AnimalRecord,
+  AnimalListQuery,
+  AnimalDetailQuery,
+  WeightRecord,
+  BreedingRecord,
+  VaccinationRecord,
+  HealthRecord,
+} from "./animal-types";
+import {
+  id,
+  date,
+  optionalDate,
+  optionalString,
+  optionalNonNegative,
+  optionalCount,
+  optionalId,
+  number,
+  optionalFilter,
+  optionalRange,
+  optionalList,
+  listQuery,
+  mergePatch,
+  idList,
+  InSync,
+} from "./schema-helpers";
+
+/**
+ * Request body (and list and detail query) schemas for animals and their records.
+ * Each create schema must stay in sync with the matching interface in
+ * `animal-types.ts` (minus server-managed fields); see the InSync checks below.
+ */
+
+export const animalTypeSchema = z.enum(["goat", "sheep"]);
+export const animalGenderSchema = z.enum(["male", "female"]);
+export const animalStatusSchema = z.enum(["active", "sold", "dead", "ready_to_sell"]);
+
+export const animalCreateSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  type: animalTypeSchema,
+  breed: z.string().trim().min(1, "Breed is required"),
+  gender: animalGenderSchema,
+  dateOfBirth: optionalDate,
+  photos: z.array(z.string()).default([]),
+  status: animalStatusSchema.default("active"),
+  currentWeight: optionalNonNegative,
+  markings: optionalString,
+
+  purchaseDate: optionalDate,
+  purchasePrice: optionalNonNegative,
+  purchaseLocation: optionalString,
+  previousOwner: optionalString,
+
+  saleDate: optionalDate,
+  salePrice: optionalNonNegative,
+  buyerName: optionalString,
+  saleNotes: optionalString,
+
+  deathDate: optionalDate,
+  deathCause: optionalString,
+
+  insured: z.boolean().default(false),
+  insuranceProvider: optionalString,
+  insurancePolicyNumber: optionalString,
+  insuranceAmount: optionalNonNegative,
+  insuranceExpiryDate: optionalDate,
+
+  notes: optionalString,
+});
+
+export const animalUpdateSchema = animalCreateSchema.partial();
+
+export const animalPatchSchema = mergePatch(animalCreateSchema);
+
+export const animalSortFieldSchema = z.enum([
+  "id",
+  "name",
+  "breed",
+  "dateOfBirth",
+  "currentWeight",
+  "purchaseDate",
+  "purchasePrice",
+  "createdAt",
+  "updatedAt",
+]);
+
+export const animalListQuerySchema = z.object({
+  search: optionalString,
+  type: optionalFilter(animalTypeSchema),
+  gender: optionalFilter(animalGenderSchema),
+  status: optionalFilter(animalStatusSchema),
+  breed: optionalFilter(z.string().trim()),
+  ageRange: optionalRange,
+  weightRange: optionalRange,
+  ...listQuery(animalSortFieldSchema, "id"),
+});
+
+export const animalIncludeSchema = z.enum([
+  "weights",
+  "breeding",
+  "vaccinations",
+  "health",
+  "offspring",
+  "stats",
+]);
+
+export const animalDetailQuerySchema = z.object({
+  include: optionalList(animalIncludeSchema),
+});
+
+export const weightRecordCreateSchema = z.object({
+  animalId: id,
+  weight: number.pipe(z.number().positive("Weight must be greater than 0")),
+  date: date,
+  notes: optionalString,
+  recordedBy: optionalString,
+});
+
+export const weightRecordUpdateSchema = weightRecordCreateSchema.partial();
+
+export const weightRecordPatchSchema = mergePatch(weightRecordCreateSchema);
+
+export const kidDetailSchema = z.object({
+  name: optionalString,
+  gender: animalGenderSchema,
+  weight: optionalNonNegative,
+  status: z.enum(["alive", "stillborn", "died_after_birth"]),
+  animalId: optionalId,
+});
+
+export const breedingRecordCreateSchema = z.object({
+  motherId: id,
+  fatherId: optionalId,
+  breedingDate: date,
+  expectedDeliveryDate: optionalDate,
+  actualDeliveryDate: optionalDate,
+  totalKids: optionalCount,
+  maleKids: optionalCount,
+  femaleKids: optionalCount,
+  kidDetails: z.array(kidDetailSchema).optional(),
+  breedingMethod: z.preprocess(
+    (value) => (value === "" || value === null ? undefined : value),
+    z.enum(["natural", "artificial_insemination"]).optional(),
+  ),
+  veterinarianName: optionalString,
+  complications: optionalString,
+  notes: optionalString,
+});
+
+export const breedingRecordUpdateSchema = breedingRecordCreateSchema.partial();
+
+export const breedingRecordPatchSchema = mergePatch(breedingRecordCreateSchema);
+
+export const vaccinationRecordCreateSchema = z.object({
+  animalId: id,
+  vaccineName: z.string().trim().min(1, "Vaccine name is required"),
+  vaccineType: z.string().trim().min(1, "Vaccine type is required"),
+  administrationDate: date,
+  nextDueDate: optionalDate,
+  batchNumber: optionalString,
+  veterinarianName: optionalString,
+  dosage: optionalString,
+  administrationMethod: optionalString,
+  sideEffects: optionalString,
+  cost: optionalNonNegative,
+  notes: optionalString,
+});
+
+export const vaccinationRecordUpdateSchema = vaccinationRecordCreateSchema.partial();
+
+export const vaccinationRecordPatchSchema = mergePatch(vaccinationRecordCreateSchema);
+
+export const healthRecordCreateSchema = z.object({
+  animalId: id,
+  recordType: z.enum(["checkup", "treatment", "illness", "injury", "other"]),
+  date: date,
+  description: z.string().trim().min(1, "Description is required"),
+  veterinarianName: optionalString,
+  diagnosis: optionalString,
+  treatment: optionalString,
+  medications: optionalString,
+  cost: optionalNonNegative,
+  nextCheckupDate: optionalDate,
+  notes: optionalString,
+});
+
+export const healthRecordUpdateSchema = healthRecordCreateSchema.partial();
+
+export const healthRecordPatchSchema = mergePatch(healthRecordCreateSchema);
+
+// Bulk delete of any of the four record types
+export const animalRecordBulkDeleteSchema = idList;
+
+// Compile-time lockstep checks against the shared interfaces
+const animalInSync: InSync<
+  z.infer<typeof animalCreateSchema>,
+  Omit<AnimalRecord, "id" | "createdAt" | "updatedAt">
+> = true;
+// Ranges are parsed into bounds, so only the non-range keys are compared
+const animalListQueryInSync: InSync<
+  Omit<z.infer<typeof animalListQuerySchema>, "ageRange" | "weightRange">,
+  Omit<AnimalListQuery, "ageRange" | "weightRange">
+> = true;
+const animalDetailQueryInSync: InSync<
+  z.infer<typeof animalDetailQuerySchema>,
+  AnimalDetailQuery
+> = true;
+const weightRecordInSync: InSync<
+  z.infer<typeof weightRecordCreateSchema>,
+  Omit<WeightRecord, "id" | "createdAt">
+> = true;
+const breedingRecordInSync: InSync<
+  z.infer<typeof breedingRecordCreateSchema>,
+  Omit<BreedingRecord, "id" | "createdAt" | "updatedAt">
+> = true;
+const vaccinationRecordInSync: InSync<
+  z.infer<typeof vaccinationRecordCreateSchema>,
+  Omit<VaccinationRecord, "id" | "createdAt">
+> = true;
+const healthRecordInSync: InSync<
+  z.infer<typeof healthRecordCreateSchema>,
+  Omit<HealthRecord, "id" | "createdAt">
+> = true;
+
+export type ParsedAnimalListQuery = z.infer<typeof animalListQuerySchema>;
+export type ParsedAnimalDetailQuery = z.infer<typeof animalDetailQuerySchema>;
@@ -1,3 +1,5 @@
+import { SortOrder } from "./api";
+
 export type AnimalType = "goat" | "sheep";
 export type AnimalGender = "male" | "female";
 export type AnimalStatus = "active" | "sold" | "dead" | "ready_to_sell";
@@ -139,8 +141,60 @@ export interface AnimalFilters {
   gender: string;
   status: string;
   breed: string;
-  ageRange: string;
-  weightRange: string;
+  ageRange: string; // months, e.g. "6-12", "24+" or "-6"
+  weightRange: string; // kg, same format as ageRange
+}
+
+export type AnimalSortField =
+  | "id"
+  | "name"
+  | "breed"
+  | "dateOfBirth"
+  | "currentWeight"
+  | "purchaseDate"
+  | "purchasePrice"
+  | "createdAt"
+  | "updatedAt";
+
+// Query string accepted by GET /api/animals; "" or "all" disables a filter
+export interface AnimalListQuery extends Partial<AnimalFilters> {
+  sortBy?: AnimalSortField;
+  sortOrder?: SortOrder;
+  page?: number;
+  pageSize?: number;
+  cursor?: string;
+}
+
+// Related data GET /api/animals/:id embeds on request
+export type AnimalInclude =
+  | "weights"
+  | "breeding"
+  | "vaccinations"
+  | "health"
+  | "offspring"
+  | "stats";
+
+// Query string accepted by GET /api/animals/:id
+export interface AnimalDetailQuery {
+  include?: AnimalInclude[]; // comma-separated, e.g. "weights,stats"
+}
+
+// Figures computed from an animal and its records
+export interface AnimalStats {
+  ageMonths?: number; // whole months from dateOfBirth to today, or to deathDate/saleDate
+  lastWeightDate?: string;
+  lastWeight?: number;
+  totalCareCost: number; // vaccination plus health record costs
+}
+
+// One animal plus the parts listed in `include`
+export interface AnimalDetail extends AnimalRecord {
+  weights?: WeightRecord[]; // oldest first
+  breeding?: BreedingRecord[]; // as dam or sire, latest first
+  vaccinations?: VaccinationRecord[];
+  health?: HealthRecord[];
+  offspring?: AnimalRecord[]; // animals linked from kidDetails of those records
+  stats?: AnimalStats;
 }
 
 // Form data interfaces
@@ -10,3 +10,53 @@
 export interface DemoResponse {
   message: string;
 }
+
+export type SortOrder = "asc" | "desc";
+
+/**
+ * One page of a paginated list endpoint. Pass `nextCursor` back as `cursor`
+ * to fetch the following page; it is absent on the last page.
+ */
+export interface PaginatedResponse<T> {
+  data: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  nextCursor?: string;
+}
+
+export type ApiErrorCode =
+  | "BAD_REQUEST"
+  | "VALIDATION_ERROR"
+  | "UNAUTHENTICATED"
+  | "FORBIDDEN"
+  | "NOT_FOUND"
+  | "CONFLICT"
+  | "UNPROCESSABLE"
+  | "UPSTREAM_ERROR"
+  | "INTERNAL_ERROR";
+
+export const API_ERROR_CODES: ApiErrorCode[] = [
+  "BAD_REQUEST",
+  "VALIDATION_ERROR",
+  "UNAUTHENTICATED",
+  "FORBIDDEN",
+  "NOT_FOUND",
+  "CONFLICT",
+  "UNPROCESSABLE",
+  "UPSTREAM_ERROR",
+  "INTERNAL_ERROR",
+];
+
+/**
+ * Body of every error response. `requestId` identifies the request in the
+ * server logs; `details` carries data specific to the error, such as the
+ * invalid fields of a validation error.
+ */
+export interface ApiErrorResponse {
+  error: string;
+  code: ApiErrorCode;
+  requestId?: string;
+  details?: unknown;
+}
@@ -0,0 +1,37 @@
+import { z } from "zod";
+import { AuditListQuery } from "./audit-types";
+import { optionalDate, optionalFilter, optionalString, pageQuery, InSync } from "./schema-helpers";
+
+/**
+ * Query schema for the audit log, kept in sync with `audit-types.ts` by the
+ * InSync check below.
+ */
+
+export const auditEntitySchema = z.enum([
+  "animal",
+  "weightRecord",
+  "breedingRecord",
+  "vaccinationRecord",
+  "healthRecord",
+  "task",
+  "expense",
+  "category",
+]);
+
+export const auditActionSchema = z.enum(["create", "update", "delete", "import", "transfer", "restore"]);
+
+export const auditListQuerySchema = z.object({
+  entity: optionalFilter(auditEntitySchema),
+  entityId: optionalString,
+  animalId: optionalString,
+  action: optionalFilter(auditActionSchema),
+  userId: optionalString,
+  dateFrom: optionalDate,
+  dateTo: optionalDate,
+  ...pageQuery,
+});
+
+export type ParsedAuditListQuery = z.infer<typeof auditListQuerySchema>;
+
+// Compile-time lockstep check against the shared interface
+const auditListQueryInSync: InSync<ParsedAuditListQuery, AuditListQuery> = true;
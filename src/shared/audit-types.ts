@@ -0,0 +1,46 @@
+export type AuditEntity =
+  | "animal"
+  | "weightRecord"
+  | "breedingRecord"
+  | "vaccinationRecord"
+  | "healthRecord"
+  | "task"
+  | "expense"
+  | "category";
+
+export type AuditAction = "create" | "update" | "delete" | "import" | "transfer" | "restore";
+
+// Old and new value of one field; creates carry only `after`, deletes only `before`
+export interface AuditFieldChange {
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditEntry {
+  id: string;
+  entity: AuditEntity;
+  entityId: string;
+  // The animal an animal or animal-record entry concerns (the dam for breeding records)
+  animalId?: string;
+  action: AuditAction;
+  // Only the fields that changed
+  changes: Record<string, AuditFieldChange>;
+  // Absent when auth is disabled
+  userId?: string;
+  username?: string;
+  timestamp: string;
+}
+
+export interface AuditListQuery {
+  entity?: AuditEntity;
+  entityId?: string;
+  animalId?: string;
+  action?: AuditAction;
+  userId?: string;
+  // Inclusive YYYY-MM-DD bounds on timestamp
+  dateFrom?: string;
+  dateTo?: string;
+  page?: number;
+  pageSize?: number;
+  cursor?: string;
+}
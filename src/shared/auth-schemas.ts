@@ -0,0 +1,42 @@
+import { z } from "zod";
+import { UserRecord } from "./auth-types";
+import { id, optionalString, InSync } from "./schema-helpers";
+
+/**
+ * Request body schemas for login and user management, kept in sync with
+ * `auth-types.ts` by the InSync check below.
+ */
+
+export const roleSchema = z.enum(["owner", "worker", "accountant"]);
+
+export const loginSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+const passwordSchema = z.string().min(8, "Password must be at least 8 characters");
+
+export const userCreateSchema = z.object({
+  username: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .regex(/^[a-z0-9._-]{3,32}$/, "Username must be 3-32 letters, digits, dots, dashes or underscores"),
+  name: z.string().trim().min(1, "Name is required"),
+  role: roleSchema,
+  farmIds: z.array(id).min(1, "At least one farm is required"),
+  password: passwordSchema,
+});
+
+// The first account is always an owner; a farm is created for it if none exists yet
+export const setupSchema = userCreateSchema.omit({ role: true, farmIds: true }).extend({
+  farmName: optionalString,
+});
+
+export const userUpdateSchema = userCreateSchema.omit({ username: true }).partial();
+
+// Compile-time lockstep check against the shared interface
+const userInSync: InSync<
+  Omit<z.infer<typeof userCreateSchema>, "password">,
+  Omit<UserRecord, "id" | "createdAt" | "updatedAt">
+> = true;
@@ -0,0 +1,88 @@
+export type Role = "owner" | "worker" | "accountant";
+
+export type Permission =
+  | "animals:read"
+  | "animals:write"
+  | "animals:delete"
+  | "animals:transfer"
+  | "records:read"
+  | "records:write"
+  | "records:delete"
+  | "tasks:read"
+  | "tasks:write"
+  | "tasks:delete"
+  | "expenses:read"
+  | "expenses:write"
+  | "expenses:delete"
+  | "categories:write"
+  | "users:manage"
+  | "farms:manage"
+  | "audit:read"
+  | "logs:read"
+  | "metrics:read"
+  | "webhooks:manage";
+
+export const ALL_PERMISSIONS: Permission[] = [
+  "animals:read",
+  "animals:write",
+  "animals:delete",
+  "animals:transfer",
+  "records:read",
+  "records:write",
+  "records:delete",
+  "tasks:read",
+  "tasks:write",
+  "tasks:delete",
+  "expenses:read",
+  "expenses:write",
+  "expenses:delete",
+  "categories:write",
+  "users:manage",
+  "farms:manage",
+  "audit:read",
+  "logs:read",
+  "metrics:read",
+  "webhooks:manage",
+];
+
+// What each role may do; shared so the frontend can hide actions a role cannot perform
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  owner: ALL_PERMISSIONS,
+  worker: [
+    "animals:read",
+    "animals:write",
+    "records:read",
+    "records:write",
+    "tasks:read",
+    "tasks:write",
+  ],
+  accountant: [
+    "animals:read",
+    "records:read",
+    "tasks:read",
+    "expenses:read",
+    "expenses:write",
+    "expenses:delete",
+    "categories:write",
+  ],
+};
+
+export const hasPermission = (role: Role, permission: Permission): boolean =>
+  ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+
+export interface UserRecord {
+  id: string;
+  username: string;
+  name: string;
+  role: Role;
+  // Farms this user can access; requests pick one with the X-Farm-Id header
+  farmIds: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LoginResponse {
+  token: string;
+  expiresAt: string;
+  user: UserRecord;
+}
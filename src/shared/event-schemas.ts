@@ -0,0 +1,22 @@
+import { z } from "zod";
+import { EventStreamQuery } from "./event-types";
+import { InSync, optionalList, optionalString } from "./schema-helpers";
+
+/**
+ * Query schema for the event stream, kept in sync with `event-types.ts` by
+ * the InSync check below.
+ */
+
+export const changeEntitySchema = z.enum(["animal", "weightRecord", "task", "expense", "category"]);
+
+export const eventStreamQuerySchema = z.object({
+  // Comma-separated, e.g. ?entity=animal,task; blank means every entity
+  entity: optionalList(changeEntitySchema),
+  token: optionalString,
+  lastEventId: optionalString,
+});
+
+export type ParsedEventStreamQuery = z.infer<typeof eventStreamQuerySchema>;
+
+// Compile-time lockstep check against the shared interface
+const eventStreamQueryInSync: InSync<ParsedEventStreamQuery, EventStreamQuery> = true;
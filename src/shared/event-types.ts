@@ -0,0 +1,58 @@
+import { AnimalRecord, WeightRecord } from "./animal-types";
+import { Task, TaskStatus } from "./task-types";
+import { CategoryConfig, ExpenseRecord } from "./expense-types";
+
+/** What each change event carries, by event type (the SSE `event:` field). */
+export interface ChangeEventData {
+  "animal.created": { animal: AnimalRecord };
+  "animal.updated": { animal: AnimalRecord };
+  // Also sent to the old farm when an animal is transferred away
+  "animal.deleted": { animalId: string };
+  "weight.recorded": { record: WeightRecord };
+  "task.statusChanged": { task: Task; previousStatus: TaskStatus };
+  "expense.added": { expense: ExpenseRecord };
+  // The farm's complete category list after the save
+  "categories.saved": { categories: CategoryConfig[] };
+}
+
+export type ChangeEventType = keyof ChangeEventData;
+
+export type ChangeEntity = "animal" | "weightRecord" | "task" | "expense" | "category";
+
+// The entity each event type concerns; streams are filtered by entity
+export const CHANGE_EVENT_ENTITIES: Record<ChangeEventType, ChangeEntity> = {
+  "animal.created": "animal",
+  "animal.updated": "animal",
+  "animal.deleted": "animal",
+  "weight.recorded": "weightRecord",
+  "task.statusChanged": "task",
+  "expense.added": "expense",
+  "categories.saved": "category",
+};
+
+export interface ChangeEvent<T extends ChangeEventType = ChangeEventType> {
+  // Also the SSE `id:`; send it back as Last-Event-ID to resume
+  id: string;
+  type: T;
+  entity: ChangeEntity;
+  farmId: string;
+  timestamp: string;
+  // Absent when auth is disabled
+  userId?: string;
+  data: ChangeEventData[T];
+}
+
+export interface EventStreamQuery {
+  // Only events about these entities; all when absent
+  entity?: ChangeEntity[];
+  // Event stream token from POST /api/events/token, for clients that cannot send headers
+  token?: string;
+  // Same as the Last-Event-ID header, for a new EventSource resuming an old one's stream
+  lastEventId?: string;
+}
+
+// POST /api/events/token
+export interface EventStreamToken {
+  token: string;
+  expiresAt: string;
+}
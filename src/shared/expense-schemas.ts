@@ -0,0 +1,103 @@
+import { z } from "zod";
+import {
+  ExpenseRecord,
+  ExpenseListQuery,
+  ExpenseAnalyticsQuery,
+  CategoryConfig,
+} from "./expense-types";
+import {
+  date,
+  number,
+  optionalDate,
+  optionalString,
+  optionalFilter,
+  listQuery,
+  idList,
+  mergePatch,
+  InSync,
+} from "./schema-helpers";
+
+/**
+ * Request body (and list query) schemas for expenses and categories, kept in
+ * sync with `expense-types.ts` by the InSync checks below.
+ */
+
+export const expenseTypeSchema = z.enum(["Expense", "Income"]);
+
+export const expenseCreateSchema = z.object({
+  date: date.default(() => new Date().toISOString().split("T")[0]),
+  type: expenseTypeSchema.default("Expense"),
+  description: z.string().trim().min(1, "Description is required"),
+  amount: number.pipe(z.number().positive("Amount must be greater than 0")),
+  paidBy: optionalString.transform((value) => value ?? ""),
+  category: z.string().trim().min(1, "Category is required"),
+  subCategory: optionalString.transform((value) => value ?? "General"),
+  source: optionalString.transform((value) => value ?? ""),
+  notes: optionalString.transform((value) => value ?? ""),
+});
+
+export const expenseUpdateSchema = expenseCreateSchema.partial();
+
+export const expensePatchSchema = mergePatch(expenseCreateSchema);
+
+export const expenseImportSchema = z.array(expenseCreateSchema);
+
+export const expenseBulkDeleteSchema = idList;
+
+export const expenseSortFieldSchema = z.enum([
+  "id",
+  "date",
+  "amount",
+  "description",
+  "category",
+  "paidBy",
+  "type",
+]);
+
+const expenseFilterFields = {
+  search: optionalString,
+  type: optionalFilter(expenseTypeSchema),
+  category: optionalFilter(z.string().trim()),
+  paidBy: optionalFilter(z.string().trim()),
+  source: optionalFilter(z.string().trim()),
+  dateFrom: optionalDate,
+  dateTo: optionalDate,
+};
+
+export const expenseListQuerySchema = z.object({
+  ...expenseFilterFields,
+  ...listQuery(expenseSortFieldSchema, "date"),
+});
+
+export type ParsedExpenseListQuery = z.infer<typeof expenseListQuerySchema>;
+
+export const expenseAnalyticsQuerySchema = z
+  .object({
+    ...expenseFilterFields,
+    compare: optionalFilter(z.enum(["previousYear"])),
+  })
+  .refine(
+    (query) => !query.compare || (query.dateFrom !== undefined && query.dateTo !== undefined),
+    { message: "dateFrom and dateTo are required for a comparison", path: ["compare"] },
+  );
+
+export type ParsedExpenseAnalyticsQuery = z.infer<typeof expenseAnalyticsQuerySchema>;
+
+export const categoryConfigSchema = z.object({
+  name: z.string().trim().min(1, "Category name is required"),
+  subCategories: z.array(z.string().trim().min(1)).default([]),
+});
+
+export const categoryManagementSchema = z.object({
+  categories: z.array(categoryConfigSchema),
+  lastUpdated: optionalString,
+});
+
+// Compile-time lockstep checks against the shared interfaces
+const expenseInSync: InSync<z.infer<typeof expenseCreateSchema>, Omit<ExpenseRecord, "id">> = true;
+const expenseListQueryInSync: InSync<ParsedExpenseListQuery, ExpenseListQuery> = true;
+const expenseAnalyticsQueryInSync: InSync<ParsedExpenseAnalyticsQuery, ExpenseAnalyticsQuery> = true;
+const categoryInSync: InSync<
+  z.infer<typeof categoryConfigSchema>,
+  Pick<CategoryConfig, "name" | "subCategories">
+> = true;
@@ -1,3 +1,5 @@
+import { PaginatedResponse, SortOrder } from "./api";
+
 export interface ExpenseRecord {
   id: string;
   date: string;
@@ -40,6 +42,29 @@ export interface ExpenseSummary {
   transactionCount: number;
 }
 
+export type ExpenseSortField =
+  | "id"
+  | "date"
+  | "amount"
+  | "description"
+  | "category"
+  | "paidBy"
+  | "type";
+
+// Query string accepted by GET /api/expenses; "" or "all" disables a filter
+export interface ExpenseListQuery extends Partial<ExpenseFilters> {
+  sortBy?: ExpenseSortField;
+  sortOrder?: SortOrder;
+  page?: number;
+  pageSize?: number;
+  cursor?: string;
+}
+
+// A page of expenses plus totals over every expense matching the filters
+export interface ExpenseListResponse extends PaginatedResponse<ExpenseRecord> {
+  summary: ExpenseSummary;
+}
+
 export interface CategoryChartData {
   category: string;
   amount: number;
@@ -52,6 +77,31 @@ export interface MonthlyChartData {
   expenses: number;
 }
 
+// Analytics responses; `previousYear` is present when comparison is requested
+
+export interface ExpenseSummaryReport extends ExpenseSummary {
+  previousYear?: ExpenseSummary;
+}
+
+export interface CategoryTotals extends CategoryChartData {
+  previousYear?: { amount: number; count: number };
+}
+
+// `category` of each sub-category entry holds the sub-category name
+export interface CategoryBreakdown extends CategoryTotals {
+  subCategories: CategoryTotals[];
+}
+
+// `month` is YYYY-MM; previousYear covers the same month one year earlier
+export interface MonthlyBreakdown extends MonthlyChartData {
+  previousYear?: { income: number; expenses: number };
+}
+
+// Query string accepted by the /api/expenses analytics endpoints
+export interface ExpenseAnalyticsQuery extends Partial<ExpenseFilters> {
+  compare?: "previousYear";
+}
+
 export interface CategoryConfig {
   id: string;
   name: string;
@@ -0,0 +1,27 @@
+import { z } from "zod";
+import { FarmRecord, AnimalTransferRequest } from "./farm-types";
+import { id, optionalString, InSync } from "./schema-helpers";
+
+/**
+ * Request body schemas for farms, kept in sync with `farm-types.ts` by the
+ * InSync checks below.
+ */
+
+export const farmCreateSchema = z.object({
+  name: z.string().trim().min(1, "Farm name is required"),
+  location: optionalString,
+  notes: optionalString,
+});
+
+export const farmUpdateSchema = farmCreateSchema.partial();
+
+export const animalTransferSchema = z.object({
+  farmId: id,
+});
+
+// Compile-time lockstep checks against the shared interfaces
+const farmInSync: InSync<
+  z.infer<typeof farmCreateSchema>,
+  Omit<FarmRecord, "id" | "createdAt" | "updatedAt">
+> = true;
+const transferInSync: InSync<z.infer<typeof animalTransferSchema>, AnimalTransferRequest> = true;
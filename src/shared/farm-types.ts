@@ -0,0 +1,12 @@
+export interface FarmRecord {
+  id: string;
+  name: string;
+  location?: string;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AnimalTransferRequest {
+  farmId: string;
+}
@@ -0,0 +1,34 @@
+export type HealthStatus = "ok" | "degraded";
+
+// One probe of a dependency, e.g. a database table
+export interface HealthCheck {
+  name: string;
+  ok: boolean;
+  error?: string;
+}
+
+export interface LivenessReport {
+  status: "ok";
+  // package.json version
+  version: string;
+  // BUILD_VERSION, e.g. the deployed commit
+  build?: string;
+  uptimeSeconds: number;
+}
+
+export interface ReadinessReport extends Omit<LivenessReport, "status"> {
+  status: HealthStatus;
+  storage: {
+    backend: "supabase" | "local";
+    ok: boolean;
+    checks: HealthCheck[];
+  };
+  logger: {
+    // Nothing is waiting in the spool file
+    ok: boolean;
+    // Entries waiting in memory for the next flush
+    buffered: number;
+    // Entries the log store rejected, waiting to be replayed
+    spooled: number;
+  };
+}
@@ -0,0 +1,39 @@
+import { z } from "zod";
+import { LogListQuery, LogStatsQuery } from "./log-types";
+import { optionalDate, optionalFilter, optionalString, pageQuery, InSync } from "./schema-helpers";
+
+/**
+ * Query schemas for the log viewer, kept in sync with `log-types.ts` by the
+ * InSync checks below.
+ */
+
+export const logLevelSchema = z.enum(["debug", "info", "warn", "error"]);
+
+export const logStatsIntervalSchema = z.enum(["hour", "day"]);
+
+const logFilterQuery = {
+  level: optionalFilter(logLevelSchema),
+  source: optionalString,
+  search: optionalString,
+  requestId: optionalString,
+  userId: optionalString,
+  dateFrom: optionalDate,
+  dateTo: optionalDate,
+};
+
+export const logListQuerySchema = z.object({
+  ...logFilterQuery,
+  ...pageQuery,
+});
+
+export const logStatsQuerySchema = z.object({
+  ...logFilterQuery,
+  interval: optionalFilter(logStatsIntervalSchema),
+});
+
+export type ParsedLogListQuery = z.infer<typeof logListQuerySchema>;
+export type ParsedLogStatsQuery = z.infer<typeof logStatsQuerySchema>;
+
+// Compile-time lockstep checks against the shared interfaces
+const logListQueryInSync: InSync<ParsedLogListQuery, LogListQuery> = true;
+const logStatsQueryInSync: InSync<ParsedLogStatsQuery, LogStatsQuery> = true;
@@ -0,0 +1,66 @@
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+// An ErrorLogger entry as returned by GET /api/logs
+export interface LogEntry {
+  // Absent with the local backend
+  id?: string;
+  timestamp: string;
+  level: LogLevel;
+  message: string;
+  // Where the entry was logged, e.g. "auth.login" or "GET /api/animals/:id"
+  source: string;
+  details?: unknown;
+  userId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  requestId?: string;
+}
+
+export interface LogFilterQuery {
+  level?: LogLevel;
+  source?: string;
+  // Case-insensitive text in the message or details
+  search?: string;
+  requestId?: string;
+  userId?: string;
+  // Inclusive bounds on timestamp: YYYY-MM-DD (the whole day) or a full timestamp
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+export interface LogListQuery extends LogFilterQuery {
+  page?: number;
+  pageSize?: number;
+  cursor?: string;
+}
+
+export type LogStatsInterval = "hour" | "day";
+
+export interface LogStatsQuery extends LogFilterQuery {
+  // Timeline bucket size; defaults to "day"
+  interval?: LogStatsInterval;
+}
+
+export type LevelCounts = Record<LogLevel, number>;
+
+export interface LogCounts {
+  total: number;
+  byLevel: LevelCounts;
+}
+
+export interface SourceLogCounts extends LogCounts {
+  source: string;
+}
+
+export interface TimelineLogCounts extends LogCounts {
+  // Start of the hour or day (UTC)
+  start: string;
+}
+
+export interface LogStats extends LogCounts {
+  // Most entries first
+  bySource: SourceLogCounts[];
+  interval: LogStatsInterval;
+  // Every hour or day from the first entry to the last, including empty ones
+  timeline: TimelineLogCounts[];
+}
@@ -0,0 +1,147 @@
+import { z } from "zod";
+
+/**
+ * Building blocks for the request schemas in `*-schemas.ts`.
+ * Form inputs arrive as strings, so optional fields treat "" and null as
+ * "not provided", and numeric fields accept numeric strings.
+ */
+
+const blankToUndefined = (value: unknown) =>
+  value === null || (typeof value === "string" && value.trim() === "")
+    ? undefined
+    : value;
+
+const numericString = (value: unknown) =>
+  typeof value === "string" && value.trim() !== "" && !isNaN(Number(value))
+    ? Number(value)
+    : value;
+
+// YYYY-MM-DD, optionally followed by a time component
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ][\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+export const id = z
+  .union([z.string().min(1), z.number().int().nonnegative()])
+  .transform(String);
+
+export const date = z
+  .string()
+  .regex(DATE_PATTERN, "Expected a date in YYYY-MM-DD format");
+
+export const optionalDate = z.preprocess(blankToUndefined, date.optional());
+
+export const optionalString = z.preprocess(blankToUndefined, z.string().optional());
+
+export const number = z.preprocess(numericString, z.number());
+
+export const optionalCount = z.preprocess(
+  (value) => numericString(blankToUndefined(value)),
+  z.number().int().nonnegative().optional(),
+);
+
+export const optionalNonNegative = z.preprocess(
+  (value) => numericString(blankToUndefined(value)),
+  z.number().nonnegative().optional(),
+);
+
+export const optionalId = z.preprocess(blankToUndefined, id.optional());
+
+// "min-max", "min+", "min-" or "-max"; parsed into optional bounds
+const RANGE_PATTERN = /^(\d+(?:\.\d+)?)?\s*-\s*(\d+(?:\.\d+)?)?$|^(\d+(?:\.\d+)?)\+$/;
+
+export interface NumberRange {
+  min?: number;
+  max?: number;
+}
+
+export const optionalRange = z.preprocess(
+  (value) => (value === "all" ? undefined : blankToUndefined(value)),
+  z
+    .string()
+    .trim()
+    .regex(RANGE_PATTERN, 'Expected a range such as "10-20", "10+" or "-20"')
+    .transform((value): NumberRange => {
+      const [, from, to, atLeast] = value.match(RANGE_PATTERN)!;
+      const min = from ?? atLeast;
+      return {
+        min: min === undefined ? undefined : Number(min),
+        max: to === undefined ? undefined : Number(to),
+      };
+    })
+    .refine(
+      ({ min, max }) => min === undefined || max === undefined || min <= max,
+      "Range minimum exceeds maximum",
+    )
+    .optional(),
+);
+
+// List filters: blank or "all" means no filter
+export const optionalFilter = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess(
+    (value) => (value === "all" ? undefined : blankToUndefined(value)),
+    schema.optional(),
+  );
+
+// Comma-separated values, e.g. "a,b"; blank means none given
+export const optionalList = <T extends z.ZodTypeAny>(item: T) =>
+  z.preprocess(
+    (value) => {
+      if (typeof value !== "string") return value;
+      const items = value.split(",").map(part => part.trim()).filter(part => part !== "");
+      return items.length > 0 ? items : undefined;
+    },
+    z.array(item).optional(),
+  );
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+// Paging query parameters shared by list endpoints
+export const pageQuery = {
+  page: z.preprocess(
+    (value) => numericString(blankToUndefined(value)),
+    z.number().int().min(1).optional(),
+  ),
+  pageSize: z.preprocess(
+    (value) => numericString(blankToUndefined(value)),
+    z.number().int().min(1).max(MAX_PAGE_SIZE).optional(),
+  ),
+  cursor: optionalString,
+};
+
+// Paging plus sorting for list endpoints with a choice of sort field
+export const listQuery = <T extends string>(
+  sortField: z.ZodEnum<[T, ...T[]]>,
+  defaultSort: T,
+  defaultOrder: "asc" | "desc" = "desc",
+) => ({
+  sortBy: z.preprocess(blankToUndefined, sortField.default(defaultSort)),
+  sortOrder: z.preprocess(blankToUndefined, z.enum(["asc", "desc"]).default(defaultOrder)),
+  ...pageQuery,
+});
+
+/**
+ * A JSON Merge Patch (RFC 7396) body for the records `schema` creates: any of
+ * their fields, each checked on its own, with null removing the field. The
+ * patched record as a whole is validated against `schema` by the handler.
+ */
+export const mergePatch = <T extends z.ZodRawShape>(schema: z.ZodObject<T>) =>
+  z.object(
+    Object.fromEntries(
+      Object.entries(schema.shape).map(([key, field]) => [key, field.nullable().optional()]),
+    ) as { [K in keyof T]: z.ZodOptional<z.ZodNullable<T[K]>> },
+  );
+
+export const idList = z.object({
+  ids: z.array(id).min(1, "At least one id is required"),
+});
+
+/**
+ * Compile-time guard keeping a schema in lockstep with its shared interface:
+ * resolves to `true` only when the parsed value is assignable to `T` and
+ * covers every key of `T`.
+ */
+export type InSync<Parsed, T> = Parsed extends T
+  ? Exclude<keyof T, keyof Parsed> extends never
+    ? true
+    : never
+  : never;
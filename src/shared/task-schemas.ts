@@ -0,0 +1,36 @@
+import { z } from "zod";
+import { Task } from "./task-types";
+import { date, optionalDate, optionalString, optionalId, idList, mergePatch, InSync } from "./schema-helpers";
+
+/**
+ * Request body schemas for tasks, kept in sync with `task-types.ts` by the
+ * InSync check below.
+ */
+
+export const taskPrioritySchema = z.enum(["low", "medium", "high"]);
+export const taskStatusSchema = z.enum(["pending", "in-progress", "completed"]);
+
+export const taskCreateSchema = z.object({
+  title: z.string().trim().min(1, "Title is required"),
+  description: optionalString.transform((value) => value ?? ""),
+  category: optionalString.transform((value) => value ?? ""),
+  taskType: optionalString.transform((value) => value ?? ""),
+  priority: taskPrioritySchema.default("medium"),
+  status: taskStatusSchema.default("pending"),
+  dueDate: date,
+  assignedTo: z.string().trim().min(1, "Assignee is required"),
+  notes: optionalString.transform((value) => value ?? ""),
+  animalId: optionalId,
+  completedAt: optionalDate,
+});
+
+export const taskUpdateSchema = taskCreateSchema.partial();
+
+export const taskPatchSchema = mergePatch(taskCreateSchema);
+
+export const taskImportSchema = z.array(taskCreateSchema);
+
+export const taskBulkDeleteSchema = idList;
+
+// Compile-time lockstep check against the shared interface
+const taskInSync: InSync<z.infer<typeof taskCreateSchema>, Omit<Task, "id" | "createdAt">> = true;
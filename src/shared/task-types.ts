@@ -0,0 +1,18 @@
+export type TaskPriority = "low" | "medium" | "high";
+export type TaskStatus = "pending" | "in-progress" | "completed";
+
+export interface Task {
+  id: string;
+  title: string;
+  description: string;
+  category: string;
+  taskType: string;
+  priority: TaskPriority;
+  status: TaskStatus;
+  dueDate: string;
+  assignedTo: string;
+  notes: string;
+  animalId?: string; // the animal the task concerns, shown on its timeline
+  createdAt: string;
+  completedAt?: string;
+}
@@ -0,0 +1,42 @@
+import { z } from "zod";
+import { AnimalTimelineQuery } from "./timeline-types";
+import { optionalDate, optionalList, pageQuery, InSync } from "./schema-helpers";
+
+/**
+ * Query schema for an animal's timeline, kept in sync with
+ * `timeline-types.ts` by the InSync check below.
+ */
+
+export const animalTimelineEventTypeSchema = z.enum([
+  "purchase",
+  "birth",
+  "weight",
+  "vaccination",
+  "health",
+  "breeding",
+  "kidding",
+  "sale",
+  "death",
+  "task",
+]);
+
+export const animalTimelineQuerySchema = z
+  .object({
+    type: optionalList(animalTimelineEventTypeSchema),
+    dateFrom: optionalDate,
+    dateTo: optionalDate,
+    sortOrder: z.preprocess(
+      (value) => (value === "" ? undefined : value),
+      z.enum(["asc", "desc"]).default("desc"),
+    ),
+    ...pageQuery,
+  })
+  .refine(
+    ({ dateFrom, dateTo }) => !dateFrom || !dateTo || dateFrom <= dateTo,
+    { message: "dateFrom must not be after dateTo", path: ["dateFrom"] },
+  );
+
+export type ParsedAnimalTimelineQuery = z.infer<typeof animalTimelineQuerySchema>;
+
+// Compile-time lockstep check against the shared interface
+const animalTimelineQueryInSync: InSync<ParsedAnimalTimelineQuery, AnimalTimelineQuery> = true;
@@ -0,0 +1,50 @@
+import {
+  AnimalRecord,
+  WeightRecord,
+  BreedingRecord,
+  VaccinationRecord,
+  HealthRecord,
+} from "./animal-types";
+import { Task } from "./task-types";
+import { SortOrder } from "./api";
+
+export type AnimalTimelineEventType =
+  | "purchase"
+  | "birth"
+  | "weight"
+  | "vaccination"
+  | "health"
+  | "breeding"
+  | "kidding"
+  | "sale"
+  | "death"
+  | "task";
+
+interface TimelineEventOf<T extends AnimalTimelineEventType, R> {
+  // "<type>:<record id>", unique within the timeline
+  id: string;
+  type: T;
+  date: string; // YYYY-MM-DD
+  title: string;
+  // The record the event comes from; the animal itself for purchase, birth, sale and death
+  record: R;
+}
+
+export type AnimalTimelineEvent =
+  | TimelineEventOf<"purchase" | "birth" | "sale" | "death", AnimalRecord>
+  | TimelineEventOf<"weight", WeightRecord>
+  | TimelineEventOf<"vaccination", VaccinationRecord>
+  | TimelineEventOf<"health", HealthRecord>
+  | TimelineEventOf<"breeding" | "kidding", BreedingRecord>
+  | TimelineEventOf<"task", Task>;
+
+export interface AnimalTimelineQuery {
+  type?: AnimalTimelineEventType[]; // comma-separated; blank means every type
+  // Inclusive YYYY-MM-DD bounds on the event date
+  dateFrom?: string;
+  dateTo?: string;
+  sortOrder?: SortOrder; // by date, newest first by default
+  page?: number;
+  pageSize?: number;
+  cursor?: string;
+}
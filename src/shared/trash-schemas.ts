@@ -0,0 +1,27 @@
+import { z } from "zod";
+import { TrashListQuery } from "./trash-types";
+import { optionalFilter, InSync } from "./schema-helpers";
+
+/**
+ * Query schema for the trash, kept in sync with `trash-types.ts` by the
+ * InSync check below.
+ */
+
+export const trashEntitySchema = z.enum([
+  "animal",
+  "weightRecord",
+  "breedingRecord",
+  "vaccinationRecord",
+  "healthRecord",
+  "task",
+  "expense",
+]);
+
+export const trashListQuerySchema = z.object({
+  type: optionalFilter(trashEntitySchema),
+});
+
+export type ParsedTrashListQuery = z.infer<typeof trashListQuerySchema>;
+
+// Compile-time lockstep check against the shared interface
+const trashListQueryInSync: InSync<ParsedTrashListQuery, TrashListQuery> = true;
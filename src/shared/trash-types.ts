@@ -0,0 +1,40 @@
+import {
+  AnimalRecord,
+  WeightRecord,
+  BreedingRecord,
+  VaccinationRecord,
+  HealthRecord,
+} from "./animal-types";
+import { Task } from "./task-types";
+import { ExpenseRecord } from "./expense-types";
+
+export type TrashEntity =
+  | "animal"
+  | "weightRecord"
+  | "breedingRecord"
+  | "vaccinationRecord"
+  | "healthRecord"
+  | "task"
+  | "expense";
+
+export interface TrashItem {
+  type: TrashEntity;
+  id: string;
+  // Animal name, record summary, task title or expense description
+  label: string;
+  deletedAt: string;
+  // When the item is permanently removed; absent when purging is disabled
+  purgeAt?: string;
+  record:
+    | AnimalRecord
+    | WeightRecord
+    | BreedingRecord
+    | VaccinationRecord
+    | HealthRecord
+    | Task
+    | ExpenseRecord;
+}
+
+export interface TrashListQuery {
+  type?: TrashEntity;
+}
@@ -0,0 +1,56 @@
+import { z } from "zod";
+import {
+  WebhookCreateRequest,
+  WebhookUpdateRequest,
+  WebhookDeliveryListQuery,
+} from "./webhook-types";
+import { optionalFilter, optionalString, pageQuery, InSync } from "./schema-helpers";
+
+/**
+ * Request schemas for webhook subscriptions and their deliveries, kept in
+ * sync with `webhook-types.ts` by the InSync checks below.
+ */
+
+export const webhookEventTypeSchema = z.enum([
+  "animal.sold",
+  "animal.died",
+  "breeding.delivered",
+  "task.completed",
+  "expenses.imported",
+]);
+
+export const webhookDeliveryStatusSchema = z.enum(["pending", "succeeded", "failed"]);
+
+const webhookUrl = z
+  .string()
+  .trim()
+  .url("Expected an absolute URL")
+  .refine(value => /^https?:\/\//i.test(value), "Webhook URLs must use http or https");
+
+export const webhookCreateSchema = z.object({
+  url: webhookUrl,
+  events: z
+    .array(webhookEventTypeSchema)
+    .min(1, "At least one event type is required")
+    .transform(events => [...new Set(events)]),
+  secret: z.preprocess(
+    value => (typeof value === "string" && value.trim() === "" ? undefined : value),
+    z.string().min(16, "Secrets must be at least 16 characters").optional(),
+  ),
+  active: z.boolean().optional(),
+  description: optionalString,
+});
+
+export const webhookUpdateSchema = webhookCreateSchema.partial();
+
+export const webhookDeliveryListQuerySchema = z.object({
+  status: optionalFilter(webhookDeliveryStatusSchema),
+  ...pageQuery,
+});
+
+export type ParsedWebhookDeliveryListQuery = z.infer<typeof webhookDeliveryListQuerySchema>;
+
+// Compile-time lockstep checks against the shared interfaces
+const webhookCreateInSync: InSync<z.infer<typeof webhookCreateSchema>, WebhookCreateRequest> = true;
+const webhookUpdateInSync: InSync<z.infer<typeof webhookUpdateSchema>, WebhookUpdateRequest> = true;
+const deliveryListQueryInSync: InSync<ParsedWebhookDeliveryListQuery, WebhookDeliveryListQuery> = true;
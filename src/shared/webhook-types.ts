@@ -0,0 +1,92 @@
+import { AnimalRecord, AnimalStatus, BreedingRecord } from "./animal-types";
+import { Task, TaskStatus } from "./task-types";
+
+/** What each webhook event carries, by event type. */
+export interface WebhookEventData {
+  "animal.sold": { animal: AnimalRecord; previousStatus: AnimalStatus };
+  "animal.died": { animal: AnimalRecord; previousStatus: AnimalStatus };
+  // The record when it first receives an actualDeliveryDate
+  "breeding.delivered": { record: BreedingRecord };
+  "task.completed": { task: Task; previousStatus: TaskStatus };
+  "expenses.imported": {
+    successCount: number;
+    totalCount: number;
+    // Ids of the expenses created by the import
+    expenseIds: string[];
+  };
+}
+
+export type WebhookEventType = keyof WebhookEventData;
+
+export interface WebhookSubscription {
+  id: string;
+  // http(s) URL receiving a POST per event
+  url: string;
+  events: WebhookEventType[];
+  // Inactive subscriptions receive nothing; pending deliveries still retry
+  active: boolean;
+  description?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// The secret is returned once, by the request that creates the subscription
+export interface CreatedWebhookSubscription extends WebhookSubscription {
+  secret: string;
+}
+
+/** The JSON body POSTed to subscribers. */
+export interface WebhookPayload<T extends WebhookEventType = WebhookEventType> {
+  // Identifies the event; redeliveries repeat it, so receivers can drop duplicates
+  id: string;
+  event: T;
+  farmId: string;
+  timestamp: string;
+  data: WebhookEventData[T];
+}
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+// The outcome of one POST to the subscriber
+export interface WebhookAttempt {
+  at: string;
+  durationMs: number;
+  // Absent when no response arrived
+  responseStatus?: number;
+  // Why the attempt failed; absent on a 2xx response
+  error?: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: WebhookEventType;
+  payload: WebhookPayload;
+  // Pending until a 2xx response, failed once the attempts run out
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  lastAttempt?: WebhookAttempt;
+  // When a pending delivery is next tried
+  nextAttemptAt?: string;
+  // The delivery this one manually resends
+  redeliveryOf?: string;
+  createdAt: string;
+}
+
+export interface WebhookCreateRequest {
+  url: string;
+  events: WebhookEventType[];
+  // Generated when absent
+  secret?: string;
+  active?: boolean;
+  description?: string;
+}
+
+export type WebhookUpdateRequest = Partial<WebhookCreateRequest>;
+
+export interface WebhookDeliveryListQuery {
+  status?: WebhookDeliveryStatus;
+  page?: number;
+  pageSize?: number;
+  cursor?: string;
+}
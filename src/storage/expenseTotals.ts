@@ -0,0 +1,138 @@
+import {
+  ExpenseRecord,
+  ExpenseSummary,
+  CategoryTotals,
+  CategoryBreakdown,
+  MonthlyBreakdown,
+} from "@shared/expense-types";
+
+/**
+ * Ledger arithmetic shared by the storage backends and the analytics routes,
+ * so every client sees the same totals.
+ */
+
+// Amounts are currency; keep sums at cent precision
+const toCents = (amount: number) => Math.round(amount * 100) / 100;
+
+const sumAmounts = (expenses: Pick<ExpenseRecord, 'amount'>[]) =>
+  toCents(expenses.reduce((sum, expense) => sum + expense.amount, 0));
+
+const isIncome = (expense: Pick<ExpenseRecord, 'type'>) => expense.type === 'Income';
+
+const groupBy = (expenses: ExpenseRecord[], key: (expense: ExpenseRecord) => string) => {
+  const groups = new Map<string, ExpenseRecord[]>();
+  for (const expense of expenses) {
+    const name = key(expense);
+    const group = groups.get(name);
+    if (group) {
+      group.push(expense);
+    } else {
+      groups.set(name, [expense]);
+    }
+  }
+  return groups;
+};
+
+// Group names present in either period
+const namesOf = (current: Map<string, unknown>, previous?: Map<string, unknown>) =>
+  Array.from(new Set([...current.keys(), ...(previous?.keys() ?? [])]));
+
+const byAmountDesc = (a: CategoryTotals, b: CategoryTotals) =>
+  b.amount - a.amount || a.category.localeCompare(b.category);
+
+/** Income and expense totals over a set of expenses, as shown on the ledger summary. */
+export const summarizeExpenses = (expenses: Pick<ExpenseRecord, 'type' | 'amount'>[]): ExpenseSummary => {
+  const totalIncome = sumAmounts(expenses.filter(isIncome));
+  const totalExpenses = sumAmounts(expenses.filter(expense => !isIncome(expense)));
+  return {
+    totalIncome,
+    totalExpenses,
+    balance: toCents(totalIncome - totalExpenses),
+    transactionCount: expenses.length,
+  };
+};
+
+const toCategoryTotals = (
+  name: string,
+  current: ExpenseRecord[],
+  previous?: ExpenseRecord[],
+): CategoryTotals => ({
+  category: name,
+  amount: sumAmounts(current),
+  count: current.length,
+  ...(previous && { previousYear: { amount: sumAmounts(previous), count: previous.length } }),
+});
+
+/**
+ * Amount and count per category, largest first, each with its sub-categories.
+ * Pass `previous` (the same filters one year earlier) to fill `previousYear`.
+ */
+export const totalsByCategory = (
+  expenses: ExpenseRecord[],
+  previous?: ExpenseRecord[],
+): CategoryBreakdown[] => {
+  const current = groupBy(expenses, expense => expense.category);
+  const before = previous && groupBy(previous, expense => expense.category);
+
+  return namesOf(current, before)
+    .map(name => {
+      const rows = current.get(name) ?? [];
+      const previousRows = before && (before.get(name) ?? []);
+      const subCurrent = groupBy(rows, expense => expense.subCategory);
+      const subBefore = previousRows && groupBy(previousRows, expense => expense.subCategory);
+
+      return {
+        ...toCategoryTotals(name, rows, previousRows),
+        subCategories: namesOf(subCurrent, subBefore)
+          .map(sub => toCategoryTotals(sub, subCurrent.get(sub) ?? [], subBefore && (subBefore.get(sub) ?? [])))
+          .sort(byAmountDesc),
+      };
+    })
+    .sort(byAmountDesc);
+};
+
+const monthOf = (date: string) => date.slice(0, 7);
+
+// YYYY-MM for each month from `from` to `to` inclusive
+const monthsBetween = (from: string, to: string): string[] => {
+  const months: string[] = [];
+  let [year, month] = from.split('-').map(Number);
+  for (let key = from; key <= to; ) {
+    months.push(key);
+    month = month === 12 ? 1 : month + 1;
+    year = month === 1 ? year + 1 : year;
+    key = `${year}-${String(month).padStart(2, '0')}`;
+  }
+  return months;
+};
+
+const nextYearMonth = (month: string) => `${Number(month.slice(0, 4)) + 1}${month.slice(4)}`;
+
+/**
+ * Income and expenses per month, oldest first. Every month in the `from`-`to`
+ * date range is listed, including empty ones; without a range the span of
+ * the data is used. `previous` fills `previousYear` as in totalsByCategory.
+ */
+export const totalsByMonth = (
+  expenses: ExpenseRecord[],
+  range: { from?: string; to?: string },
+  previous?: ExpenseRecord[],
+): MonthlyBreakdown[] => {
+  const current = groupBy(expenses, expense => monthOf(expense.date));
+  const before = previous && groupBy(previous, expense => nextYearMonth(monthOf(expense.date)));
+
+  const present = Array.from(current.keys()).sort();
+  const from = range.from ? monthOf(range.from) : present[0];
+  const to = range.to ? monthOf(range.to) : present[present.length - 1];
+  if (!from || !to) return [];
+
+  return monthsBetween(from, to).map(month => {
+    const { totalIncome, totalExpenses } = summarizeExpenses(current.get(month) ?? []);
+    const row: MonthlyBreakdown = { month, income: totalIncome, expenses: totalExpenses };
+    if (before) {
+      const earlier = summarizeExpenses(before.get(month) ?? []);
+      row.previousYear = { income: earlier.totalIncome, expenses: earlier.totalExpenses };
+    }
+    return row;
+  });
+};
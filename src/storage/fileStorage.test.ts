@@ -0,0 +1,134 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createFileStorage } from './fileStorage';
+import { AnimalInput, Storage } from './types';
+
+const bella: AnimalInput = {
+  name: 'Bella',
+  type: 'goat',
+  breed: 'Boer',
+  gender: 'female',
+  photos: [],
+  status: 'active',
+  insured: false,
+};
+
+describe('file storage', () => {
+  let dir: string;
+  let storage: Storage;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'farm-file-storage-'));
+    storage = createFileStorage(dir);
+  });
+
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('keeps what it writes across instances', async () => {
+    const animal = await storage.forFarm('1').animals.create(bella);
+    const reopened = createFileStorage(dir);
+    expect(await reopened.forFarm('1').animals.findById(animal.id)).toEqual(animal);
+  });
+
+  it('confines each farm to its own rows', async () => {
+    const farm1 = storage.forFarm('1');
+    const farm2 = storage.forFarm('2');
+    const animal = await farm1.animals.create(bella);
+
+    expect(await farm2.animals.findById(animal.id)).toBeNull();
+    expect(await farm2.animals.list()).toEqual([]);
+    expect(await farm2.animals.update(animal.id, { name: 'Stolen' })).toBeNull();
+    expect(await farm2.animals.delete(animal.id)).toBeNull();
+    expect((await farm1.animals.findById(animal.id))?.name).toBe('Bella');
+  });
+
+  it('applies changes, with null clearing a field', async () => {
+    const farm = storage.forFarm('1');
+    const animal = await farm.animals.create({ ...bella, markings: 'White blaze', notes: 'Quiet' });
+
+    const updated = await farm.animals.update(animal.id, { markings: null, notes: 'Friendly' });
+    expect(updated).toMatchObject({ name: 'Bella', notes: 'Friendly' });
+    expect(updated?.markings).toBeUndefined();
+  });
+
+  it('moves deleted rows to the trash until they are restored or purged', async () => {
+    const farm = storage.forFarm('1');
+    const animal = await farm.animals.create(bella);
+    const weight = await farm.weightRecords.create({ animalId: animal.id, weight: 30, date: '2025-01-01' });
+
+    await farm.animals.delete(animal.id);
+    expect(await farm.animals.findById(animal.id)).toBeNull();
+    expect(await farm.weightRecords.list(animal.id)).toEqual([]);
+    expect((await farm.animals.listDeleted()).map(row => row.id)).toEqual([animal.id]);
+
+    expect(await farm.animals.restore(animal.id)).toMatchObject({ id: animal.id });
+    expect(await farm.weightRecords.findById(weight.id)).toMatchObject({ weight: 30 });
+    expect(await farm.animals.listDeleted()).toEqual([]);
+
+    await farm.animals.delete(animal.id);
+    expect(await storage.purgeDeleted(new Date(Date.now() + 1000).toISOString())).toBeGreaterThan(0);
+    expect(await farm.animals.restore(animal.id)).toBeNull();
+  });
+
+  it('transfers an animal and its records only from the farm it is in', async () => {
+    const animal = await storage.forFarm('1').animals.create(bella);
+    await storage.forFarm('1').weightRecords.create({ animalId: animal.id, weight: 30, date: '2025-01-01' });
+
+    expect(await storage.transferAnimal(animal.id, '3', '2')).toBeNull();
+    expect(await storage.transferAnimal(animal.id, '1', '2')).toMatchObject({ id: animal.id });
+    expect(await storage.forFarm('1').animals.findById(animal.id)).toBeNull();
+    expect(await storage.forFarm('2').weightRecords.list(animal.id)).toHaveLength(1);
+  });
+
+  it('leaves a transferred animal unchanged until it has moved', async () => {
+    const animal = await storage.forFarm('1').animals.create(bella);
+    await storage.forFarm('1').weightRecords.create({ animalId: animal.id, weight: 30, date: '2025-01-01' });
+
+    expect(await storage.transferAnimal(animal.id, '1', '2')).toEqual(animal);
+    expect(await storage.forFarm('2').animals.findById(animal.id)).toEqual(animal);
+  });
+
+  it('clears links a transfer would leave pointing across farms', async () => {
+    const farm1 = storage.forFarm('1');
+    const dam = await farm1.animals.create(bella);
+    const sire = await farm1.animals.create({ ...bella, name: 'Max', gender: 'male' });
+    const otherDam = await farm1.animals.create({ ...bella, name: 'Daisy' });
+    const otherSire = await farm1.animals.create({ ...bella, name: 'Rocky', gender: 'male' });
+    const asDam = await farm1.breedingRecords.create({
+      motherId: dam.id, fatherId: sire.id, breedingDate: '2025-01-01', breedingMethod: 'natural',
+    });
+    const withOtherSire = await farm1.breedingRecords.create({
+      motherId: dam.id, fatherId: otherSire.id, breedingDate: '2024-01-01', breedingMethod: 'natural',
+    });
+    const asSire = await farm1.breedingRecords.create({
+      motherId: otherDam.id, fatherId: sire.id, breedingDate: '2025-02-01', breedingMethod: 'natural',
+    });
+    const task = await farm1.tasks.create({
+      title: 'Trim hooves', description: '', category: '', taskType: '', priority: 'medium',
+      status: 'pending', dueDate: '2025-03-01', assignedTo: 'Sam', notes: '', animalId: sire.id,
+    });
+
+    await storage.transferAnimal(sire.id, '1', '2');
+    expect((await farm1.breedingRecords.findById(asSire.id))?.fatherId).toBeUndefined();
+    expect((await farm1.tasks.findById(task.id))?.animalId).toBeUndefined();
+
+    expect((await farm1.breedingRecords.findById(asDam.id))?.fatherId).toBeUndefined();
+
+    await storage.transferAnimal(dam.id, '1', '3');
+    const farm3 = storage.forFarm('3');
+    expect(await farm3.breedingRecords.findById(withOtherSire.id)).toMatchObject({ motherId: dam.id });
+    expect((await farm3.breedingRecords.findById(withOtherSire.id))?.fatherId).toBeUndefined();
+  });
+
+  it('claims an idempotency key once per scope', async () => {
+    const record = { scope: 'user:1:farm:1', key: 'k1', fingerprint: 'f', createdAt: new Date().toISOString() };
+    expect(await storage.idempotencyKeys.claim(record)).toBeNull();
+    expect(await storage.idempotencyKeys.claim(record)).toMatchObject({ key: 'k1' });
+    expect(await storage.idempotencyKeys.claim({ ...record, scope: 'user:2:farm:1' })).toBeNull();
+
+    await storage.idempotencyKeys.complete(record.scope, 'k1', { status: 201, body: { id: '1' } });
+    expect(await storage.idempotencyKeys.claim(record)).toMatchObject({ status: 201, body: { id: '1' } });
+  });
+});
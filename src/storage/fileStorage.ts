@@ -0,0 +1,616 @@
+import {
+  AnimalRecord,
+  WeightRecord,
+  BreedingRecord,
+  VaccinationRecord,
+  HealthRecord,
+} from "@shared/animal-types";
+import { ExpenseRecord, CategoryConfig } from "@shared/expense-types";
+import { Task } from "@shared/task-types";
+import { UserRecord } from "@shared/auth-types";
+import { FarmRecord } from "@shared/farm-types";
+import { AuditEntry } from "@shared/audit-types";
+import { WebhookSubscription, WebhookDelivery } from "@shared/webhook-types";
+import { JsonFileStore } from './jsonFileStore';
+import { applyWindow, containsText, equalsText, withinBounds } from './listQuery';
+import { summarizeExpenses } from './expenseTotals';
+import { summarizeLogs } from './logStats';
+import {
+  Storage,
+  FarmStorage,
+  Changes,
+  ErrorLogEntry,
+  ErrorLogFilter,
+  ExpenseFilter,
+  IdempotencyRecord,
+  StoredUser,
+  StoredWebhook,
+  Trashed,
+  DEFAULT_FARM_ID,
+} from './types';
+
+type Row = { id: string };
+type FarmRow<T> = T & { farmId?: string; deletedAt?: string };
+
+// Undefined changes leave existing values untouched and null ones remove the
+// field, matching how supabase-js serializes update payloads.
+const applyChanges = <T extends object>(row: T, changes: Changes<T>): T => {
+  const next = { ...row } as Record<string, unknown>;
+  for (const [key, value] of Object.entries(changes)) {
+    if (value === null) delete next[key];
+    else if (value !== undefined) next[key] = value;
+  }
+  return next as T;
+};
+
+// Collections whose rows are soft-deleted into the trash
+const TRASHABLE_COLLECTIONS = [
+  'animals',
+  'weight-records',
+  'breeding-records',
+  'vaccination-records',
+  'health-records',
+  'tasks',
+  'expenses',
+];
+
+const byIdDesc = (a: Row, b: Row) => Number(b.id) - Number(a.id);
+const byIdAsc = (a: Row, b: Row) => Number(a.id) - Number(b.id);
+const byFieldDesc = <T>(field: keyof T) => (a: T, b: T) =>
+  String(b[field] ?? '').localeCompare(String(a[field] ?? ''));
+
+/** CRUD helpers over one JSON collection. */
+const collection = <T extends Row>(store: JsonFileStore, name: string) => ({
+  all(): T[] {
+    return store.read<T>(name);
+  },
+
+  insert(rows: Omit<T, 'id'>[]): T[] {
+    const existing = store.read<T>(name);
+    const created = rows.map(row => {
+      const record = { id: store.nextId(existing), ...row } as T;
+      existing.push(record);
+      return record;
+    });
+    store.write(name, existing);
+    return created;
+  },
+
+  update(id: string, changes: Changes<T>): T | null {
+    const rows = store.read<T>(name);
+    const index = rows.findIndex(row => row.id === id);
+    if (index === -1) return null;
+    rows[index] = { ...applyChanges(rows[index], changes), id };
+    store.write(name, rows);
+    return rows[index];
+  },
+
+  // Replaces every matching row with `modify(row)`; resolves to the new rows
+  modifyWhere(match: (row: T) => boolean, modify: (row: T) => T): T[] {
+    const rows = store.read<T>(name);
+    const modified: T[] = [];
+    const updated = rows.map(row => {
+      if (!match(row)) return row;
+      const next = { ...modify(row), id: row.id };
+      modified.push(next);
+      return next;
+    });
+    if (modified.length > 0) store.write(name, updated);
+    return modified;
+  },
+
+  // Applies the same changes to every matching row; resolves to the count
+  updateWhere(match: (row: T) => boolean, changes: Changes<T>): number {
+    return this.modifyWhere(match, row => applyChanges(row, changes)).length;
+  },
+
+  remove(ids: string[]): T[] {
+    const rows = store.read<T>(name);
+    const removed = rows.filter(row => ids.includes(row.id));
+    if (removed.length > 0) {
+      store.write(name, rows.filter(row => !ids.includes(row.id)));
+    }
+    return removed;
+  },
+});
+
+/**
+ * The same helpers confined to one farm's rows. Rows written before farms
+ * existed have no farmId and belong to DEFAULT_FARM_ID. farmId is kept out
+ * of the returned records.
+ *
+ * Rows carrying `deletedAt` are in the trash: only `trashed` and `restore`
+ * see them.
+ */
+const farmCollection = <T extends Row>(store: JsonFileStore, name: string, farmId: string) => {
+  const rows = collection<FarmRow<T>>(store, name);
+  const inFarm = (row: FarmRow<T>) => (row.farmId ?? DEFAULT_FARM_ID) === farmId;
+  const isLive = (row: FarmRow<T>) => inFarm(row) && !row.deletedAt;
+  const strip = ({ farmId: _farmId, ...row }: FarmRow<T>) => row as unknown as T;
+  const own = (ids: string[]) =>
+    rows.all().filter(row => isLive(row) && ids.includes(row.id)).map(row => row.id);
+
+  return {
+    all(): T[] {
+      return rows.all().filter(isLive).map(strip);
+    },
+
+    trashed(): Trashed<T>[] {
+      return rows.all()
+        .filter(row => inFarm(row) && !!row.deletedAt)
+        .map(row => strip(row) as Trashed<T>);
+    },
+
+    find(id: string): T | null {
+      return this.all().find(row => row.id === id) ?? null;
+    },
+
+    insert(newRows: Omit<T, 'id'>[]): T[] {
+      return rows.insert(newRows.map(row => ({ ...row, farmId }) as Omit<FarmRow<T>, 'id'>)).map(strip);
+    },
+
+    update(id: string, changes: Changes<T>): T | null {
+      if (own([id]).length === 0) return null;
+      const updated = rows.update(id, changes as Changes<FarmRow<T>>);
+      return updated ? strip(updated) : null;
+    },
+
+    remove(ids: string[]): T[] {
+      return rows.remove(own(ids)).map(strip);
+    },
+
+    // Moves matching live rows to the trash; resolves to them as they were
+    trash(match: (row: T) => boolean, deletedAt: string): T[] {
+      return rows
+        .modifyWhere(row => isLive(row) && match(strip(row)), row => ({ ...row, deletedAt }))
+        .map(({ deletedAt: _deletedAt, ...row }) => strip(row as FarmRow<T>));
+    },
+
+    restore(match: (row: Trashed<T>) => boolean): T[] {
+      return rows
+        .modifyWhere(
+          row => inFarm(row) && !!row.deletedAt && match(strip(row) as Trashed<T>),
+          ({ deletedAt: _deletedAt, ...row }) => row as FarmRow<T>,
+        )
+        .map(strip);
+    },
+  };
+};
+
+/**
+ * Storage backend that keeps every entity in JSON files under `dir`.
+ * Intended for offline use in the field and for integration tests.
+ */
+export const createFileStorage = (dir: string): Storage => {
+  const store = new JsonFileStore(dir);
+  const now = () => new Date().toISOString();
+
+  const farms = collection<FarmRecord>(store, 'farms');
+  const users = collection<StoredUser>(store, 'users');
+  const idempotencyKeys = collection<IdempotencyRecord & Row>(store, 'idempotency-keys');
+
+  // categoryId is a storage detail and not part of ExpenseRecord
+  const toExpense = ({ categoryId, ...expense }: ExpenseRecord & { categoryId?: string }): ExpenseRecord => expense;
+
+  // Users created before farms existed belong to the default farm
+  const toStoredUser = (user: StoredUser): StoredUser => ({
+    ...user,
+    farmIds: user.farmIds ?? [DEFAULT_FARM_ID],
+  });
+
+  const toUser = (stored: StoredUser): UserRecord => {
+    const { passwordHash, ...user } = toStoredUser(stored);
+    return user;
+  };
+
+  const toWebhook = ({ secret, ...webhook }: StoredWebhook): WebhookSubscription => webhook;
+
+  const toDelivery = ({ nextAttemptAt, ...delivery }: WebhookDelivery): WebhookDelivery =>
+    delivery.status === 'pending' ? { ...delivery, nextAttemptAt } : delivery;
+
+  // Details are stored as a JSON string, so searching them searches that text
+  const matchingLogs = ({ level, source, startDate, endDate, search, requestId, userId }: ErrorLogFilter) =>
+    store.readLines<ErrorLogEntry>('error-logs')
+      .filter(entry =>
+        (!level || entry.level === level) &&
+        (!source || entry.source === source) &&
+        (!requestId || entry.requestId === requestId) &&
+        (!userId || entry.userId === userId) &&
+        withinBounds(entry.timestamp, startDate, endDate) &&
+        (!search || containsText(entry.message, search) ||
+          containsText(typeof entry.details === 'string' ? entry.details : JSON.stringify(entry.details), search)))
+      .sort(byFieldDesc('timestamp'));
+
+  const forFarm = (farmId: string): FarmStorage => {
+    const animals = farmCollection<AnimalRecord>(store, 'animals', farmId);
+    const weightRecords = farmCollection<WeightRecord>(store, 'weight-records', farmId);
+    const breedingRecords = farmCollection<BreedingRecord>(store, 'breeding-records', farmId);
+    const vaccinationRecords = farmCollection<VaccinationRecord>(store, 'vaccination-records', farmId);
+    const healthRecords = farmCollection<HealthRecord>(store, 'health-records', farmId);
+    const tasks = farmCollection<Task>(store, 'tasks', farmId);
+    const expenses = farmCollection<ExpenseRecord & { categoryId?: string }>(store, 'expenses', farmId);
+    const categories = farmCollection<CategoryConfig>(store, 'categories', farmId);
+    const webhooks = farmCollection<StoredWebhook>(store, 'webhooks', farmId);
+    const webhookDeliveries = farmCollection<WebhookDelivery>(store, 'webhook-deliveries', farmId);
+
+    const matchingExpenses = (filter: ExpenseFilter) =>
+      expenses.all().map(toExpense).filter(expense =>
+        (!filter.search ||
+          [expense.description, expense.category, expense.subCategory, expense.notes]
+            .some(value => containsText(value, filter.search!))) &&
+        (!filter.type || expense.type === filter.type) &&
+        (!filter.category || equalsText(expense.category, filter.category)) &&
+        (!filter.paidBy || equalsText(expense.paidBy, filter.paidBy)) &&
+        (!filter.source || equalsText(expense.source, filter.source)) &&
+        withinBounds(expense.date, filter.dateFrom, filter.dateTo));
+
+    return {
+      farmId,
+
+      animals: {
+        list: async () => animals.all().sort(byIdDesc),
+        query: async (query) =>
+          applyWindow(
+            animals.all().filter(animal =>
+              (!query.search ||
+                [animal.name, animal.breed, animal.markings].some(value => containsText(value, query.search!))) &&
+              (!query.type || animal.type === query.type) &&
+              (!query.gender || animal.gender === query.gender) &&
+              (!query.status || animal.status === query.status) &&
+              (!query.breed || equalsText(animal.breed, query.breed)) &&
+              withinBounds(animal.dateOfBirth, query.bornFrom, query.bornTo) &&
+              withinBounds(animal.currentWeight, query.minWeight, query.maxWeight)),
+            query,
+          ),
+        findById: async (id) => animals.find(id),
+        create: async (animal) =>
+          animals.insert([{ ...animal, createdAt: now(), updatedAt: now() }])[0],
+        update: async (id, animal) => animals.update(id, { ...animal, updatedAt: now() }),
+        delete: async (id) => {
+          const deletedAt = now();
+          const animal = animals.trash(row => row.id === id, deletedAt)[0];
+          if (!animal) return null;
+
+          const ofAnimal = (row: { animalId: string }) => row.animalId === id;
+          weightRecords.trash(ofAnimal, deletedAt);
+          vaccinationRecords.trash(ofAnimal, deletedAt);
+          healthRecords.trash(ofAnimal, deletedAt);
+          // Breedings belong to the mother; as a sire the animal keeps its
+          // links while in the trash, so restoring it brings them back
+          breedingRecords.trash(row => row.motherId === id, deletedAt);
+          return animal;
+        },
+        listDeleted: async () => animals.trashed().sort(byFieldDesc('deletedAt')),
+        restore: async (id) => {
+          const trashed = animals.trashed().find(row => row.id === id);
+          if (!trashed) return null;
+
+          const deletedWith = (row: Trashed<{ animalId: string }>) =>
+            row.animalId === id && row.deletedAt === trashed.deletedAt;
+          weightRecords.restore(deletedWith);
+          vaccinationRecords.restore(deletedWith);
+          healthRecords.restore(deletedWith);
+          breedingRecords.restore(row => row.motherId === id && row.deletedAt === trashed.deletedAt);
+          return animals.restore(row => row.id === id)[0];
+        },
+      },
+
+      weightRecords: {
+        list: async (animalId) =>
+          weightRecords.all()
+            .filter(record => !animalId || record.animalId === animalId)
+            .sort(byFieldDesc('date')),
+        findById: async (id) => weightRecords.find(id),
+        create: async (record) => weightRecords.insert([{ ...record, createdAt: now() }])[0],
+        update: async (id, record) => weightRecords.update(id, record),
+        delete: async (id) => weightRecords.trash(row => row.id === id, now())[0] ?? null,
+        deleteMany: async (ids) => weightRecords.trash(row => ids.includes(row.id), now()),
+        listDeleted: async () => weightRecords.trashed().sort(byFieldDesc('deletedAt')),
+        restore: async (id) => weightRecords.restore(row => row.id === id)[0] ?? null,
+      },
+
+      breedingRecords: {
+        list: async (animalId) =>
+          breedingRecords.all()
+            .filter(record => !animalId || record.motherId === animalId || record.fatherId === animalId)
+            .sort(byFieldDesc('breedingDate')),
+        findById: async (id) => breedingRecords.find(id),
+        create: async (record) =>
+          breedingRecords.insert([{ ...record, createdAt: now(), updatedAt: now() }])[0],
+        update: async (id, record) => breedingRecords.update(id, { ...record, updatedAt: now() }),
+        delete: async (id) => breedingRecords.trash(row => row.id === id, now())[0] ?? null,
+        deleteMany: async (ids) => breedingRecords.trash(row => ids.includes(row.id), now()),
+        listDeleted: async () => breedingRecords.trashed().sort(byFieldDesc('deletedAt')),
+        restore: async (id) => breedingRecords.restore(row => row.id === id)[0] ?? null,
+      },
+
+      vaccinationRecords: {
+        list: async (animalId) =>
+          vaccinationRecords.all()
+            .filter(record => !animalId || record.animalId === animalId)
+            .sort(byFieldDesc('administrationDate')),
+        findById: async (id) => vaccinationRecords.find(id),
+        create: async (record) => vaccinationRecords.insert([{ ...record, createdAt: now() }])[0],
+        update: async (id, record) => vaccinationRecords.update(id, record),
+        delete: async (id) => vaccinationRecords.trash(row => row.id === id, now())[0] ?? null,
+        deleteMany: async (ids) => vaccinationRecords.trash(row => ids.includes(row.id), now()),
+        listDeleted: async () => vaccinationRecords.trashed().sort(byFieldDesc('deletedAt')),
+        restore: async (id) => vaccinationRecords.restore(row => row.id === id)[0] ?? null,
+      },
+
+      healthRecords: {
+        list: async (animalId) =>
+          healthRecords.all()
+            .filter(record => !animalId || record.animalId === animalId)
+            .sort(byFieldDesc('date')),
+        findById: async (id) => healthRecords.find(id),
+        create: async (record) => healthRecords.insert([{ ...record, createdAt: now() }])[0],
+        update: async (id, record) => healthRecords.update(id, record),
+        delete: async (id) => healthRecords.trash(row => row.id === id, now())[0] ?? null,
+        deleteMany: async (ids) => healthRecords.trash(row => ids.includes(row.id), now()),
+        listDeleted: async () => healthRecords.trashed().sort(byFieldDesc('deletedAt')),
+        restore: async (id) => healthRecords.restore(row => row.id === id)[0] ?? null,
+      },
+
+      tasks: {
+        list: async () => tasks.all().sort(byIdDesc),
+        findById: async (id) => tasks.find(id),
+        create: async (task) => tasks.insert([{ ...task, createdAt: now() }])[0],
+        createMany: async (newTasks) => tasks.insert(newTasks.map(task => ({ ...task, createdAt: now() }))),
+        update: async (id, task) => tasks.update(id, task),
+        delete: async (id) => tasks.trash(row => row.id === id, now())[0] ?? null,
+        deleteMany: async (ids) => tasks.trash(row => ids.includes(row.id), now()),
+        listDeleted: async () => tasks.trashed().sort(byFieldDesc('deletedAt')),
+        restore: async (id) => tasks.restore(row => row.id === id)[0] ?? null,
+      },
+
+      expenses: {
+        list: async () => expenses.all().sort(byIdAsc).map(toExpense),
+        query: async (query) => applyWindow(matchingExpenses(query), query),
+        summarize: async (filter) => summarizeExpenses(matchingExpenses(filter)),
+        findById: async (id) => {
+          const expense = expenses.find(id);
+          return expense ? toExpense(expense) : null;
+        },
+        create: async (expense) => toExpense(expenses.insert([expense])[0]),
+        update: async (id, expense) => {
+          const updated = expenses.update(id, expense);
+          return updated ? toExpense(updated) : null;
+        },
+        delete: async (id) => {
+          const removed = expenses.trash(row => row.id === id, now())[0];
+          return removed ? toExpense(removed) : null;
+        },
+        deleteMany: async (ids) => expenses.trash(row => ids.includes(row.id), now()).map(toExpense),
+        listDeleted: async () =>
+          expenses.trashed()
+            .sort(byFieldDesc('deletedAt'))
+            .map(({ categoryId, ...expense }) => expense),
+        restore: async (id) => {
+          const restored = expenses.restore(row => row.id === id)[0];
+          return restored ? toExpense(restored) : null;
+        },
+      },
+
+      categories: {
+        list: async () => categories.all().sort(byIdAsc),
+        findByName: async (name) => categories.all().find(cat => cat.name === name) ?? null,
+        create: async (category) => categories.insert([{ ...category, createdAt: now() }])[0],
+        replaceAll: async (newCategories) => {
+          categories.remove(categories.all().map(cat => cat.id));
+          categories.insert(newCategories.map(cat => ({
+            name: cat.name,
+            subCategories: cat.subCategories || [],
+            createdAt: now(),
+          })));
+        },
+      },
+
+      // Append-only, so entries are stored oldest first
+      audit: {
+        insert: async (entries) => {
+          let lastId = store.readLines('audit-log').length;
+          for (const entry of entries) {
+            store.append('audit-log', { id: String(++lastId), farmId, ...entry });
+          }
+        },
+        query: async (query) => {
+          const matches = store.readLines<FarmRow<AuditEntry>>('audit-log')
+            .filter(entry =>
+              (entry.farmId ?? DEFAULT_FARM_ID) === farmId &&
+              (!query.entity || entry.entity === query.entity) &&
+              (!query.entityId || entry.entityId === query.entityId) &&
+              (!query.animalId || entry.animalId === query.animalId) &&
+              (!query.action || entry.action === query.action) &&
+              (!query.userId || entry.userId === query.userId) &&
+              withinBounds(entry.timestamp, query.since, query.until))
+            .reverse();
+          return {
+            items: matches
+              .slice(query.offset, query.offset + query.limit)
+              .map(({ farmId: _farmId, ...entry }) => entry),
+            total: matches.length,
+          };
+        },
+      },
+
+      webhooks: {
+        list: async () => webhooks.all().sort(byIdAsc).map(toWebhook),
+        findById: async (id) => webhooks.find(id),
+        create: async (webhook) => webhooks.insert([{ ...webhook, createdAt: now(), updatedAt: now() }])[0],
+        update: async (id, webhook) => {
+          const updated = webhooks.update(id, { ...webhook, updatedAt: now() });
+          return updated ? toWebhook(updated) : null;
+        },
+        delete: async (id) => {
+          const removed = webhooks.remove([id])[0];
+          if (!removed) return null;
+          webhookDeliveries.remove(webhookDeliveries.all().filter(row => row.webhookId === id).map(row => row.id));
+          return toWebhook(removed);
+        },
+      },
+
+      webhookDeliveries: {
+        query: async ({ webhookId, status, offset, limit }) => {
+          const matches = webhookDeliveries.all()
+            .filter(row => row.webhookId === webhookId && (!status || row.status === status))
+            .sort(byIdDesc);
+          return { items: matches.slice(offset, offset + limit).map(toDelivery), total: matches.length };
+        },
+        findById: async (id) => {
+          const delivery = webhookDeliveries.find(id);
+          return delivery ? toDelivery(delivery) : null;
+        },
+        create: async (delivery) => toDelivery(webhookDeliveries.insert([delivery])[0]),
+        update: async (id, delivery) => {
+          const updated = webhookDeliveries.update(id, delivery);
+          return updated ? toDelivery(updated) : null;
+        },
+        listDue: async (until) =>
+          webhookDeliveries.all()
+            .filter(row => row.status === 'pending' && (row.nextAttemptAt ?? '') <= until)
+            .sort(byIdAsc),
+      },
+    };
+  };
+
+  return {
+    forFarm,
+
+    transferAnimal: async (id, fromFarmId, toFarmId) => {
+      const animal = await forFarm(fromFarmId).animals.findById(id);
+      if (!animal) return null;
+
+      const inFarm = (farmId: string) => (row: { farmId?: string }) => (row.farmId ?? DEFAULT_FARM_ID) === farmId;
+      const updateIn = <T extends Row>(
+        farmId: string,
+        name: string,
+        match: (row: FarmRow<T>) => boolean,
+        changes: Changes<FarmRow<T>>,
+      ) => collection<FarmRow<T>>(store, name).updateWhere(row => inFarm(farmId)(row) && match(row), changes);
+      const move = <T extends Row>(name: string, match: (row: FarmRow<T>) => boolean) =>
+        updateIn<T>(fromFarmId, name, match, { farmId: toFarmId } as Changes<FarmRow<T>>);
+
+      move<AnimalRecord>('animals', row => row.id === id);
+      move<WeightRecord>('weight-records', row => row.animalId === id);
+      move<VaccinationRecord>('vaccination-records', row => row.animalId === id);
+      move<HealthRecord>('health-records', row => row.animalId === id);
+      move<BreedingRecord>('breeding-records', row => row.motherId === id);
+
+      // Links that would now cross farms are dropped: the animal as sire of
+      // breedings that stay, tasks that stay, and sires left behind by the
+      // breedings that moved
+      const targetAnimalIds = new Set(
+        collection<FarmRow<AnimalRecord>>(store, 'animals').all().filter(inFarm(toFarmId)).map(row => row.id),
+      );
+      updateIn<BreedingRecord>(fromFarmId, 'breeding-records', row => row.fatherId === id, { fatherId: null });
+      updateIn<BreedingRecord>(
+        toFarmId,
+        'breeding-records',
+        row => row.motherId === id && !!row.fatherId && !targetAnimalIds.has(row.fatherId),
+        { fatherId: null },
+      );
+      updateIn<Task>(fromFarmId, 'tasks', row => row.animalId === id, { animalId: null });
+
+      return animal;
+    },
+
+    purgeDeleted: async (before) => {
+      let purged = 0;
+      const purgedAnimalIds = new Set<string>();
+      for (const name of TRASHABLE_COLLECTIONS) {
+        const rows = collection<Row & { deletedAt?: string }>(store, name);
+        const expired = rows.all().filter(row => row.deletedAt && row.deletedAt < before);
+        const removed = rows.remove(expired.map(row => row.id));
+        if (name === 'animals') removed.forEach(row => purgedAnimalIds.add(row.id));
+        purged += removed.length;
+      }
+
+      // Like the database's ON DELETE SET NULL: links to a purged sire or task animal are cleared
+      if (purgedAnimalIds.size > 0) {
+        collection<BreedingRecord>(store, 'breeding-records')
+          .updateWhere(row => !!row.fatherId && purgedAnimalIds.has(row.fatherId), { fatherId: null });
+        collection<Task>(store, 'tasks')
+          .updateWhere(row => !!row.animalId && purgedAnimalIds.has(row.animalId), { animalId: null });
+      }
+      return purged;
+    },
+
+    checkHealth: async () => {
+      try {
+        store.assertWritable();
+        return [{ name: 'dataDir', ok: true }];
+      } catch (error) {
+        return [{ name: 'dataDir', ok: false, error: (error as Error).message }];
+      }
+    },
+
+    farms: {
+      list: async () => farms.all().sort(byIdAsc),
+      findById: async (id) => farms.all().find(farm => farm.id === id) ?? null,
+      create: async (farm) => farms.insert([{ ...farm, createdAt: now(), updatedAt: now() }])[0],
+      update: async (id, farm) => farms.update(id, { ...farm, updatedAt: now() }),
+    },
+
+    users: {
+      list: async () => users.all().sort(byIdAsc).map(toUser),
+      findById: async (id) => {
+        const user = users.all().find(user => user.id === id);
+        return user ? toStoredUser(user) : null;
+      },
+      findByUsername: async (username) => {
+        const user = users.all().find(user => user.username === username.toLowerCase());
+        return user ? toStoredUser(user) : null;
+      },
+      create: async (user) =>
+        toUser(users.insert([{ ...user, username: user.username.toLowerCase(), createdAt: now(), updatedAt: now() }])[0]),
+      update: async (id, user) => {
+        const updated = users.update(id, { ...user, updatedAt: now() });
+        return updated ? toUser(updated) : null;
+      },
+      delete: async (id) => {
+        const removed = users.remove([id])[0];
+        return removed ? toUser(removed) : null;
+      },
+    },
+
+    // Reads and writes are synchronous, so claiming a key cannot race another request
+    idempotencyKeys: {
+      claim: async (record) => {
+        const existing = idempotencyKeys.all().find(row => row.scope === record.scope && row.key === record.key);
+        if (existing) {
+          const { id: _id, ...stored } = existing;
+          return stored;
+        }
+        idempotencyKeys.insert([record]);
+        return null;
+      },
+      complete: async (scope, key, response) => {
+        idempotencyKeys.modifyWhere(row => row.scope === scope && row.key === key, row => ({ ...row, ...response }));
+      },
+      release: async (scope, key) => {
+        idempotencyKeys.remove(idempotencyKeys.all().filter(row => row.scope === scope && row.key === key).map(row => row.id));
+      },
+      purge: async (before) => {
+        const expired = idempotencyKeys.all().filter(row => row.createdAt < before);
+        return idempotencyKeys.remove(expired.map(row => row.id)).length;
+      },
+    },
+
+    errorLogs: {
+      ensureReady: async () => true,
+      insert: async (entries) => store.appendLines('error-logs', entries),
+      query: async ({ limit, offset = 0, ...filter }) => {
+        const matches = matchingLogs(filter);
+        return { items: matches.slice(offset, offset + limit), total: matches.length };
+      },
+      summarize: async (filter, interval) => summarizeLogs(matchingLogs(filter), interval),
+      purge: async (until) => {
+        const entries = store.readLines<ErrorLogEntry>('error-logs');
+        const kept = entries.filter(entry => entry.timestamp > until);
+        store.writeLines('error-logs', kept);
+        return entries.length - kept.length;
+      },
+    },
+  };
+};
@@ -0,0 +1,31 @@
+import config from '../config';
+import { Storage } from './types';
+import { createFileStorage } from './fileStorage';
+import { createSupabaseStorage } from './supabaseStorage';
+
+export * from './types';
+export { summarizeExpenses, totalsByCategory, totalsByMonth } from './expenseTotals';
+
+/**
+ * Builds the configured storage backend:
+ * - `supabase` (default): the hosted Supabase project
+ * - `local`: JSON files under LOCAL_DATA_DIR (default `./data`), no network needed
+ */
+export const createStorage = (
+  backend: string = config.storage.backend,
+  localDataDir: string = config.storage.localDataDir,
+): Storage => {
+  switch (backend) {
+    case 'supabase':
+      // Required lazily so the local backend never touches the Supabase client
+      return createSupabaseStorage(require('../routes/supabaseClient').default);
+    case 'local':
+      return createFileStorage(localDataDir);
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${backend}" (expected "supabase" or "local")`);
+  }
+};
+
+const storage: Storage = createStorage();
+
+export default storage;
@@ -0,0 +1,70 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Minimal JSON-file persistence used by the local storage backend.
+ * Each collection is one `<name>.json` file holding an array of rows.
+ * Reads and writes are synchronous so a read-modify-write never interleaves
+ * with another request in the same process.
+ */
+export class JsonFileStore {
+  constructor(private readonly dir: string) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  // Throws unless the data directory exists and is writable
+  assertWritable(): void {
+    fs.accessSync(this.dir, fs.constants.W_OK);
+  }
+
+  private filePath(collection: string): string {
+    return path.join(this.dir, `${collection}.json`);
+  }
+
+  read<T>(collection: string): T[] {
+    const file = this.filePath(collection);
+    if (!fs.existsSync(file)) return [];
+    const content = fs.readFileSync(file, 'utf8');
+    return content.trim() ? JSON.parse(content) : [];
+  }
+
+  write<T>(collection: string, rows: T[]): void {
+    // Write to a temp file and rename so a crash never leaves a truncated file
+    const file = this.filePath(collection);
+    const tmp = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(rows, null, 2));
+    fs.renameSync(tmp, file);
+  }
+
+  append<T>(collection: string, row: T): void {
+    fs.appendFileSync(path.join(this.dir, `${collection}.jsonl`), JSON.stringify(row) + '\n');
+  }
+
+  // Appends several rows in one write
+  appendLines<T>(collection: string, rows: T[]): void {
+    fs.appendFileSync(path.join(this.dir, `${collection}.jsonl`), rows.map(row => JSON.stringify(row) + '\n').join(''));
+  }
+
+  // Replaces a `.jsonl` collection, e.g. after dropping old entries
+  writeLines<T>(collection: string, rows: T[]): void {
+    const file = path.join(this.dir, `${collection}.jsonl`);
+    const tmp = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, rows.map(row => JSON.stringify(row) + '\n').join(''));
+    fs.renameSync(tmp, file);
+  }
+
+  readLines<T>(collection: string): T[] {
+    const file = path.join(this.dir, `${collection}.jsonl`);
+    if (!fs.existsSync(file)) return [];
+    return fs.readFileSync(file, 'utf8')
+      .split('\n')
+      .filter(line => line.trim() !== '')
+      .map(line => JSON.parse(line));
+  }
+
+  /** Next numeric id for a collection, mirroring Postgres BIGSERIAL keys. */
+  nextId(rows: { id: string | number }[]): string {
+    const max = rows.reduce((acc, row) => Math.max(acc, Number(row.id) || 0), 0);
+    return String(max + 1);
+  }
+}
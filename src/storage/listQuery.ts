@@ -0,0 +1,51 @@
+import { SortOrder } from "@shared/api";
+import { ListWindow, PageResult } from './types';
+
+/**
+ * In-memory versions of the filtering, sorting and paging the Supabase
+ * backend pushes down to SQL, used by the file backend.
+ */
+
+type Row = { id: string };
+
+const isMissing = (value: unknown) => value === undefined || value === null || value === '';
+
+export const containsText = (value: string | undefined, term: string): boolean =>
+  !!value && value.toLowerCase().includes(term.toLowerCase());
+
+export const equalsText = (value: string | undefined, term: string): boolean =>
+  !!value && value.toLowerCase() === term.toLowerCase();
+
+// Inclusive bounds; a missing value never matches a bound
+export const withinBounds = <V extends number | string>(value: V | undefined, min?: V, max?: V): boolean => {
+  if (min === undefined && max === undefined) return true;
+  if (isMissing(value)) return false;
+  return (min === undefined || value! >= min) && (max === undefined || value! <= max);
+};
+
+// Rows missing the sort field go last in either direction; ties break on id
+export const compareBy = <T extends Row>(field: keyof T, order: SortOrder) => {
+  const direction = order === 'asc' ? 1 : -1;
+  const compareValues = (a: unknown, b: unknown): number => {
+    if (isMissing(a) || isMissing(b)) {
+      return isMissing(a) === isMissing(b) ? 0 : isMissing(a) ? 1 : -1;
+    }
+    if (typeof a === 'number' && typeof b === 'number') return (a - b) * direction;
+    return String(a).localeCompare(String(b)) * direction;
+  };
+
+  return (a: T, b: T): number =>
+    (field === 'id' ? 0 : compareValues(a[field], b[field])) ||
+    (Number(a.id) - Number(b.id)) * direction;
+};
+
+export const applyWindow = <T extends Row>(
+  rows: T[],
+  { sortBy, sortOrder, offset, limit }: ListWindow<keyof T & string>,
+): PageResult<T> => {
+  const sorted = [...rows].sort(compareBy<T>(sortBy, sortOrder));
+  return {
+    items: limit === undefined ? sorted.slice(offset) : sorted.slice(offset, offset + limit),
+    total: rows.length,
+  };
+};
@@ -0,0 +1,63 @@
+import { LogCounts, LogStats, LogStatsInterval } from "@shared/log-types";
+import { ErrorLogEntry } from './types';
+
+/**
+ * Log aggregation shared by the storage backends, which fetch the matching
+ * entries' level, source and timestamp and count them here.
+ */
+
+type CountedEntry = Pick<ErrorLogEntry, 'timestamp' | 'level' | 'source'>;
+
+const HOUR_MS = 60 * 60 * 1000;
+const INTERVAL_MS: Record<LogStatsInterval, number> = { hour: HOUR_MS, day: 24 * HOUR_MS };
+
+const emptyCounts = (): LogCounts => ({
+  total: 0,
+  byLevel: { debug: 0, info: 0, warn: 0, error: 0 },
+});
+
+const count = (counts: LogCounts, entry: CountedEntry) => {
+  counts.total++;
+  counts.byLevel[entry.level]++;
+};
+
+// Start of the UTC hour or day containing `timestamp`, in epoch milliseconds
+const bucketOf = (timestamp: string, interval: LogStatsInterval): number => {
+  const time = new Date(timestamp).getTime();
+  return time - (time % INTERVAL_MS[interval]);
+};
+
+export const summarizeLogs = (entries: CountedEntry[], interval: LogStatsInterval): LogStats => {
+  const totals = emptyCounts();
+  const sources = new Map<string, LogCounts>();
+  const buckets = new Map<number, LogCounts>();
+
+  for (const entry of entries) {
+    count(totals, entry);
+
+    if (!sources.has(entry.source)) sources.set(entry.source, emptyCounts());
+    count(sources.get(entry.source)!, entry);
+
+    const bucket = bucketOf(entry.timestamp, interval);
+    if (!buckets.has(bucket)) buckets.set(bucket, emptyCounts());
+    count(buckets.get(bucket)!, entry);
+  }
+
+  const timeline = [];
+  if (buckets.size > 0) {
+    const first = Math.min(...buckets.keys());
+    const last = Math.max(...buckets.keys());
+    for (let start = first; start <= last; start += INTERVAL_MS[interval]) {
+      timeline.push({ start: new Date(start).toISOString(), ...(buckets.get(start) ?? emptyCounts()) });
+    }
+  }
+
+  return {
+    ...totals,
+    bySource: [...sources.entries()]
+      .map(([source, counts]) => ({ source, ...counts }))
+      .sort((a, b) => b.total - a.total || a.source.localeCompare(b.source)),
+    interval,
+    timeline,
+  };
+};
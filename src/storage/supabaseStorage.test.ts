@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createFakeSupabase } from '../test/fakeSupabase';
+import { createSupabaseStorage } from './supabaseStorage';
+import { FarmStorage, Storage } from './types';
+
+describe('supabase storage', () => {
+  let tables: ReturnType<typeof createFakeSupabase>['tables'];
+  let storage: Storage;
+  let farm: FarmStorage;
+
+  beforeEach(() => {
+    const fake = createFakeSupabase(
+      {
+        breeding_records: [
+          { id: 1, farmId: 1, motherId: 1, fatherId: 2, breedingDate: '2025-01-01', breedingMethod: 'natural', deletedAt: null },
+        ],
+        categories: [{ id: 1, farmId: 1, name: 'Feed', subCategories: [] }],
+        expenses: [{ id: 1, farmId: 1, categoryId: 1, description: 'Hay', amount: 10, date: '2025-01-01', deletedAt: null }],
+      },
+      {
+        allexpenses: ({ expenses, categories }) =>
+          expenses.map(expense => ({ ...expense, category: categories.find(c => c.id === expense.categoryId)?.name ?? null })),
+      },
+    );
+    tables = fake.tables;
+    storage = createSupabaseStorage(fake.client);
+    farm = storage.forFarm('1');
+  });
+
+  describe('breeding records', () => {
+    it('keeps the sire when a change leaves fatherId out', async () => {
+      const updated = await farm.breedingRecords.update('1', { notes: 'Confirmed by scan' });
+      expect(updated).toMatchObject({ motherId: '1', fatherId: '2', notes: 'Confirmed by scan' });
+      expect(tables.breeding_records[0].fatherId).toBe(2);
+    });
+
+    it('clears the sire when fatherId is null', async () => {
+      const updated = await farm.breedingRecords.update('1', { fatherId: null });
+      expect(updated?.fatherId).toBeUndefined();
+      expect(tables.breeding_records[0].fatherId).toBeNull();
+    });
+  });
+
+  describe('expenses', () => {
+    it('returns an updated expense as it reads back, category included', async () => {
+      const updated = await farm.expenses.update('1', { amount: 12 });
+      expect(updated).toMatchObject({ amount: 12, category: 'Feed' });
+      expect(updated).toEqual(await farm.expenses.findById('1'));
+    });
+  });
+
+  describe('transfers', () => {
+    beforeEach(() => {
+      const animal = (id: number, name: string, gender: string) =>
+        ({ id, farmId: 1, name, type: 'goat', breed: 'Boer', gender, status: 'active', deletedAt: null });
+      tables.animals = [animal(1, 'Bella', 'female'), animal(2, 'Max', 'male'), animal(3, 'Daisy', 'female')];
+      tables.breeding_records = [
+        { id: 1, farmId: 1, motherId: 1, fatherId: 2, breedingDate: '2025-01-01', deletedAt: null },
+        { id: 2, farmId: 1, motherId: 3, fatherId: 2, breedingDate: '2025-02-01', deletedAt: null },
+      ];
+      tables.tasks = [{ id: 1, farmId: 1, title: 'Trim hooves', animalId: 2 }];
+      tables.weight_records = [{ id: 1, farmId: 1, animalId: 2, weight: 60, date: '2025-01-01' }];
+    });
+
+    it('moves the animal with its records and clears links left across farms', async () => {
+      expect(await storage.transferAnimal('2', '1', '2')).toMatchObject({ id: '2', name: 'Max' });
+
+      expect(tables.animals.find(row => row.id === 2)?.farmId).toBe(2);
+      expect(tables.weight_records[0].farmId).toBe(2);
+      expect(tables.breeding_records.map(row => [row.farmId, row.fatherId])).toEqual([[1, null], [1, null]]);
+      expect(tables.tasks[0]).toMatchObject({ farmId: 1, animalId: null });
+    });
+
+    it("clears the sire of a moved dam's records when it stays behind", async () => {
+      await storage.transferAnimal('1', '1', '2');
+      expect(tables.breeding_records[0]).toMatchObject({ farmId: 2, motherId: 1, fatherId: null });
+      expect(tables.breeding_records[1]).toMatchObject({ farmId: 1, fatherId: 2 });
+    });
+
+    it('only moves an animal from the farm it is in', async () => {
+      expect(await storage.transferAnimal('2', '3', '2')).toBeNull();
+      expect(tables.animals.find(row => row.id === 2)?.farmId).toBe(1);
+    });
+  });
+});
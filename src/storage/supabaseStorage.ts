@@ -0,0 +1,1225 @@
+import { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import {
+  AnimalRecord,
+  WeightRecord,
+  BreedingRecord,
+  VaccinationRecord,
+  HealthRecord,
+} from "@shared/animal-types";
+import { ExpenseRecord, CategoryConfig } from "@shared/expense-types";
+import { Task } from "@shared/task-types";
+import { UserRecord } from "@shared/auth-types";
+import { FarmRecord } from "@shared/farm-types";
+import { AuditEntry } from "@shared/audit-types";
+import { WebhookSubscription, WebhookDelivery } from "@shared/webhook-types";
+import {
+  Storage,
+  FarmStorage,
+  ErrorLogEntry,
+  ErrorLogFilter,
+  StoredUser,
+  StoredWebhook,
+  IdempotencyRecord,
+  UserInput,
+  AnimalInput,
+  BreedingRecordInput,
+  ExpenseInput,
+  ExpenseFilter,
+  Changes,
+  ListWindow,
+  PageResult,
+  Trashed,
+} from './types';
+import { summarizeExpenses } from './expenseTotals';
+import { summarizeLogs } from './logStats';
+import { AppError, ConflictError, UpstreamError } from '../utils/errors';
+
+// PostgREST code for "no rows returned" on .single()
+const NOT_FOUND = 'PGRST116';
+
+// PostgREST code for a .range() starting past the last matching row
+const RANGE_NOT_SATISFIABLE = 'PGRST103';
+
+// Postgres codes for unique and foreign key violations
+const UNIQUE_VIOLATION = '23505';
+const FOREIGN_KEY_VIOLATION = '23503';
+
+// Maps a Supabase error onto the API error hierarchy; anything unexpected is an upstream failure
+const toStorageError = (error: PostgrestError): AppError => {
+  switch (error.code) {
+    case UNIQUE_VIOLATION:
+      return new ConflictError('Record already exists', undefined, { cause: error });
+    case FOREIGN_KEY_VIOLATION:
+      return new ConflictError('Referenced record does not exist or is still in use', undefined, { cause: error });
+    default:
+      return new UpstreamError('Database request failed', error);
+  }
+};
+
+// Escapes LIKE wildcards so .ilike() matches `term` literally
+const literalPattern = (term: string) => term.replace(/[\\%_]/g, char => `\\${char}`);
+
+// Quotes an ilike pattern matching `term` anywhere, for use inside .or() filters
+const containsPattern = (term: string) =>
+  `"%${literalPattern(term).replace(/["\\]/g, char => `\\${char}`)}%"`;
+
+// Row ids are bigint. An API id that is not a plain integer, such as "abc" or
+// "1,fatherId.gt.0" from a URL, becomes 0, which no row has (ids start at 1),
+// so it reads as not found rather than reaching a filter string or failing.
+const toRowId = (id: string): number => (/^\d{1,15}$/.test(id) ? Number(id) : 0);
+
+// Supabase caps each response at 1000 rows by default
+const FETCH_CHUNK = 1000;
+
+// Row <-> record mappers. Ids are bigint in Postgres and strings in the API.
+const toAnimal = (row: any): AnimalRecord => ({
+  id: row.id.toString(),
+  name: row.name,
+  type: row.type,
+  breed: row.breed,
+  gender: row.gender,
+  dateOfBirth: row.dateOfBirth,
+  photos: row.photos || [],
+  status: row.status,
+  currentWeight: row.currentWeight,
+  markings: row.markings,
+  purchaseDate: row.purchaseDate,
+  purchasePrice: row.purchasePrice,
+  purchaseLocation: row.purchaseLocation,
+  previousOwner: row.previousOwner,
+  insured: row.insured,
+  insuranceProvider: row.insuranceProvider,
+  insurancePolicyNumber: row.insurancePolicyNumber,
+  insuranceAmount: row.insuranceAmount,
+  insuranceExpiryDate: row.insuranceExpiryDate,
+  saleDate: row.saleDate,
+  salePrice: row.salePrice,
+  buyerName: row.buyerName,
+  saleNotes: row.saleNotes,
+  deathDate: row.deathDate,
+  deathCause: row.deathCause,
+  notes: row.notes,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt
+});
+
+const toAnimalRow = (animal: Changes<AnimalInput>) => ({
+  name: animal.name,
+  type: animal.type,
+  breed: animal.breed,
+  gender: animal.gender,
+  dateOfBirth: animal.dateOfBirth,
+  photos: animal.photos,
+  status: animal.status,
+  currentWeight: animal.currentWeight,
+  markings: animal.markings,
+  purchaseDate: animal.purchaseDate,
+  purchasePrice: animal.purchasePrice,
+  purchaseLocation: animal.purchaseLocation,
+  previousOwner: animal.previousOwner,
+  insured: animal.insured,
+  insuranceProvider: animal.insuranceProvider,
+  insurancePolicyNumber: animal.insurancePolicyNumber,
+  insuranceAmount: animal.insuranceAmount,
+  insuranceExpiryDate: animal.insuranceExpiryDate,
+  saleDate: animal.saleDate,
+  salePrice: animal.salePrice,
+  buyerName: animal.buyerName,
+  saleNotes: animal.saleNotes,
+  deathDate: animal.deathDate,
+  deathCause: animal.deathCause,
+  notes: animal.notes
+});
+
+const toWeightRecord = (row: any): WeightRecord => ({
+  id: row.id.toString(),
+  animalId: row.animalId.toString(),
+  weight: row.weight,
+  date: row.date,
+  notes: row.notes,
+  recordedBy: row.recordedBy,
+  createdAt: row.createdAt
+});
+
+const toBreedingRecord = (row: any): BreedingRecord => ({
+  id: row.id.toString(),
+  motherId: row.motherId?.toString(),
+  fatherId: row.fatherId?.toString(),
+  breedingDate: row.breedingDate,
+  expectedDeliveryDate: row.expectedDeliveryDate,
+  actualDeliveryDate: row.actualDeliveryDate,
+  totalKids: row.totalKids,
+  maleKids: row.maleKids,
+  femaleKids: row.femaleKids,
+  kidDetails: row.kid_details,
+  breedingMethod: row.breedingMethod,
+  veterinarianName: row.veterinarianName,
+  notes: row.notes,
+  complications: row.complications,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt
+});
+
+const toBreedingRow = (record: Changes<BreedingRecordInput>) => ({
+  motherId: record.motherId ? toRowId(record.motherId) : undefined,
+  fatherId: record.fatherId === undefined ? undefined : record.fatherId ? toRowId(record.fatherId) : null,
+  breedingDate: record.breedingDate,
+  expectedDeliveryDate: record.expectedDeliveryDate,
+  actualDeliveryDate: record.actualDeliveryDate,
+  totalKids: record.totalKids,
+  maleKids: record.maleKids,
+  femaleKids: record.femaleKids,
+  kid_details: record.kidDetails,
+  breedingMethod: record.breedingMethod,
+  veterinarianName: record.veterinarianName,
+  notes: record.notes,
+  complications: record.complications
+});
+
+// Update row for a weight, vaccination or health record; animalId is an integer column
+const toAnimalRecordRow = <T extends { animalId?: string | null }>({ animalId, ...rest }: T) =>
+  animalId ? { ...rest, animalId: toRowId(animalId) } : rest;
+
+// Insert or update row for a task; animalId is an integer column and null unlinks the animal
+const toTaskRow = <T extends { animalId?: string | null }>({ animalId, ...rest }: T) =>
+  animalId === undefined ? rest : { ...rest, animalId: animalId === null ? null : toRowId(animalId) };
+
+const toVaccinationRecord = (row: any): VaccinationRecord => ({
+  id: row.id.toString(),
+  animalId: row.animalId.toString(),
+  vaccineName: row.vaccineName,
+  vaccineType: row.vaccineType,
+  administrationDate: row.administrationDate,
+  nextDueDate: row.nextDueDate,
+  batchNumber: row.batchNumber,
+  veterinarianName: row.veterinarianName,
+  dosage: row.dosage,
+  administrationMethod: row.administrationMethod,
+  sideEffects: row.sideEffects,
+  cost: row.cost,
+  notes: row.notes,
+  createdAt: row.createdAt
+});
+
+const toHealthRecord = (row: any): HealthRecord => ({
+  id: row.id.toString(),
+  animalId: row.animalId.toString(),
+  recordType: row.recordType,
+  date: row.date,
+  description: row.description,
+  veterinarianName: row.veterinarianName,
+  diagnosis: row.diagnosis,
+  treatment: row.treatment,
+  medications: row.medications,
+  cost: row.cost,
+  nextCheckupDate: row.nextCheckupDate,
+  notes: row.notes,
+  createdAt: row.createdAt
+});
+
+const toTask = (row: any): Task => ({
+  id: row.id.toString(),
+  title: row.title,
+  description: row.description,
+  category: row.category,
+  taskType: row.taskType,
+  priority: row.priority,
+  status: row.status,
+  dueDate: row.dueDate,
+  assignedTo: row.assignedTo,
+  notes: row.notes,
+  animalId: row.animalId?.toString(),
+  completedAt: row.completedAt,
+  createdAt: row.createdAt
+});
+
+// Normalizes a row from the `allexpenses` view (or the `expenses` table).
+// Legacy rows imported from the spreadsheet use title-cased column names and
+// M/D/YYYY dates.
+const toExpense = (item: any, index: number = 0): ExpenseRecord => {
+  let formattedDate = new Date().toISOString().split("T")[0];
+  const dateStr = item.Date || item.date;
+  if (dateStr) {
+    try {
+      if (/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
+        formattedDate = dateStr;
+      } else {
+        const dateParts = dateStr.split("/");
+        if (dateParts.length === 3) {
+          const [month, day, year] = dateParts;
+          const paddedMonth = month.padStart(2, "0");
+          const paddedDay = day.padStart(2, "0");
+          formattedDate = `${year}-${paddedMonth}-${paddedDay}`;
+        }
+      }
+    } catch (e) {
+      console.warn(`Invalid date format: ${dateStr}`);
+    }
+  }
+  return {
+    id: String(item.id || index + 1),
+    date: formattedDate,
+    type: item.Type || item.type || "Expense",
+    description: item.Description || item.description || "No description",
+    amount: parseFloat(item.Amount || item.amount || 0),
+    paidBy: item["Paid By"] || item.paidBy || "Unknown",
+    category: item.Category || item.category || "Other",
+    subCategory: item["Sub-Category"] || item.subCategory || "General",
+    source: item.Source || item.source || "Unknown",
+    notes: item.Notes || item.notes || "",
+  };
+};
+
+const toExpenseRow = (expense: Changes<ExpenseInput>) => ({
+  description: expense.description,
+  amount: expense.amount,
+  type: expense.type,
+  date: expense.date,
+  paidBy: expense.paidBy,
+  categoryId: expense.categoryId ? toRowId(expense.categoryId) : undefined,
+  subCategory: expense.subCategory,
+  source: expense.source,
+  notes: expense.notes,
+});
+
+const toCategory = (row: any): CategoryConfig => ({
+  id: row.id.toString(),
+  name: row.name,
+  subCategories: row.subCategories || [],
+  createdAt: row.createdAt || new Date().toISOString()
+});
+
+const toStoredUser = (row: any): StoredUser => ({
+  id: row.id.toString(),
+  username: row.username,
+  name: row.name,
+  role: row.role,
+  farmIds: (row.farmIds || []).map((farmId: number) => farmId.toString()),
+  passwordHash: row.passwordHash,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt
+});
+
+const toUserRow = (user: Partial<UserInput>) => ({
+  ...user,
+  username: user.username?.toLowerCase(),
+  farmIds: user.farmIds?.map(farmId => toRowId(farmId)),
+});
+
+// Strips the password hash from a users row
+const toUser = (row: any): UserRecord => {
+  const { passwordHash, ...user } = toStoredUser(row);
+  return user;
+};
+
+const toFarm = (row: any): FarmRecord => ({
+  id: row.id.toString(),
+  name: row.name,
+  location: row.location,
+  notes: row.notes,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt
+});
+
+const toAuditEntry = (row: any): AuditEntry => ({
+  id: row.id.toString(),
+  entity: row.entity,
+  entityId: row.entityId,
+  animalId: row.animalId ?? undefined,
+  action: row.action,
+  changes: row.changes || {},
+  userId: row.userId ?? undefined,
+  username: row.username ?? undefined,
+  timestamp: row.timestamp,
+});
+
+const toStoredWebhook = (row: any): StoredWebhook => ({
+  id: row.id.toString(),
+  url: row.url,
+  events: row.events || [],
+  active: row.active,
+  description: row.description ?? undefined,
+  secret: row.secret,
+  createdAt: row.createdAt,
+  updatedAt: row.updatedAt,
+});
+
+// Strips the signing secret from a webhooks row
+const toWebhook = (row: any): WebhookSubscription => {
+  const { secret, ...webhook } = toStoredWebhook(row);
+  return webhook;
+};
+
+const toWebhookDelivery = (row: any): WebhookDelivery => ({
+  id: row.id.toString(),
+  webhookId: row.webhookId.toString(),
+  event: row.event,
+  payload: row.payload,
+  status: row.status,
+  attempts: row.attempts,
+  lastAttempt: row.lastAttempt ?? undefined,
+  nextAttemptAt: row.status === 'pending' ? row.nextAttemptAt ?? undefined : undefined,
+  redeliveryOf: row.redeliveryOf?.toString(),
+  createdAt: row.createdAt,
+});
+
+const toIdempotencyRecord = (row: any): IdempotencyRecord => ({
+  scope: row.scope,
+  key: row.key,
+  fingerprint: row.fingerprint,
+  status: row.status ?? undefined,
+  body: row.body ?? undefined,
+  headers: row.headers ?? undefined,
+  createdAt: row.createdAt,
+});
+
+const toErrorLogEntry = (row: any): ErrorLogEntry => ({
+  id: row.id,
+  timestamp: row.timestamp,
+  level: row.level,
+  message: row.message,
+  source: row.source,
+  details: row.details,
+  userId: row.user_id,
+  ipAddress: row.ip_address,
+  userAgent: row.user_agent,
+  requestId: row.request_id,
+});
+
+// details_text is a generated text copy of the JSONB details column, which PostgREST cannot search
+const filterLogs = (query: any, filter: ErrorLogFilter) => {
+  if (filter.level) query = query.eq('level', filter.level);
+  if (filter.source) query = query.eq('source', filter.source);
+  if (filter.requestId) query = query.eq('request_id', filter.requestId);
+  if (filter.userId) query = query.eq('user_id', filter.userId);
+  if (filter.startDate) query = query.gte('timestamp', filter.startDate);
+  if (filter.endDate) query = query.lte('timestamp', filter.endDate);
+  if (filter.search) {
+    const pattern = containsPattern(filter.search);
+    query = query.or(`message.ilike.${pattern},details_text.ilike.${pattern}`);
+  }
+  return query;
+};
+
+// Tables whose rows are soft-deleted into the trash
+const TRASHABLE_TABLES = [
+  'animals',
+  'weight_records',
+  'breeding_records',
+  'vaccination_records',
+  'health_records',
+  'tasks',
+  'expenses',
+];
+
+// Tables holding an animal's history, with the column naming the animal.
+// Breedings belong to the mother: a trashed sire keeps its fatherId links,
+// which the foreign key clears once the sire is purged
+const ANIMAL_RECORD_TABLES = [
+  ['weight_records', 'animalId'],
+  ['vaccination_records', 'animalId'],
+  ['health_records', 'animalId'],
+  ['breeding_records', 'motherId'],
+];
+
+// Tables and views the API reads; checked by GET /api/health/ready
+const REQUIRED_TABLES = [
+  ...TRASHABLE_TABLES,
+  'allexpenses',
+  'categories',
+  'farms',
+  'users',
+  'audit_log',
+  'webhooks',
+  'webhook_deliveries',
+  'idempotency_keys',
+  'error_logs',
+];
+
+export const createSupabaseStorage = (supabase: SupabaseClient): Storage => {
+  // Runs an update/delete ending in .single(), mapping "no rows" to null
+  const single = async <T>(
+    query: PromiseLike<{ data: any; error: any }>,
+    map: (row: any) => T,
+  ): Promise<T | null> => {
+    const { data, error } = await query;
+    if (error) {
+      if (error.code === NOT_FOUND) return null;
+      throw toStorageError(error);
+    }
+    return map(data);
+  };
+
+  const insertOne = async <T>(
+    table: string,
+    row: object,
+    map: (row: any) => T,
+  ): Promise<T> => {
+    const { data, error } = await supabase
+      .from(table)
+      .insert([row])
+      .select()
+      .single();
+
+    if (error) throw toStorageError(error);
+    return map(data);
+  };
+
+  // Fetches every row of an ordered select, FETCH_CHUNK rows at a time
+  const selectAll = async (ordered: () => any): Promise<any[]> => {
+    const rows: any[] = [];
+    for (let offset = 0; ; offset += FETCH_CHUNK) {
+      const { data, error } = await ordered().range(offset, offset + FETCH_CHUNK - 1);
+
+      if (error) throw toStorageError(error);
+      rows.push(...(data || []));
+      if (!data || data.length < FETCH_CHUNK) return rows;
+    }
+  };
+
+  /**
+   * Runs a filtered list query for one page, or for every match when no
+   * limit is given. `filtered` builds the select with its filters applied;
+   * it is called again for the count alone when the page lies past the last
+   * row.
+   */
+  const queryPage = async <T>(
+    filtered: (options?: { count: 'exact'; head?: boolean }) => any,
+    { sortBy, sortOrder, offset, limit }: ListWindow<string>,
+    map: (row: any) => T,
+  ): Promise<PageResult<T>> => {
+    const ascending = sortOrder === 'asc';
+    const sorted = (options?: { count: 'exact' }) => {
+      const query = filtered(options).order(sortBy, { ascending, nullsFirst: false });
+      return sortBy === 'id' ? query : query.order('id', { ascending });
+    };
+
+    if (limit === undefined) {
+      const rows = await selectAll(() => sorted());
+      return { items: rows.slice(offset).map(map), total: rows.length };
+    }
+
+    const { data, count, error } = await sorted({ count: 'exact' }).range(offset, offset + limit - 1);
+    if (!error) {
+      return { items: (data || []).map(map), total: count || 0 };
+    }
+    if (error.code !== RANGE_NOT_SATISFIABLE) throw toStorageError(error);
+
+    const { count: total, error: countError } = await filtered({ count: 'exact', head: true });
+    if (countError) throw toStorageError(countError);
+    return { items: [], total: total || 0 };
+  };
+
+  /*
+   * Every farm-scoped table carries a farmId column; all queries filter on it.
+   * Tables in TRASHABLE_TABLES also carry "deletedAt": rows with it set are in
+   * the trash and only the trash helpers below see them.
+   */
+  const forFarm = (farmId: string): FarmStorage => {
+    const fid = toRowId(farmId);
+    const from = (table: string) => supabase.from(table);
+
+    // The farm's rows that are not in the trash
+    const live = (table: string, options?: { count: 'exact'; head?: boolean }) =>
+      from(table).select('*', options).eq('farmId', fid).is('deletedAt', null);
+
+    const findOne = async <T>(table: string, id: string, map: (row: any) => T): Promise<T | null> => {
+      const { data, error } = await live(table).eq('id', toRowId(id)).maybeSingle();
+
+      if (error) throw toStorageError(error);
+      return data ? map(data) : null;
+    };
+
+    const updateOne = <T>(table: string, id: string, row: object, map: (row: any) => T) =>
+      single(
+        from(table).update(row).eq('id', toRowId(id)).eq('farmId', fid).is('deletedAt', null).select().single(),
+        map,
+      );
+
+    // Moves live rows to the trash; resolves to them as they were
+    const trashMany = async <T>(
+      table: string,
+      ids: string[],
+      map: (row: any) => T,
+      deletedAt = new Date().toISOString(),
+    ): Promise<T[]> => {
+      const { data, error } = await from(table)
+        .update({ deletedAt })
+        .in('id', ids.map(id => toRowId(id)))
+        .eq('farmId', fid)
+        .is('deletedAt', null)
+        .select();
+
+      if (error) throw toStorageError(error);
+      return (data || []).map(row => map(row));
+    };
+
+    const trashOne = async <T>(table: string, id: string, map: (row: any) => T, deletedAt?: string) =>
+      (await trashMany(table, [id], map, deletedAt))[0] ?? null;
+
+    const listTrashed = async <T>(table: string, map: (row: any) => T): Promise<Trashed<T>[]> => {
+      const { data, error } = await from(table)
+        .select('*')
+        .eq('farmId', fid)
+        .not('deletedAt', 'is', null)
+        .order('deletedAt', { ascending: false });
+
+      if (error) throw toStorageError(error);
+      return (data || []).map(row => ({ ...map(row), deletedAt: row.deletedAt }));
+    };
+
+    const restoreOne = <T>(table: string, id: string, map: (row: any) => T) =>
+      single(
+        from(table)
+          .update({ deletedAt: null })
+          .eq('id', toRowId(id))
+          .eq('farmId', fid)
+          .not('deletedAt', 'is', null)
+          .select()
+          .single(),
+        map,
+      );
+
+    // An animal's records go to the trash with it, stamped with the animal's
+    // deletedAt so that restoring it brings back exactly those records
+    const setRecordsDeletedAt = async (animalId: string, current: string | null, next: string | null) => {
+      for (const [table, column] of ANIMAL_RECORD_TABLES) {
+        let query = from(table).update({ deletedAt: next }).eq(column, toRowId(animalId)).eq('farmId', fid);
+        query = current === null ? query.is('deletedAt', null) : query.eq('deletedAt', current);
+        const { error } = await query;
+        if (error) throw toStorageError(error);
+      }
+    };
+
+    const listForAnimal = async <T>(
+      table: string,
+      orderBy: string,
+      map: (row: any) => T,
+      animalId?: string,
+    ): Promise<T[]> => {
+      let query = live(table).order(orderBy, { ascending: false });
+
+      if (animalId) {
+        query = query.eq('animalId', toRowId(animalId));
+      }
+
+      const { data, error } = await query;
+      if (error) throw toStorageError(error);
+      return (data || []).map(map);
+    };
+
+    /*
+     * Expense filters run against the allexpenses view, which exposes the
+     * category name. Date bounds compare the stored text, so rows still in the
+     * legacy M/D/YYYY format do not match a date filter.
+     */
+    const filterExpenses = (query: any, filter: ExpenseFilter) => {
+      if (filter.search) {
+        const pattern = containsPattern(filter.search);
+        query = query.or(
+          `description.ilike.${pattern},category.ilike.${pattern},subCategory.ilike.${pattern},notes.ilike.${pattern}`,
+        );
+      }
+      if (filter.type) query = query.eq('type', filter.type);
+      if (filter.category) query = query.ilike('category', literalPattern(filter.category));
+      if (filter.paidBy) query = query.ilike('paidBy', literalPattern(filter.paidBy));
+      if (filter.source) query = query.ilike('source', literalPattern(filter.source));
+      if (filter.dateFrom) query = query.gte('date', filter.dateFrom);
+      if (filter.dateTo) query = query.lte('date', filter.dateTo);
+      return query;
+    };
+
+    return {
+      farmId,
+
+      animals: {
+        async list() {
+          const { data, error } = await live('animals').order('id', { ascending: false });
+
+          if (error) throw toStorageError(error);
+          return (data || []).map(toAnimal);
+        },
+        query: (q) =>
+          queryPage(
+            (options) => {
+              let query = live('animals', options);
+              if (q.search) {
+                const pattern = containsPattern(q.search);
+                query = query.or(`name.ilike.${pattern},breed.ilike.${pattern},markings.ilike.${pattern}`);
+              }
+              if (q.type) query = query.eq('type', q.type);
+              if (q.gender) query = query.eq('gender', q.gender);
+              if (q.status) query = query.eq('status', q.status);
+              if (q.breed) query = query.ilike('breed', literalPattern(q.breed));
+              if (q.bornFrom) query = query.gte('dateOfBirth', q.bornFrom);
+              if (q.bornTo) query = query.lte('dateOfBirth', q.bornTo);
+              if (q.minWeight !== undefined) query = query.gte('currentWeight', q.minWeight);
+              if (q.maxWeight !== undefined) query = query.lte('currentWeight', q.maxWeight);
+              return query;
+            },
+            q,
+            toAnimal,
+          ),
+        findById: (id) => findOne('animals', id, toAnimal),
+        create: (animal) => insertOne('animals', { ...toAnimalRow(animal), farmId: fid }, toAnimal),
+        update: (id, animal) => updateOne('animals', id, toAnimalRow(animal), toAnimal),
+        async delete(id) {
+          const deletedAt = new Date().toISOString();
+          const animal = await trashOne('animals', id, toAnimal, deletedAt);
+          if (animal) await setRecordsDeletedAt(id, null, deletedAt);
+          return animal;
+        },
+        listDeleted: () => listTrashed('animals', toAnimal),
+        async restore(id) {
+          const { data, error } = await from('animals')
+            .select('deletedAt')
+            .eq('id', toRowId(id))
+            .eq('farmId', fid)
+            .not('deletedAt', 'is', null)
+            .maybeSingle();
+
+          if (error) throw toStorageError(error);
+          if (!data) return null;
+          await setRecordsDeletedAt(id, data.deletedAt, null);
+          return restoreOne('animals', id, toAnimal);
+        },
+      },
+
+      weightRecords: {
+        list: (animalId) => listForAnimal('weight_records', 'date', toWeightRecord, animalId),
+        findById: (id) => findOne('weight_records', id, toWeightRecord),
+        create: (record) =>
+          insertOne('weight_records', { ...record, animalId: toRowId(record.animalId), farmId: fid }, toWeightRecord),
+        update: (id, record) => updateOne('weight_records', id, toAnimalRecordRow(record), toWeightRecord),
+        delete: (id) => trashOne('weight_records', id, toWeightRecord),
+        deleteMany: (ids) => trashMany('weight_records', ids, toWeightRecord),
+        listDeleted: () => listTrashed('weight_records', toWeightRecord),
+        restore: (id) => restoreOne('weight_records', id, toWeightRecord),
+      },
+
+      breedingRecords: {
+        async list(animalId) {
+          let query = live('breeding_records').order('breedingDate', { ascending: false });
+
+          if (animalId) {
+            const parentId = toRowId(animalId);
+            query = query.or(`motherId.eq.${parentId},fatherId.eq.${parentId}`);
+          }
+
+          const { data, error } = await query;
+          if (error) throw toStorageError(error);
+          return (data || []).map(toBreedingRecord);
+        },
+        findById: (id) => findOne('breeding_records', id, toBreedingRecord),
+        create: (record) =>
+          insertOne('breeding_records', { ...toBreedingRow(record), farmId: fid }, toBreedingRecord),
+        update: (id, record) => updateOne('breeding_records', id, toBreedingRow(record), toBreedingRecord),
+        delete: (id) => trashOne('breeding_records', id, toBreedingRecord),
+        deleteMany: (ids) => trashMany('breeding_records', ids, toBreedingRecord),
+        listDeleted: () => listTrashed('breeding_records', toBreedingRecord),
+        restore: (id) => restoreOne('breeding_records', id, toBreedingRecord),
+      },
+
+      vaccinationRecords: {
+        list: (animalId) =>
+          listForAnimal('vaccination_records', 'administrationDate', toVaccinationRecord, animalId),
+        findById: (id) => findOne('vaccination_records', id, toVaccinationRecord),
+        create: (record) =>
+          insertOne('vaccination_records', { ...record, animalId: toRowId(record.animalId), farmId: fid }, toVaccinationRecord),
+        update: (id, record) =>
+          updateOne('vaccination_records', id, toAnimalRecordRow(record), toVaccinationRecord),
+        delete: (id) => trashOne('vaccination_records', id, toVaccinationRecord),
+        deleteMany: (ids) => trashMany('vaccination_records', ids, toVaccinationRecord),
+        listDeleted: () => listTrashed('vaccination_records', toVaccinationRecord),
+        restore: (id) => restoreOne('vaccination_records', id, toVaccinationRecord),
+      },
+
+      healthRecords: {
+        list: (animalId) => listForAnimal('health_records', 'date', toHealthRecord, animalId),
+        findById: (id) => findOne('health_records', id, toHealthRecord),
+        create: (record) =>
+          insertOne('health_records', { ...record, animalId: toRowId(record.animalId), farmId: fid }, toHealthRecord),
+        update: (id, record) => updateOne('health_records', id, toAnimalRecordRow(record), toHealthRecord),
+        delete: (id) => trashOne('health_records', id, toHealthRecord),
+        deleteMany: (ids) => trashMany('health_records', ids, toHealthRecord),
+        listDeleted: () => listTrashed('health_records', toHealthRecord),
+        restore: (id) => restoreOne('health_records', id, toHealthRecord),
+      },
+
+      tasks: {
+        async list() {
+          const { data, error } = await live('tasks').order('id', { ascending: false });
+
+          if (error) throw toStorageError(error);
+          return (data || []).map(toTask);
+        },
+        findById: (id) => findOne('tasks', id, toTask),
+        create: (task) => insertOne('tasks', { ...toTaskRow(task), farmId: fid }, toTask),
+        async createMany(tasks) {
+          const { data, error } = await from('tasks')
+            .insert(tasks.map(task => ({ ...toTaskRow(task), farmId: fid })))
+            .select();
+
+          if (error) throw toStorageError(error);
+          return (data || []).map(toTask);
+        },
+        update: (id, task) => updateOne('tasks', id, toTaskRow(task), toTask),
+        delete: (id) => trashOne('tasks', id, toTask),
+        deleteMany: (ids) => trashMany('tasks', ids, toTask),
+        listDeleted: () => listTrashed('tasks', toTask),
+        restore: (id) => restoreOne('tasks', id, toTask),
+      },
+
+      expenses: {
+        async list() {
+          const { data, error } = await live('allexpenses');
+
+          if (error) throw toStorageError(error);
+          return (data || []).map((item, index) => toExpense(item, index));
+        },
+        query: (q) =>
+          queryPage(
+            (options) => filterExpenses(live('allexpenses', options), q),
+            q,
+            toExpense,
+          ),
+        async summarize(filter) {
+          const rows = await selectAll(() =>
+            filterExpenses(live('allexpenses'), filter)
+              .order('id', { ascending: true }),
+          );
+          return summarizeExpenses(rows.map((row, index) => toExpense(row, index)));
+        },
+        // Read through the view so the category name is included
+        findById: (id) => findOne('allexpenses', id, toExpense),
+        async create(expense) {
+          const { data, error } = await from('expenses')
+            .insert([{ ...toExpenseRow(expense), farmId: fid }])
+            .select();
+
+          if (error) throw toStorageError(error);
+          return { ...toExpense(data[0]), category: expense.category };
+        },
+        async update(id, expense) {
+          const { data, error } = await from('expenses')
+            .update(toExpenseRow(expense))
+            .eq('id', toRowId(id))
+            .eq('farmId', fid)
+            .is('deletedAt', null)
+            .select();
+
+          if (error) {
+            if (error.code === NOT_FOUND) return null;
+            throw toStorageError(error);
+          }
+          if (!data || data.length === 0) return null;
+          // The table has no category name; read the row back as GET does
+          return findOne('allexpenses', id, toExpense);
+        },
+        delete: (id) => trashOne('expenses', id, toExpense),
+        deleteMany: (ids) => trashMany('expenses', ids, toExpense),
+        // Listed through the view so the category name is included
+        listDeleted: () => listTrashed('allexpenses', toExpense),
+        restore: (id) => restoreOne('expenses', id, toExpense),
+      },
+
+      categories: {
+        async list() {
+          const { data, error } = await from('categories')
+            .select('*')
+            .eq('farmId', fid)
+            .order('id', { ascending: true });
+
+          if (error) throw toStorageError(error);
+          return (data || []).map(toCategory);
+        },
+        async findByName(name) {
+          const { data, error } = await from('categories')
+            .select('*')
+            .eq('farmId', fid)
+            .eq('name', name)
+            .single();
+
+          if (error) {
+            if (error.code === NOT_FOUND) return null;
+            throw toStorageError(error);
+          }
+          return toCategory(data);
+        },
+        create: (category) =>
+          insertOne(
+            'categories',
+            { name: category.name, subCategories: category.subCategories, farmId: fid },
+            toCategory,
+          ),
+        async replaceAll(categories) {
+          // For simplicity, we'll clear and re-insert all categories
+          // In production, you might want more sophisticated upsert logic
+          const { error: deleteError } = await from('categories')
+            .delete()
+            .eq('farmId', fid);
+
+          if (deleteError) throw toStorageError(deleteError);
+          if (categories.length === 0) return;
+
+          const { error } = await from('categories')
+            .insert(categories.map(cat => ({
+              name: cat.name,
+              subCategories: cat.subCategories || [],
+              farmId: fid,
+            })));
+
+          if (error) throw toStorageError(error);
+        },
+      },
+
+      audit: {
+        async insert(entries) {
+          if (entries.length === 0) return;
+          const { error } = await from('audit_log').insert(entries.map(entry => ({ ...entry, farmId: fid })));
+          if (error) throw toStorageError(error);
+        },
+        query: (q) =>
+          queryPage(
+            (options) => {
+              let query = from('audit_log').select('*', options).eq('farmId', fid);
+              if (q.entity) query = query.eq('entity', q.entity);
+              if (q.entityId) query = query.eq('entityId', q.entityId);
+              if (q.animalId) query = query.eq('animalId', q.animalId);
+              if (q.action) query = query.eq('action', q.action);
+              if (q.userId) query = query.eq('userId', q.userId);
+              if (q.since) query = query.gte('timestamp', q.since);
+              if (q.until) query = query.lte('timestamp', q.until);
+              return query;
+            },
+            { sortBy: 'timestamp', sortOrder: 'desc', offset: q.offset, limit: q.limit },
+            toAuditEntry,
+          ),
+      },
+
+      webhooks: {
+        async list() {
+          const { data, error } = await from('webhooks').select('*').eq('farmId', fid).order('id', { ascending: true });
+
+          if (error) throw toStorageError(error);
+          return (data || []).map(toWebhook);
+        },
+        async findById(id) {
+          const { data, error } = await from('webhooks').select('*').eq('farmId', fid).eq('id', toRowId(id)).maybeSingle();
+
+          if (error) throw toStorageError(error);
+          return data ? toStoredWebhook(data) : null;
+        },
+        create: (webhook) => insertOne('webhooks', { ...webhook, farmId: fid }, toStoredWebhook),
+        update: (id, webhook) =>
+          single(
+            from('webhooks')
+              .update({ ...webhook, updatedAt: new Date().toISOString() })
+              .eq('id', toRowId(id))
+              .eq('farmId', fid)
+              .select()
+              .single(),
+            toWebhook,
+          ),
+        // Deliveries go with it through ON DELETE CASCADE
+        delete: (id) =>
+          single(
+            from('webhooks').delete().eq('id', toRowId(id)).eq('farmId', fid).select().single(),
+            toWebhook,
+          ),
+      },
+
+      webhookDeliveries: {
+        query: (q) =>
+          queryPage(
+            (options) => {
+              let query = from('webhook_deliveries').select('*', options).eq('farmId', fid).eq('webhookId', toRowId(q.webhookId));
+              if (q.status) query = query.eq('status', q.status);
+              return query;
+            },
+            { sortBy: 'id', sortOrder: 'desc', offset: q.offset, limit: q.limit },
+            toWebhookDelivery,
+          ),
+        async findById(id) {
+          const { data, error } = await from('webhook_deliveries').select('*').eq('farmId', fid).eq('id', toRowId(id)).maybeSingle();
+
+          if (error) throw toStorageError(error);
+          return data ? toWebhookDelivery(data) : null;
+        },
+        create: (delivery) =>
+          insertOne(
+            'webhook_deliveries',
+            {
+              ...delivery,
+              webhookId: toRowId(delivery.webhookId),
+              redeliveryOf: delivery.redeliveryOf ? toRowId(delivery.redeliveryOf) : null,
+              farmId: fid,
+            },
+            toWebhookDelivery,
+          ),
+        update: (id, delivery) =>
+          single(
+            from('webhook_deliveries')
+              .update(delivery)
+              .eq('id', toRowId(id))
+              .eq('farmId', fid)
+              .select()
+              .single(),
+            toWebhookDelivery,
+          ),
+        listDue: async (until) =>
+          (await selectAll(() =>
+            from('webhook_deliveries')
+              .select('*')
+              .eq('farmId', fid)
+              .eq('status', 'pending')
+              .lte('nextAttemptAt', until)
+              .order('id', { ascending: true }),
+          )).map(toWebhookDelivery),
+      },
+    };
+  };
+
+  return {
+    forFarm,
+
+    async transferAnimal(id, fromFarmId, toFarmId) {
+      const animalId = toRowId(id);
+      const from = toRowId(fromFarmId);
+      const to = toRowId(toFarmId);
+
+      const animal = await single(
+        supabase.from('animals')
+          .update({ farmId: to })
+          .eq('id', animalId)
+          .eq('farmId', from)
+          .is('deletedAt', null)
+          .select()
+          .single(),
+        toAnimal,
+      );
+      if (!animal) return null;
+
+      // History follows the animal. These run after the animal has moved, so a
+      // failure part-way leaves records to be moved by re-running the transfer.
+      // Only the source farm's rows move, whatever other farms' records name the animal.
+      for (const [table, column] of ANIMAL_RECORD_TABLES) {
+        const { error } = await supabase.from(table).update({ farmId: to }).eq(column, animalId).eq('farmId', from);
+        if (error) throw toStorageError(error);
+      }
+
+      // Links that would now cross farms are dropped: the animal as sire of
+      // breedings that stay, tasks that stay, and sires left behind by the
+      // breedings that moved
+      const unlinks = [
+        supabase.from('breeding_records').update({ fatherId: null }).eq('fatherId', animalId).eq('farmId', from),
+        supabase.from('tasks').update({ animalId: null }).eq('animalId', animalId).eq('farmId', from),
+      ];
+      for (const unlink of unlinks) {
+        const { error } = await unlink;
+        if (error) throw toStorageError(error);
+      }
+
+      const { data: moved, error: movedError } = await supabase.from('breeding_records')
+        .select('fatherId')
+        .eq('motherId', animalId)
+        .eq('farmId', to)
+        .not('fatherId', 'is', null);
+      if (movedError) throw toStorageError(movedError);
+
+      const sireIds: number[] = [...new Set((moved || []).map((row: any) => row.fatherId as number))];
+      if (sireIds.length > 0) {
+        const { data: present, error: presentError } = await supabase.from('animals')
+          .select('id')
+          .eq('farmId', to)
+          .in('id', sireIds);
+        if (presentError) throw toStorageError(presentError);
+
+        const presentIds = new Set((present || []).map((row: any) => row.id as number));
+        const leftBehind = sireIds.filter(sireId => !presentIds.has(sireId));
+        if (leftBehind.length > 0) {
+          const { error } = await supabase.from('breeding_records')
+            .update({ fatherId: null })
+            .eq('motherId', animalId)
+            .eq('farmId', to)
+            .in('fatherId', leftBehind);
+          if (error) throw toStorageError(error);
+        }
+      }
+
+      return animal;
+    },
+
+    async purgeDeleted(before) {
+      let purged = 0;
+      for (const table of TRASHABLE_TABLES) {
+        const { data, error } = await supabase.from(table).delete().lt('deletedAt', before).select('id');
+        if (error) throw toStorageError(error);
+        purged += data?.length || 0;
+      }
+      return purged;
+    },
+
+    checkHealth: () =>
+      Promise.all(REQUIRED_TABLES.map(async (name) => {
+        const { error } = await supabase.from(name).select('*').limit(1);
+        return error ? { name, ok: false, error: error.message || error.code } : { name, ok: true };
+      })),
+
+    farms: {
+      async list() {
+        const { data, error } = await supabase
+          .from('farms')
+          .select('*')
+          .order('id', { ascending: true });
+
+        if (error) throw toStorageError(error);
+        return (data || []).map(toFarm);
+      },
+      async findById(id) {
+        const { data, error } = await supabase
+          .from('farms')
+          .select('*')
+          .eq('id', toRowId(id))
+          .maybeSingle();
+
+        if (error) throw toStorageError(error);
+        return data ? toFarm(data) : null;
+      },
+      create: (farm) => insertOne('farms', farm, toFarm),
+      update: (id, farm) =>
+        single(
+          supabase.from('farms').update(farm).eq('id', toRowId(id)).select().single(),
+          toFarm,
+        ),
+    },
+
+    users: {
+      async list() {
+        const { data, error } = await supabase
+          .from('users')
+          .select('*')
+          .order('id', { ascending: true });
+
+        if (error) throw toStorageError(error);
+        return (data || []).map(toUser);
+      },
+      async findById(id) {
+        const { data, error } = await supabase
+          .from('users')
+          .select('*')
+          .eq('id', toRowId(id))
+          .maybeSingle();
+
+        if (error) throw toStorageError(error);
+        return data ? toStoredUser(data) : null;
+      },
+      async findByUsername(username) {
+        const { data, error } = await supabase
+          .from('users')
+          .select('*')
+          .eq('username', username.toLowerCase())
+          .maybeSingle();
+
+        if (error) throw toStorageError(error);
+        return data ? toStoredUser(data) : null;
+      },
+      create: (user) => insertOne('users', toUserRow(user), toUser),
+      update: (id, user) =>
+        single(
+          supabase.from('users').update(toUserRow(user)).eq('id', toRowId(id)).select().single(),
+          toUser,
+        ),
+      delete: (id) =>
+        single(
+          supabase.from('users').delete().eq('id', toRowId(id)).select().single(),
+          toUser,
+        ),
+    },
+
+    // The (scope, key) primary key makes claiming atomic across server processes
+    idempotencyKeys: {
+      async claim(record) {
+        const { error } = await supabase.from('idempotency_keys').insert([record]);
+        if (!error) return null;
+        if (error.code !== UNIQUE_VIOLATION) throw toStorageError(error);
+
+        const { data, error: findError } = await supabase
+          .from('idempotency_keys')
+          .select('*')
+          .eq('scope', record.scope)
+          .eq('key', record.key)
+          .maybeSingle();
+        if (findError) throw toStorageError(findError);
+        // Released in the meantime: reported as still in progress, so the client retries
+        return data ? toIdempotencyRecord(data) : record;
+      },
+      async complete(scope, key, { status, body, headers }) {
+        const { error } = await supabase.from('idempotency_keys')
+          .update({ status, body, headers })
+          .eq('scope', scope)
+          .eq('key', key);
+        if (error) throw toStorageError(error);
+      },
+      async release(scope, key) {
+        const { error } = await supabase.from('idempotency_keys').delete().eq('scope', scope).eq('key', key);
+        if (error) throw toStorageError(error);
+      },
+      async purge(before) {
+        const { count, error } = await supabase.from('idempotency_keys').delete({ count: 'exact' }).lt('createdAt', before);
+        if (error) throw toStorageError(error);
+        return count || 0;
+      },
+    },
+
+    errorLogs: {
+      async ensureReady() {
+        // The table comes from the migrations in migrations/
+        const { error } = await supabase.from('error_logs').select('id').limit(1);
+        if (!error) return true;
+
+        console.warn(`The error_logs table cannot be read (${error.message}); run \`npm run migrate -- up\`.`);
+        return false;
+      },
+      async insert(entries) {
+        const { error } = await supabase
+          .from('error_logs')
+          .insert(entries.map(entry => ({
+            timestamp: entry.timestamp,
+            level: entry.level,
+            message: entry.message,
+            source: entry.source,
+            details: entry.details,
+            user_id: entry.userId,
+            ip_address: entry.ipAddress,
+            user_agent: entry.userAgent,
+            request_id: entry.requestId,
+          })));
+
+        if (error) throw toStorageError(error);
+      },
+      query: ({ limit, offset = 0, ...filter }) =>
+        queryPage(
+          (options) => filterLogs(supabase.from('error_logs').select('*', options), filter),
+          { sortBy: 'timestamp', sortOrder: 'desc', offset, limit },
+          toErrorLogEntry,
+        ),
+      async summarize(filter, interval) {
+        const rows = await selectAll(() =>
+          filterLogs(supabase.from('error_logs').select('timestamp, level, source'), filter)
+            .order('id', { ascending: true }),
+        );
+        return summarizeLogs(rows, interval);
+      },
+      async purge(until) {
+        const { count, error } = await supabase
+          .from('error_logs')
+          .delete({ count: 'exact' })
+          .lte('timestamp', until);
+
+        if (error) throw toStorageError(error);
+        return count || 0;
+      },
+    },
+  };
+};
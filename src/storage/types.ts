@@ -0,0 +1,363 @@
+import {
+  AnimalRecord,
+  WeightRecord,
+  BreedingRecord,
+  VaccinationRecord,
+  HealthRecord,
+} from "@shared/animal-types";
+import {
+  ExpenseRecord,
+  ExpenseSortField,
+  ExpenseSummary,
+  CategoryConfig,
+} from "@shared/expense-types";
+import { Task } from "@shared/task-types";
+import { UserRecord } from "@shared/auth-types";
+import { FarmRecord } from "@shared/farm-types";
+import { AuditEntry, AuditEntity, AuditAction } from "@shared/audit-types";
+import { LogStats, LogStatsInterval } from "@shared/log-types";
+import { HealthCheck } from "@shared/health-types";
+import { WebhookSubscription, WebhookDelivery, WebhookDeliveryStatus } from "@shared/webhook-types";
+import { SortOrder } from "@shared/api";
+import { AnimalSortField } from "@shared/animal-types";
+
+// Rows created before multi-farm support belong to this farm
+export const DEFAULT_FARM_ID = "1";
+
+export interface ErrorLogEntry {
+  id?: number;
+  timestamp: string;
+  level: 'info' | 'warn' | 'error' | 'debug';
+  message: string;
+  source: string;
+  details?: any;
+  userId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  // Id of the request the entry was logged during
+  requestId?: string;
+}
+
+export interface ErrorLogFilter {
+  level?: string;
+  source?: string;
+  // Inclusive bounds on timestamp
+  startDate?: string;
+  endDate?: string;
+  // Case-insensitive text in the message or details
+  search?: string;
+  requestId?: string;
+  userId?: string;
+}
+
+export interface ErrorLogQuery extends ErrorLogFilter {
+  limit: number;
+  offset?: number;
+}
+
+// A slice of a filtered list plus the number of rows matching the filters
+export interface PageResult<T> {
+  items: T[];
+  total: number;
+}
+
+// Paging shared by list queries; without `limit` every match is returned
+export interface ListWindow<F extends string> {
+  sortBy: F;
+  sortOrder: SortOrder;
+  offset: number;
+  limit?: number;
+}
+
+export interface AnimalQuery extends ListWindow<AnimalSortField> {
+  // Case-insensitive match on name, breed or markings
+  search?: string;
+  type?: string;
+  gender?: string;
+  status?: string;
+  // Case-insensitive exact match
+  breed?: string;
+  // Inclusive YYYY-MM-DD bounds on dateOfBirth
+  bornFrom?: string;
+  bornTo?: string;
+  // Inclusive bounds on currentWeight
+  minWeight?: number;
+  maxWeight?: number;
+}
+
+export interface ExpenseFilter {
+  // Case-insensitive match on description, category, sub-category or notes
+  search?: string;
+  type?: string;
+  // Case-insensitive exact matches
+  category?: string;
+  paidBy?: string;
+  source?: string;
+  // Inclusive YYYY-MM-DD bounds on date
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+export interface ExpenseQuery extends ExpenseFilter, ListWindow<ExpenseSortField> {}
+
+// Audit entries are always listed newest first
+export interface AuditQuery {
+  entity?: AuditEntity;
+  entityId?: string;
+  animalId?: string;
+  action?: AuditAction;
+  userId?: string;
+  // Inclusive ISO timestamp bounds
+  since?: string;
+  until?: string;
+  offset: number;
+  limit: number;
+}
+
+// Deliveries are always listed newest first
+export interface WebhookDeliveryQuery {
+  webhookId: string;
+  status?: WebhookDeliveryStatus;
+  offset: number;
+  limit: number;
+}
+
+/**
+ * A response stored under an Idempotency-Key. `scope` separates the keys of
+ * different users and farms; `fingerprint` identifies the request that
+ * claimed the key.
+ */
+export interface IdempotencyRecord {
+  scope: string;
+  key: string;
+  fingerprint: string;
+  // Absent while the first request is still being handled
+  status?: number;
+  body?: unknown;
+  // Response headers to set again on replay, e.g. ETag
+  headers?: Record<string, string>;
+  createdAt: string;
+}
+
+// Input shapes for create/update calls: the record minus server-managed fields
+export type AnimalInput = Omit<AnimalRecord, "id" | "createdAt" | "updatedAt">;
+export type WeightRecordInput = Omit<WeightRecord, "id" | "createdAt">;
+export type BreedingRecordInput = Omit<BreedingRecord, "id" | "createdAt" | "updatedAt">;
+export type VaccinationRecordInput = Omit<VaccinationRecord, "id" | "createdAt">;
+export type HealthRecordInput = Omit<HealthRecord, "id" | "createdAt">;
+export type TaskInput = Omit<Task, "id" | "createdAt">;
+export type ExpenseInput = Omit<ExpenseRecord, "id"> & { categoryId: string };
+export type CategoryInput = Pick<CategoryConfig, "name" | "subCategories">;
+export type FarmInput = Omit<FarmRecord, "id" | "createdAt" | "updatedAt">;
+export type AuditEntryInput = Omit<AuditEntry, "id">;
+
+// Update payloads: an undefined field is left as it is, a null one is cleared
+export type Changes<T> = { [K in keyof T]?: T[K] | null };
+
+// Users as persisted; passwordHash never leaves the server
+export type StoredUser = UserRecord & { passwordHash: string };
+export type UserInput = Omit<StoredUser, "id" | "createdAt" | "updatedAt">;
+
+// Webhook subscriptions as persisted; the secret is returned only on create
+export type StoredWebhook = WebhookSubscription & { secret: string };
+export type WebhookInput = Omit<StoredWebhook, "id" | "createdAt" | "updatedAt">;
+export type WebhookDeliveryInput = Omit<WebhookDelivery, "id">;
+
+// A soft-deleted row, as listed in the trash
+export type Trashed<T> = T & { deletedAt: string };
+
+/*
+ * Repositories. Update and delete resolve to null when the id does not exist;
+ * any other failure is thrown to the caller.
+ */
+
+/**
+ * Soft deletion: delete and deleteMany move rows to the trash, which hides
+ * them from every other read (including updates) until they are restored or
+ * purged.
+ */
+export interface TrashableRepository<T> {
+  // Most recently deleted first
+  listDeleted(): Promise<Trashed<T>[]>;
+  // Resolves to null when the id is not in the trash
+  restore(id: string): Promise<T | null>;
+}
+
+/**
+ * Deleting an animal also trashes its weight, vaccination and health records
+ * and the breeding records where it is the dam; restoring it brings back the
+ * records deleted with it.
+ */
+export interface AnimalRepository extends TrashableRepository<AnimalRecord> {
+  list(): Promise<AnimalRecord[]>;
+  // Animals without the filtered field (e.g. no dateOfBirth) never match a bound on it
+  query(query: AnimalQuery): Promise<PageResult<AnimalRecord>>;
+  findById(id: string): Promise<AnimalRecord | null>;
+  create(animal: AnimalInput): Promise<AnimalRecord>;
+  update(id: string, animal: Changes<AnimalInput>): Promise<AnimalRecord | null>;
+  delete(id: string): Promise<AnimalRecord | null>;
+}
+
+/**
+ * A record deleted on its own goes to the trash with a deletedAt of its own,
+ * so restoring its animal later does not bring it back.
+ */
+export interface AnimalRecordRepository<T, Input> extends TrashableRepository<T> {
+  findById(id: string): Promise<T | null>;
+  create(record: Input): Promise<T>;
+  update(id: string, record: Changes<Input>): Promise<T | null>;
+  delete(id: string): Promise<T | null>;
+  // Resolves to the rows removed; ids that do not exist are skipped
+  deleteMany(ids: string[]): Promise<T[]>;
+}
+
+export interface WeightRecordRepository extends AnimalRecordRepository<WeightRecord, WeightRecordInput> {
+  // Latest weigh-in first
+  list(animalId?: string): Promise<WeightRecord[]>;
+}
+
+export interface BreedingRecordRepository extends AnimalRecordRepository<BreedingRecord, BreedingRecordInput> {
+  // animalId matches either parent
+  list(animalId?: string): Promise<BreedingRecord[]>;
+}
+
+export interface VaccinationRecordRepository
+  extends AnimalRecordRepository<VaccinationRecord, VaccinationRecordInput> {
+  list(animalId?: string): Promise<VaccinationRecord[]>;
+}
+
+export interface HealthRecordRepository extends AnimalRecordRepository<HealthRecord, HealthRecordInput> {
+  list(animalId?: string): Promise<HealthRecord[]>;
+}
+
+export interface TaskRepository extends TrashableRepository<Task> {
+  list(): Promise<Task[]>;
+  findById(id: string): Promise<Task | null>;
+  create(task: TaskInput): Promise<Task>;
+  createMany(tasks: TaskInput[]): Promise<Task[]>;
+  update(id: string, task: Changes<TaskInput>): Promise<Task | null>;
+  delete(id: string): Promise<Task | null>;
+  // Resolves to the rows removed; ids that do not exist are skipped
+  deleteMany(ids: string[]): Promise<Task[]>;
+}
+
+export interface ExpenseRepository extends TrashableRepository<ExpenseRecord> {
+  list(): Promise<ExpenseRecord[]>;
+  query(query: ExpenseQuery): Promise<PageResult<ExpenseRecord>>;
+  // Totals over every expense matching the filter
+  summarize(filter: ExpenseFilter): Promise<ExpenseSummary>;
+  findById(id: string): Promise<ExpenseRecord | null>;
+  create(expense: ExpenseInput): Promise<ExpenseRecord>;
+  update(id: string, expense: Changes<ExpenseInput>): Promise<ExpenseRecord | null>;
+  delete(id: string): Promise<ExpenseRecord | null>;
+  deleteMany(ids: string[]): Promise<ExpenseRecord[]>;
+}
+
+export interface CategoryRepository {
+  list(): Promise<CategoryConfig[]>;
+  findByName(name: string): Promise<CategoryConfig | null>;
+  create(category: CategoryInput): Promise<CategoryConfig>;
+  // Replaces every stored category with the given list
+  replaceAll(categories: CategoryInput[]): Promise<void>;
+}
+
+export interface FarmRepository {
+  list(): Promise<FarmRecord[]>;
+  findById(id: string): Promise<FarmRecord | null>;
+  create(farm: FarmInput): Promise<FarmRecord>;
+  update(id: string, farm: Partial<FarmInput>): Promise<FarmRecord | null>;
+}
+
+export interface UserRepository {
+  list(): Promise<UserRecord[]>;
+  findById(id: string): Promise<StoredUser | null>;
+  // Usernames are stored lower-cased
+  findByUsername(username: string): Promise<StoredUser | null>;
+  create(user: UserInput): Promise<UserRecord>;
+  update(id: string, user: Partial<UserInput>): Promise<UserRecord | null>;
+  delete(id: string): Promise<UserRecord | null>;
+}
+
+export interface ErrorLogRepository {
+  // Checks the log table; resolves to true when usable
+  ensureReady(): Promise<boolean>;
+  // Writes a batch; all or none of the entries are stored
+  insert(entries: ErrorLogEntry[]): Promise<void>;
+  // Newest first
+  query(filters: ErrorLogQuery): Promise<PageResult<ErrorLogEntry>>;
+  // Counts by level, source and hour or day, via summarizeLogs
+  summarize(filter: ErrorLogFilter, interval: LogStatsInterval): Promise<LogStats>;
+  // Permanently removes entries logged at or before `until`; resolves to how many
+  purge(until: string): Promise<number>;
+}
+
+export interface IdempotencyRepository {
+  // Stores `record` unless its key is taken in its scope; resolves to the existing record then, else null
+  claim(record: IdempotencyRecord): Promise<IdempotencyRecord | null>;
+  // Stores the response for a claimed key
+  complete(scope: string, key: string, response: Pick<IdempotencyRecord, 'status' | 'body' | 'headers'>): Promise<void>;
+  // Frees a claimed key, e.g. after the request failed
+  release(scope: string, key: string): Promise<void>;
+  // Permanently removes records created before `before`; resolves to how many
+  purge(before: string): Promise<number>;
+}
+
+export interface AuditRepository {
+  insert(entries: AuditEntryInput[]): Promise<void>;
+  query(query: AuditQuery): Promise<PageResult<AuditEntry>>;
+}
+
+export interface WebhookRepository {
+  list(): Promise<WebhookSubscription[]>;
+  findById(id: string): Promise<StoredWebhook | null>;
+  create(webhook: WebhookInput): Promise<StoredWebhook>;
+  update(id: string, webhook: Partial<WebhookInput>): Promise<WebhookSubscription | null>;
+  // Also removes the subscription's deliveries
+  delete(id: string): Promise<WebhookSubscription | null>;
+}
+
+// nextAttemptAt is only reported while a delivery is pending
+export interface WebhookDeliveryRepository {
+  query(query: WebhookDeliveryQuery): Promise<PageResult<WebhookDelivery>>;
+  findById(id: string): Promise<WebhookDelivery | null>;
+  create(delivery: WebhookDeliveryInput): Promise<WebhookDelivery>;
+  update(id: string, delivery: Partial<WebhookDeliveryInput>): Promise<WebhookDelivery | null>;
+  // Pending deliveries due at or before `until`, oldest first
+  listDue(until: string): Promise<WebhookDelivery[]>;
+}
+
+/** Repositories whose reads and writes are confined to a single farm. */
+export interface FarmStorage {
+  farmId: string;
+  animals: AnimalRepository;
+  weightRecords: WeightRecordRepository;
+  breedingRecords: BreedingRecordRepository;
+  vaccinationRecords: VaccinationRecordRepository;
+  healthRecords: HealthRecordRepository;
+  tasks: TaskRepository;
+  expenses: ExpenseRepository;
+  categories: CategoryRepository;
+  audit: AuditRepository;
+  webhooks: WebhookRepository;
+  webhookDeliveries: WebhookDeliveryRepository;
+}
+
+export interface Storage {
+  farms: FarmRepository;
+  users: UserRepository;
+  errorLogs: ErrorLogRepository;
+  idempotencyKeys: IdempotencyRepository;
+  forFarm(farmId: string): FarmStorage;
+  /**
+   * Moves an animal, together with its weight, vaccination, health and
+   * (as dam) breeding records, from one farm to another. Links that would
+   * then cross farms are cleared: the animal as sire of records that stay,
+   * tasks that stay, and sires of the moved records not in `toFarmId`.
+   * Resolves to null when the animal does not exist in `fromFarmId`.
+   */
+  transferAnimal(id: string, fromFarmId: string, toFarmId: string): Promise<AnimalRecord | null>;
+  // Permanently removes rows of every farm trashed before `before`; resolves to the count
+  purgeDeleted(before: string): Promise<number>;
+  // Probes the backend: the data directory, or every table and view the API reads
+  checkHealth(): Promise<HealthCheck[]>;
+}
@@ -0,0 +1,96 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { Role } from '@shared/auth-types';
+import { createServer } from '../index';
+
+/**
+ * Test client for the app as a whole: each test file starts a server on a
+ * free port, sets up the owner account and calls the API over HTTP.
+ */
+
+export interface TestResponse {
+  status: number;
+  headers: Headers;
+  // Parsed JSON, or the text of other responses
+  body: any;
+}
+
+export interface RequestOptions {
+  token?: string;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+export interface TestApi {
+  request(method: string, path: string, options?: RequestOptions): Promise<TestResponse>;
+  close(): Promise<void>;
+}
+
+export const OWNER = { username: 'owner', name: 'Owner', password: 'owner-password' };
+
+export const startApi = async (): Promise<TestApi> => {
+  const server: Server = await new Promise(resolve => {
+    const listening = createServer().listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+
+  return {
+    async request(method, path, { token, body, headers } = {}) {
+      const response = await fetch(base + path, {
+        method,
+        headers: {
+          ...(body !== undefined && { 'Content-Type': 'application/json' }),
+          ...(token && { Authorization: `Bearer ${token}` }),
+          ...headers,
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const text = await response.text();
+      const json = response.headers.get('Content-Type')?.includes('json') && text !== '';
+      return { status: response.status, headers: response.headers, body: json ? JSON.parse(text) : text };
+    },
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections();
+        server.close(error => (error ? reject(error) : resolve()));
+      }),
+  };
+};
+
+// Creates the owner account, and with it farm 1; resolves to the owner's token
+export const setupOwner = async (api: TestApi): Promise<string> => {
+  const response = await api.request('POST', '/auth/setup', { body: OWNER });
+  if (response.status !== 201) {
+    throw new Error(`Setup failed with ${response.status}: ${JSON.stringify(response.body)}`);
+  }
+  return response.body.token;
+};
+
+// Adds a user with `role` in `farmIds` and resolves to their id and token
+export const addUser = async (
+  api: TestApi,
+  ownerToken: string,
+  role: Role,
+  farmIds: string[] = ['1'],
+): Promise<{ id: string; token: string }> => {
+  const username = `${role}-${Math.random().toString(36).slice(2, 8)}`;
+  const password = `${role}-password`;
+  const created = await api.request('POST', '/users', {
+    token: ownerToken,
+    body: { username, name: role, role, farmIds, password },
+  });
+  if (created.status !== 201) {
+    throw new Error(`Adding a user failed with ${created.status}: ${JSON.stringify(created.body)}`);
+  }
+  const login = await api.request('POST', '/auth/login', { body: { username, password } });
+  return { id: created.body.id, token: login.body.token };
+};
+
+export const goat = (overrides: Record<string, unknown> = {}) => ({
+  name: 'Bella',
+  type: 'goat',
+  breed: 'Boer',
+  gender: 'female',
+  status: 'active',
+  ...overrides,
+});
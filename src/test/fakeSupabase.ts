@@ -0,0 +1,143 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * In-memory stand-in for the few PostgREST calls supabaseStorage makes, so
+ * its row mapping can be tested without a Supabase project. Views are
+ * computed from the tables on every read. Filters it does not know throw.
+ */
+
+type Row = Record<string, any>;
+type Tables = Record<string, Row[]>;
+
+interface Result {
+  data: any;
+  error: { code: string; message: string } | null;
+  count?: number;
+}
+
+class FakeQuery implements PromiseLike<Result> {
+  private action: 'select' | 'insert' | 'update' | 'delete' = 'select';
+  private payload: Row[] = [];
+  private filters: ((row: Row) => boolean)[] = [];
+  private sorts: { column: string; ascending: boolean }[] = [];
+  private cardinality: 'many' | 'single' | 'maybeSingle' = 'many';
+
+  constructor(
+    private readonly tables: Tables,
+    private readonly table: string,
+    private readonly view?: (tables: Tables) => Row[],
+  ) {}
+
+  select() {
+    return this;
+  }
+
+  insert(rows: Row[]) {
+    this.action = 'insert';
+    this.payload = rows;
+    return this;
+  }
+
+  update(row: Row) {
+    this.action = 'update';
+    this.payload = [row];
+    return this;
+  }
+
+  delete() {
+    this.action = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push(row => row[column] === value);
+    return this;
+  }
+
+  is(column: string, value: null) {
+    this.filters.push(row => (row[column] ?? null) === value);
+    return this;
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push(row => values.includes(row[column]));
+    return this;
+  }
+
+  not(column: string, operator: 'is', value: null) {
+    this.filters.push(row => (row[column] ?? null) !== value);
+    return this;
+  }
+
+  lt(column: string, value: string) {
+    this.filters.push(row => row[column] != null && row[column] < value);
+    return this;
+  }
+
+  order(column: string, { ascending = true }: { ascending?: boolean } = {}) {
+    this.sorts.push({ column, ascending });
+    return this;
+  }
+
+  single() {
+    this.cardinality = 'single';
+    return this;
+  }
+
+  maybeSingle() {
+    this.cardinality = 'maybeSingle';
+    return this;
+  }
+
+  then<T1 = Result, T2 = never>(
+    onfulfilled?: ((value: Result) => T1 | PromiseLike<T1>) | null,
+    onrejected?: ((reason: any) => T2 | PromiseLike<T2>) | null,
+  ): PromiseLike<T1 | T2> {
+    return Promise.resolve().then(() => this.run()).then(onfulfilled, onrejected);
+  }
+
+  private run(): Result {
+    const rows = this.view ? this.view(this.tables) : (this.tables[this.table] ??= []);
+    const matches = () => rows.filter(row => this.filters.every(filter => filter(row)));
+    // PostgREST leaves undefined keys out of the JSON it sends
+    const defined = (row: Row) => Object.fromEntries(Object.entries(row).filter(([, value]) => value !== undefined));
+
+    let result: Row[];
+    switch (this.action) {
+      case 'insert':
+        result = this.payload.map(row => {
+          const inserted = { id: rows.length + 1, createdAt: new Date().toISOString(), ...defined(row) };
+          rows.push(inserted);
+          return inserted;
+        });
+        break;
+      case 'update':
+        result = matches().map(row => Object.assign(row, defined(this.payload[0])));
+        break;
+      case 'delete':
+        result = matches();
+        this.tables[this.table] = rows.filter(row => !result.includes(row));
+        break;
+      default:
+        result = matches();
+    }
+
+    for (const { column, ascending } of [...this.sorts].reverse()) {
+      result.sort((a, b) => (a[column] < b[column] ? -1 : a[column] > b[column] ? 1 : 0) * (ascending ? 1 : -1));
+    }
+
+    const copies = result.map(row => structuredClone(row));
+    if (this.cardinality === 'many') return { data: copies, error: null };
+    if (copies.length === 1 || (copies.length === 0 && this.cardinality === 'maybeSingle')) {
+      return { data: copies[0] ?? null, error: null };
+    }
+    return { data: null, error: { code: 'PGRST116', message: `${copies.length} rows` } };
+  }
+}
+
+export const createFakeSupabase = (tables: Tables = {}, views: Record<string, (tables: Tables) => Row[]> = {}) => ({
+  tables,
+  client: {
+    from: (table: string) => new FakeQuery(tables, table, views[table]),
+  } as unknown as SupabaseClient,
+});
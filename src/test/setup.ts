@@ -0,0 +1,24 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll } from 'vitest';
+
+/*
+ * Runs before each test file, ahead of the app's own modules, so config and
+ * storage are built against the local backend in a data directory of the
+ * file's own.
+ */
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'farm-api-test-'));
+
+Object.assign(process.env, {
+  STORAGE_BACKEND: 'local',
+  LOCAL_DATA_DIR: dataDir,
+  LOG_SPOOL_FILE: path.join(dataDir, 'error-log-spool.jsonl'),
+  AUTH_JWT_SECRET: 'test-secret-that-is-at-least-32-characters',
+  METRICS_TOKEN: 'test-metrics-token-at-least-32-characters',
+  FEATURE_AUTH: 'true',
+  FEATURE_ROUTE_LOGGING: 'false',
+  FEATURE_ACCESS_LOG: 'false',
+});
+
+afterAll(() => fs.rmSync(dataDir, { recursive: true, force: true }));
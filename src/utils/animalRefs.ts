@@ -0,0 +1,24 @@
+import { FarmStorage } from '../storage';
+import { FieldError } from '../middleware/validate';
+import { ValidationError } from './errors';
+
+/** Animal ids a request body refers to, keyed by field, e.g. `kidDetails.0.animalId`. */
+export type AnimalRefs = Record<string, string | null | undefined>;
+
+/**
+ * Rejects a body referring to an animal the caller's farm does not have (or
+ * has in the trash), so records cannot be attached to another farm's animals.
+ * Fields left blank are skipped.
+ */
+export const assertFarmAnimals = async (farm: FarmStorage, refs: AnimalRefs): Promise<void> => {
+  const errors: FieldError[] = [];
+  for (const [field, animalId] of Object.entries(refs)) {
+    if (animalId && !(await farm.animals.findById(animalId))) {
+      errors.push({ field, message: "Animal not found" });
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError("Unknown animal", errors);
+  }
+};
@@ -0,0 +1,95 @@
+import { AuditAction, AuditEntity, AuditFieldChange } from '@shared/audit-types';
+import { FarmStorage, AuditEntryInput } from '../storage';
+import { getRequestContext } from './requestContext';
+import logger from './errorLogger';
+
+type AuditedRow = { id: string; [field: string]: any };
+
+/** One row's state before and/or after a mutation. */
+export interface RowChange {
+  before?: AuditedRow | null;
+  after?: AuditedRow | null;
+}
+
+// Managed by storage; a change to them alone is not worth an entry
+const IGNORED_FIELDS = ['id', 'createdAt', 'updatedAt'];
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const diffRows = (before?: AuditedRow | null, after?: AuditedRow | null) => {
+  const changes: Record<string, AuditFieldChange> = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.includes(field)) continue;
+    const oldValue = before?.[field] ?? undefined;
+    const newValue = after?.[field] ?? undefined;
+    if (isEqual(oldValue, newValue)) continue;
+    changes[field] = {
+      ...(oldValue !== undefined && { before: oldValue }),
+      ...(newValue !== undefined && { after: newValue }),
+    };
+  }
+  return changes;
+};
+
+const animalIdOf = (entity: AuditEntity, row: AuditedRow): string | undefined => {
+  switch (entity) {
+    case 'animal':
+      return row.id;
+    case 'breedingRecord':
+      return row.motherId;
+    case 'weightRecord':
+    case 'vaccinationRecord':
+    case 'healthRecord':
+      return row.animalId;
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Records who changed which rows and how. The actor comes from the current
+ * request. Changes that leave every field as it was are skipped. A failure to
+ * write the audit log is logged rather than failing the mutation, which has
+ * already happened.
+ */
+export const recordAudit = async (
+  farm: FarmStorage,
+  entity: AuditEntity,
+  action: AuditAction,
+  ...rows: RowChange[]
+): Promise<void> => {
+  const user = getRequestContext()?.user;
+  const timestamp = new Date().toISOString();
+
+  const entries: AuditEntryInput[] = [];
+  for (const { before, after } of rows) {
+    const row = after ?? before;
+    if (!row) continue;
+
+    const changes = diffRows(before, after);
+    if (Object.keys(changes).length === 0) continue;
+
+    entries.push({
+      entity,
+      entityId: row.id,
+      animalId: animalIdOf(entity, row),
+      action,
+      changes,
+      userId: user?.id,
+      username: user?.username,
+      timestamp,
+    });
+  }
+
+  if (entries.length === 0) return;
+  try {
+    await farm.audit.insert(entries);
+  } catch (error) {
+    await logger.error(`Failed to record ${action} of ${entity}`, 'audit.recordAudit', {
+      entityIds: entries.map(entry => entry.entityId),
+      error,
+    });
+  }
+};
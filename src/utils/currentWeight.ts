@@ -0,0 +1,39 @@
+import { WeightRecord } from '@shared/animal-types';
+import { FarmStorage } from '../storage';
+import { recordAudit } from './audit';
+import { publishEvent } from './events';
+
+/** Each animal's latest weigh-in, or undefined when it has none. */
+export type LatestWeighIns = Map<string, WeightRecord | undefined>;
+
+export const readLatestWeighIns = async (farm: FarmStorage, animalIds: string[]): Promise<LatestWeighIns> => {
+  const latest: LatestWeighIns = new Map();
+  for (const animalId of new Set(animalIds)) {
+    latest.set(animalId, (await farm.weightRecords.list(animalId))[0]);
+  }
+  return latest;
+};
+
+/**
+ * Keeps currentWeight on the latest weigh-in after weight records are edited
+ * or deleted. `before` is readLatestWeighIns for the affected animals from
+ * before the change: an animal whose latest record is now a different one,
+ * or the same one with a different weight, takes that record's weight.
+ * Animals left without weight records keep their currentWeight.
+ */
+export const syncCurrentWeights = async (farm: FarmStorage, before: LatestWeighIns): Promise<void> => {
+  const after = await readLatestWeighIns(farm, [...before.keys()]);
+
+  for (const [animalId, latest] of after) {
+    const previous = before.get(animalId);
+    if (!latest || (latest.id === previous?.id && latest.weight === previous.weight)) continue;
+
+    const animal = await farm.animals.findById(animalId);
+    if (!animal || animal.currentWeight === latest.weight) continue;
+
+    const updated = await farm.animals.update(animalId, { currentWeight: latest.weight });
+    if (!updated) continue;
+    await recordAudit(farm, 'animal', 'update', { before: animal, after: updated });
+    publishEvent(farm, 'animal.updated', { animal: updated });
+  }
+};
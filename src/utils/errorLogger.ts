@@ -1,93 +1,61 @@
-import supabase from '../routes/supabaseClient';
-
-export interface ErrorLogEntry {
-  id?: number;
-  timestamp: string;
-  level: 'info' | 'warn' | 'error' | 'debug';
-  message: string;
-  source: string;
-  details?: any;
-  userId?: string;
-  ipAddress?: string;
-  userAgent?: string;
-}
-
+import fs from 'fs';
+import path from 'path';
+import config from '../config';
+import { LogStats, LogStatsInterval } from '@shared/log-types';
+import storage, { ErrorLogEntry, ErrorLogFilter, ErrorLogQuery, PageResult } from '../storage';
+import { getRequestContext } from './requestContext';
+
+export type { ErrorLogEntry } from '../storage';
+
+const LEVEL_ORDER = ['debug', 'info', 'warn', 'error'];
+
+// Inserts tried per batch before it is spooled, and the delay before the first retry (doubled each time)
+const MAX_ATTEMPTS = 4;
+const RETRY_DELAY_MS = 250;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Error properties are not enumerable and would stringify as {}, so errors
+// anywhere in the details (causes included) are copied out first
+const serializeDetails = (details: unknown): string =>
+  JSON.stringify(details, (_key, value) =>
+    value instanceof Error
+      ? { ...value, name: value.name, message: value.message, stack: value.stack, cause: value.cause }
+      : value,
+  );
+
+/**
+ * Buffers log entries in memory and writes them to the log store in batches,
+ * when the buffer reaches LOG_BATCH_SIZE or every LOG_FLUSH_INTERVAL_MS, so
+ * logging never waits on the database. A batch the store still rejects after
+ * retries is appended to the spool file and replayed after the next
+ * successful write.
+ */
 class ErrorLogger {
-  private isTableReady = false;
+  private buffer: ErrorLogEntry[] = [];
+  private flushing?: Promise<void>;
+  private readonly ready: Promise<void>;
+  private readonly timer: NodeJS.Timeout;
 
   constructor() {
-    this.ensureTableExists();
+    this.ready = this.ensureTableExists();
+    this.timer = setInterval(() => void this.flush(), config.logs.flushIntervalMs);
+    // Buffered entries alone should not keep the process alive, but they are written before it exits
+    this.timer.unref();
+    process.on('beforeExit', () => {
+      if (this.buffer.length > 0) void this.flush();
+    });
   }
 
   private async ensureTableExists(): Promise<void> {
     try {
-      // Check if ErrorLog table exists by trying to select from it
-      const { error } = await supabase
-        .from('error_logs')
-        .select('count')
-        .limit(1);
-
-      if (error && error.code === 'PGRST106') {
-        // Table doesn't exist, create it
-        console.log('ErrorLog table not found, creating it...');
-        await this.createErrorLogTable();
-      } else if (!error) {
-        console.log('ErrorLog table exists');
-        this.isTableReady = true;
-      }
+      await storage.errorLogs.ensureReady();
     } catch (error) {
       console.error('Error checking/creating ErrorLog table:', error);
     }
   }
 
-  private async createErrorLogTable(): Promise<void> {
-    try {
-      // Note: This creates the table using Supabase SQL
-      // In a real scenario, you might want to use Supabase dashboard or migrations
-      const { error } = await supabase.rpc('create_error_log_table');
-      
-      if (error) {
-        // If RPC doesn't exist, we'll create via INSERT (which will fail but help us understand)
-        console.warn('Could not create table via RPC. Table may need to be created manually in Supabase dashboard.');
-        console.log(`
-Please create the error_logs table in your Supabase dashboard with this SQL:
-
-CREATE TABLE error_logs (
-  id BIGSERIAL PRIMARY KEY,
-  timestamp TIMESTAMPTZ DEFAULT NOW(),
-  level TEXT NOT NULL CHECK (level IN ('info', 'warn', 'error', 'debug')),
-  message TEXT NOT NULL,
-  source TEXT NOT NULL,
-  details JSONB,
-  user_id TEXT,
-  ip_address INET,
-  user_agent TEXT,
-  created_at TIMESTAMPTZ DEFAULT NOW()
-);
-
-CREATE INDEX idx_error_logs_timestamp ON error_logs(timestamp);
-CREATE INDEX idx_error_logs_level ON error_logs(level);
-CREATE INDEX idx_error_logs_source ON error_logs(source);
-        `);
-      } else {
-        console.log('ErrorLog table created successfully');
-        this.isTableReady = true;
-      }
-    } catch (error) {
-      console.error('Error creating ErrorLog table:', error);
-    }
-  }
-
-  private async waitForTable(): Promise<void> {
-    let attempts = 0;
-    const maxAttempts = 10;
-    
-    while (!this.isTableReady && attempts < maxAttempts) {
-      await new Promise(resolve => setTimeout(resolve, 100));
-      attempts++;
-    }
-  }
-
+  // Queues an entry; resolves at once, before the entry is stored
   async log(
     level: 'info' | 'warn' | 'error' | 'debug',
     message: string,
@@ -95,41 +63,131 @@ CREATE INDEX idx_error_logs_source ON error_logs(source);
     details?: any,
     req?: any
   ): Promise<void> {
+    // Entries below the configured LOG_LEVEL are dropped
+    if (LEVEL_ORDER.indexOf(level) < LEVEL_ORDER.indexOf(config.logLevel)) {
+      return;
+    }
+
+    // Handlers rarely pass req, so fall back to the request being handled
+    const context = getRequestContext();
+    this.buffer.push({
+      timestamp: new Date().toISOString(),
+      level,
+      message,
+      source,
+      details: details ? serializeDetails(details) : null,
+      userId: req?.user?.id || req?.userId || context?.user?.id || null,
+      ipAddress: req?.ip || req?.connection?.remoteAddress || context?.ipAddress || null,
+      userAgent: req?.get?.('User-Agent') || context?.userAgent || null,
+      requestId: req?.requestId || context?.requestId || null,
+    });
+
+    if (this.buffer.length >= config.logs.batchSize) void this.flush();
+  }
+
+  // Writes everything buffered so far; concurrent calls share one pass
+  flush(): Promise<void> {
+    this.flushing ??= this.drain().finally(() => {
+      this.flushing = undefined;
+    });
+    return this.flushing;
+  }
+
+  // Entries not yet stored: in memory, and in the spool awaiting replay
+  queueStatus(): { buffered: number; spooled: number } {
+    const { spoolFile } = config.logs;
+    const spooled = [spoolFile, `${spoolFile}.replaying`]
+      .filter(file => fs.existsSync(file))
+      .reduce((sum, file) => sum + fs.readFileSync(file, 'utf8').split('\n').filter(line => line.trim() !== '').length, 0);
+    return { buffered: this.buffer.length, spooled };
+  }
+
+  // Stops the flush timer and writes what is left; call before the process exits
+  async close(): Promise<void> {
+    clearInterval(this.timer);
+    await this.flush();
+  }
+
+  private async drain(): Promise<void> {
+    await this.ready;
+
+    while (this.buffer.length > 0) {
+      const batch = this.buffer.splice(0, config.logs.batchSize);
+      if (!(await this.insertWithRetry(batch))) {
+        // The store is down; later entries would fail the same way
+        this.spool([...batch, ...this.buffer.splice(0)]);
+        return;
+      }
+    }
+
+    await this.replaySpool();
+  }
+
+  private async insertWithRetry(entries: ErrorLogEntry[]): Promise<boolean> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await storage.errorLogs.insert(entries);
+        return true;
+      } catch (error) {
+        if (attempt >= MAX_ATTEMPTS) {
+          console.error(`Error logging failed after ${attempt} attempts:`, error);
+          return false;
+        }
+        await sleep(RETRY_DELAY_MS * 2 ** (attempt - 1));
+      }
+    }
+  }
+
+  private spool(entries: ErrorLogEntry[]): void {
+    const { spoolFile } = config.logs;
+    try {
+      fs.mkdirSync(path.dirname(spoolFile), { recursive: true });
+      fs.appendFileSync(spoolFile, entries.map(entry => JSON.stringify(entry) + '\n').join(''));
+      console.error(`Spooled ${entries.length} log entries to ${spoolFile}`);
+    } catch (error) {
+      // Fallback to console logging if the spool cannot be written either
+      console.error('Error spooling failed, using console fallback:', error);
+      for (const entry of entries) {
+        this.consoleLog(entry.level, entry.message, entry.source, entry.details);
+      }
+    }
+  }
+
+  /**
+   * Writes spooled entries to the store. The spool is renamed first so new
+   * failures start a fresh file; a crash mid-replay leaves the renamed file,
+   * which is replayed (possibly storing some entries twice) on the next pass.
+   */
+  private async replaySpool(): Promise<void> {
+    const { spoolFile, batchSize } = config.logs;
+    const replaying = `${spoolFile}.replaying`;
     try {
-      const logEntry: ErrorLogEntry = {
-        timestamp: new Date().toISOString(),
-        level,
-        message,
-        source,
-        details: details ? JSON.stringify(details) : null,
-        userId: req?.user?.id || req?.userId || null,
-        ipAddress: req?.ip || req?.connection?.remoteAddress || null,
-        userAgent: req?.get?.('User-Agent') || null,
-      };
-
-      // Try to insert into Supabase
-      const { error } = await supabase
-        .from('error_logs')
-        .insert([{
-          timestamp: logEntry.timestamp,
-          level: logEntry.level,
-          message: logEntry.message,
-          source: logEntry.source,
-          details: logEntry.details,
-          user_id: logEntry.userId,
-          ip_address: logEntry.ipAddress,
-          user_agent: logEntry.userAgent,
-        }]);
-
-      if (error) {
-        // Fallback to console logging if Supabase fails
-        console.error('Failed to log to Supabase, using console fallback:', error);
-        this.consoleLog(level, message, source, details);
+      if (!fs.existsSync(replaying)) {
+        if (!fs.existsSync(spoolFile)) return;
+        fs.renameSync(spoolFile, replaying);
       }
+
+      const entries: ErrorLogEntry[] = fs.readFileSync(replaying, 'utf8')
+        .split('\n')
+        .filter(line => line.trim() !== '')
+        // A line cut short by a crash while spooling is skipped
+        .flatMap(line => {
+          try {
+            return [JSON.parse(line)];
+          } catch {
+            return [];
+          }
+        });
+
+      for (let start = 0; start < entries.length; start += batchSize) {
+        if (!(await this.insertWithRetry(entries.slice(start, start + batchSize)))) {
+          this.spool(entries.slice(start));
+          break;
+        }
+      }
+      fs.unlinkSync(replaying);
     } catch (error) {
-      // Ultimate fallback to console
-      console.error('Error logging failed:', error);
-      this.consoleLog(level, message, source, details);
+      console.error(`Error replaying spooled log entries from ${replaying}:`, error);
     }
   }
 
@@ -169,49 +227,19 @@ CREATE INDEX idx_error_logs_source ON error_logs(source);
     return this.log('debug', message, source, details, req);
   }
 
-  // Method to retrieve logs (useful for debugging)
-  async getLogs(
-    limit: number = 100,
-    level?: string,
-    source?: string,
-    startDate?: string,
-    endDate?: string
-  ): Promise<ErrorLogEntry[]> {
-    try {
-      let query = supabase
-        .from('error_logs')
-        .select('*')
-        .order('timestamp', { ascending: false })
-        .limit(limit);
-
-      if (level) {
-        query = query.eq('level', level);
-      }
-
-      if (source) {
-        query = query.eq('source', source);
-      }
-
-      if (startDate) {
-        query = query.gte('timestamp', startDate);
-      }
-
-      if (endDate) {
-        query = query.lte('timestamp', endDate);
-      }
-
-      const { data, error } = await query;
+  // Logged entries matching `query`, newest first; backs GET /api/logs
+  async getLogs(query: ErrorLogQuery): Promise<PageResult<ErrorLogEntry>> {
+    return storage.errorLogs.query(query);
+  }
 
-      if (error) {
-        console.error('Error fetching logs:', error);
-        return [];
-      }
+  // Counts by level, source and hour or day; backs GET /api/logs/stats
+  async getLogStats(filter: ErrorLogFilter, interval: LogStatsInterval): Promise<LogStats> {
+    return storage.errorLogs.summarize(filter, interval);
+  }
 
-      return data || [];
-    } catch (error) {
-      console.error('Error retrieving logs:', error);
-      return [];
-    }
+  // Deletes entries logged at or before `until`; resolves to how many
+  async purgeLogs(until: string): Promise<number> {
+    return storage.errorLogs.purge(until);
   }
 }
 
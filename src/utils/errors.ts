@@ -0,0 +1,65 @@
+import { ApiErrorCode } from "@shared/api";
+
+/**
+ * An error with a known HTTP meaning. Thrown from a handler, middleware or
+ * storage, it reaches errorHandler, which answers with `status` and the
+ * standard error body. Anything else thrown becomes a 500.
+ */
+export class AppError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: ApiErrorCode,
+    message: string,
+    public readonly details?: unknown,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+// The request is well-formed but its content is not acceptable
+export class ValidationError extends AppError {
+  constructor(message: string, details?: unknown) {
+    super(400, "VALIDATION_ERROR", message, details);
+  }
+}
+
+export class AuthenticationError extends AppError {
+  constructor(message = "Authentication required") {
+    super(401, "UNAUTHENTICATED", message);
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message: string, details?: unknown) {
+    super(403, "FORBIDDEN", message, details);
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message: string, details?: unknown) {
+    super(404, "NOT_FOUND", message, details);
+  }
+}
+
+// The request clashes with the current state, e.g. a duplicate name
+export class ConflictError extends AppError {
+  constructor(message: string, details?: unknown, options?: ErrorOptions) {
+    super(409, "CONFLICT", message, details, options);
+  }
+}
+
+// The request is valid on its own but cannot be applied, e.g. a reused idempotency key
+export class UnprocessableError extends AppError {
+  constructor(message: string, details?: unknown) {
+    super(422, "UNPROCESSABLE", message, details);
+  }
+}
+
+// A service the API depends on (the database) failed; `cause` holds its error
+export class UpstreamError extends AppError {
+  constructor(message: string, cause: unknown) {
+    super(502, "UPSTREAM_ERROR", message, undefined, { cause });
+  }
+}
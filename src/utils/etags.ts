@@ -0,0 +1,33 @@
+import { Request, Response } from "express";
+import { recordETag } from "@shared/etag";
+import { ConflictError } from "./errors";
+
+/** Sets the ETag of the single record a response carries. */
+export const setETag = (res: Response, record: object): void => {
+  res.set("ETag", recordETag(record));
+};
+
+/**
+ * Checks the request's `If-Match` against `current`, the stored record an
+ * update is about to replace. Requests without the header update
+ * unconditionally; `*` matches any existing record. On a mismatch the
+ * current record's ETag is set on the response and a ConflictError carrying
+ * the record is thrown, so the client can merge and retry.
+ *
+ * Tags are compared strongly, as RFC 9110 requires for If-Match: a weak tag
+ * (`W/"..."`) never matches. The check and the update that follows are
+ * separate storage calls, so two requests carrying the same ETag that arrive
+ * together can both pass; If-Match guards against stale edits, not against
+ * simultaneous ones.
+ */
+export const assertIfMatch = (req: Request, res: Response, current: object): void => {
+  const header = req.get("If-Match");
+  if (!header) return;
+
+  const etag = recordETag(current);
+  const accepted = header.split(",").map(tag => tag.trim());
+  if (accepted.includes("*") || accepted.includes(etag)) return;
+
+  setETag(res, current);
+  throw new ConflictError("Record has changed since it was read", { current });
+};
@@ -0,0 +1,72 @@
+import { randomBytes } from 'crypto';
+import { EventEmitter } from 'events';
+import { ChangeEvent, ChangeEventData, ChangeEventType, CHANGE_EVENT_ENTITIES } from '@shared/event-types';
+import { FarmStorage } from '../storage';
+import { getRequestContext } from './requestContext';
+
+/**
+ * In-process publish/subscribe for change events, streamed to clients by
+ * GET /api/events. The most recent events are kept so a reconnecting client
+ * can catch up from its Last-Event-ID. Events are not shared between server
+ * processes.
+ */
+
+// Events kept for clients resuming with Last-Event-ID
+const HISTORY_SIZE = 1000;
+
+// Ids are "<process>-<sequence>", so an id from before a restart is recognized as unresumable
+const PROCESS_ID = randomBytes(4).toString('hex');
+
+const history: ChangeEvent[] = [];
+const emitter = new EventEmitter();
+// One listener per open stream
+emitter.setMaxListeners(0);
+let sequence = 0;
+
+const sequenceOf = (eventId: string): number | undefined => {
+  const [processId, value] = eventId.split('-');
+  const parsed = Number(value);
+  return processId === PROCESS_ID && Number.isInteger(parsed) ? parsed : undefined;
+};
+
+/** Publishes a change to `farm`'s data; the actor comes from the current request. */
+export const publishEvent = <T extends ChangeEventType>(farm: FarmStorage, type: T, data: ChangeEventData[T]): void => {
+  const event: ChangeEvent<T> = {
+    id: `${PROCESS_ID}-${++sequence}`,
+    type,
+    entity: CHANGE_EVENT_ENTITIES[type],
+    farmId: farm.farmId,
+    timestamp: new Date().toISOString(),
+    userId: getRequestContext()?.user?.id,
+    data,
+  };
+
+  history.push(event);
+  if (history.length > HISTORY_SIZE) history.shift();
+  emitter.emit('event', event);
+};
+
+/** Calls `listener` with every event published from now on; returns an unsubscribe function. */
+export const subscribeEvents = (listener: (event: ChangeEvent) => void): (() => void) => {
+  emitter.on('event', listener);
+  return () => {
+    emitter.off('event', listener);
+  };
+};
+
+/**
+ * Events published after `lastEventId`, oldest first. Undefined when they
+ * cannot all be replayed: the id is from another process or has already
+ * dropped out of the history.
+ */
+export const eventsSince = (lastEventId: string): ChangeEvent[] | undefined => {
+  const last = sequenceOf(lastEventId);
+  if (last === undefined || last > sequence) return undefined;
+
+  const oldestKept = history.length > 0 ? sequenceOf(history[0].id)! : sequence + 1;
+  if (last < oldestKept - 1) return undefined;
+  return history.filter(event => sequenceOf(event.id)! > last);
+};
+
+// Id of the newest event, for clients told to start over
+export const latestEventId = (): string => `${PROCESS_ID}-${sequence}`;
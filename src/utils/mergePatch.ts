@@ -0,0 +1,56 @@
+import { AnyZodObject, z } from "zod";
+import { Changes } from "../storage";
+import { toFieldErrors } from "../middleware/validate";
+import { ValidationError } from "./errors";
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * RFC 7396: null removes a member, objects merge member by member and any
+ * other value replaces the target's. Blank fields, which the patch schemas
+ * parse to undefined, are removed like null ones.
+ */
+export const applyMergePatch = (target: JsonObject, patch: JsonObject): JsonObject => {
+  const result = { ...target };
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null || value === undefined) {
+      delete result[key];
+    } else if (isObject(value)) {
+      result[key] = applyMergePatch(isObject(result[key]) ? result[key] : {}, value);
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+};
+
+/**
+ * Applies a merge patch to `current`, the stored record, and validates the
+ * result against `schema`, the create schema for that kind of record, so a
+ * patch cannot empty a required field or leave the record invalid. Resolves
+ * to the changes to store: every patched field as parsed, or null where the
+ * patch removed it and the schema has no default.
+ */
+export const toMergeChanges = <S extends AnyZodObject>(
+  current: object,
+  patch: JsonObject,
+  schema: S,
+): Changes<z.infer<S>> => {
+  // Null columns read from the database are absent fields
+  const stored = Object.fromEntries(Object.entries(current).filter(([, value]) => value !== null));
+
+  const result = schema.safeParse(applyMergePatch(stored, patch));
+  if (!result.success) {
+    throw new ValidationError("Invalid request body", toFieldErrors(result.error));
+  }
+
+  const merged: JsonObject = result.data;
+  return Object.fromEntries(
+    Object.keys(patch)
+      .filter(key => key in schema.shape)
+      .map(key => [key, merged[key] ?? null]),
+  ) as Changes<z.infer<S>>;
+};
@@ -0,0 +1,82 @@
+/**
+ * In-memory request metrics, rendered in the Prometheus text exposition
+ * format by GET /api/metrics. Counts start from zero on every restart, which
+ * Prometheus handles as a counter reset.
+ */
+
+type Labels = Record<string, string>;
+
+interface Series<T> {
+  labels: Labels;
+  value: T;
+}
+
+interface Histogram {
+  // Cumulative: bucketCounts[i] counts observations <= LATENCY_BUCKETS[i]
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+// Upper bounds, in seconds, of the latency histogram buckets
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const requestCounts = new Map<string, Series<number>>();
+const requestLatencies = new Map<string, Series<Histogram>>();
+
+const seriesOf = <T>(map: Map<string, Series<T>>, labels: Labels, initial: () => T): Series<T> => {
+  const key = JSON.stringify(labels);
+  let series = map.get(key);
+  if (!series) {
+    series = { labels, value: initial() };
+    map.set(key, series);
+  }
+  return series;
+};
+
+/**
+ * Records a finished request. `route` is the matched route pattern (e.g.
+ * `/api/animals/:id`) rather than the raw path, so ids do not create a new
+ * series per record.
+ */
+export const recordRequest = (method: string, route: string, status: number, seconds: number): void => {
+  seriesOf(requestCounts, { method, route, status: String(status) }, () => 0).value++;
+
+  const latency = seriesOf(requestLatencies, { method, route }, () => ({
+    bucketCounts: LATENCY_BUCKETS.map(() => 0),
+    sum: 0,
+    count: 0,
+  })).value;
+  LATENCY_BUCKETS.forEach((bound, index) => {
+    if (seconds <= bound) latency.bucketCounts[index]++;
+  });
+  latency.sum += seconds;
+  latency.count++;
+};
+
+const escapeLabel = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+const formatLabels = (labels: Labels) =>
+  `{${Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`).join(",")}}`;
+
+export const renderMetrics = (): string => {
+  const lines = [
+    "# HELP http_requests_total Requests handled, by method, route and status code.",
+    "# TYPE http_requests_total counter",
+    ...[...requestCounts.values()].map(({ labels, value }) => `http_requests_total${formatLabels(labels)} ${value}`),
+    "# HELP http_request_duration_seconds Request latency, by method and route.",
+    "# TYPE http_request_duration_seconds histogram",
+  ];
+
+  for (const { labels, value } of requestLatencies.values()) {
+    LATENCY_BUCKETS.forEach((bound, index) => {
+      lines.push(`http_request_duration_seconds_bucket${formatLabels({ ...labels, le: String(bound) })} ${value.bucketCounts[index]}`);
+    });
+    lines.push(`http_request_duration_seconds_bucket${formatLabels({ ...labels, le: "+Inf" })} ${value.count}`);
+    lines.push(`http_request_duration_seconds_sum${formatLabels(labels)} ${value.sum}`);
+    lines.push(`http_request_duration_seconds_count${formatLabels(labels)} ${value.count}`);
+  }
+
+  return `${lines.join("\n")}\n`;
+};
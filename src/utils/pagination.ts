@@ -0,0 +1,55 @@
+import { PaginatedResponse } from "@shared/api";
+import { DEFAULT_PAGE_SIZE } from "@shared/schema-helpers";
+import { PageResult } from "../storage";
+import { ValidationError } from "./errors";
+
+export interface PageParams {
+  page?: number;
+  pageSize?: number;
+  cursor?: string;
+}
+
+export interface PageWindow {
+  offset: number;
+  limit: number;
+}
+
+// Cursors are opaque to clients; they carry the offset of the page they start
+export const encodeCursor = (offset: number): string =>
+  Buffer.from(`o:${offset}`).toString("base64url");
+
+export const decodeCursor = (cursor: string): number | null => {
+  const match = /^o:(\d+)$/.exec(Buffer.from(cursor, "base64url").toString());
+  return match ? Number(match[1]) : null;
+};
+
+// List endpoints answer with a PaginatedResponse only when paging is requested
+export const isPaged = ({ page, pageSize, cursor }: PageParams): boolean =>
+  page !== undefined || pageSize !== undefined || cursor !== undefined;
+
+// Resolves page/pageSize/cursor into a row window; throws when the cursor is unreadable
+export const toPageWindow = ({ page, pageSize, cursor }: PageParams): PageWindow => {
+  const limit = pageSize ?? DEFAULT_PAGE_SIZE;
+  if (cursor === undefined) {
+    return { offset: ((page ?? 1) - 1) * limit, limit };
+  }
+
+  const offset = decodeCursor(cursor);
+  if (offset === null) {
+    throw new ValidationError("Invalid query parameters", [{ field: "cursor", message: "Invalid cursor" }]);
+  }
+  return { offset, limit };
+};
+
+export const toPaginatedResponse = <T>(
+  { items, total }: PageResult<T>,
+  { offset, limit }: PageWindow,
+): PaginatedResponse<T> => ({
+  data: items,
+  total,
+  page: Math.floor(offset / limit) + 1,
+  pageSize: limit,
+  totalPages: Math.ceil(total / limit),
+  nextCursor: offset + limit < total ? encodeCursor(offset + limit) : undefined,
+});
+
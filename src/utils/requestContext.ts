@@ -0,0 +1,30 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { RequestHandler } from 'express';
+import { Role } from '@shared/auth-types';
+
+export interface AuthUser {
+  id: string;
+  username: string;
+  role: Role;
+}
+
+/** Per-request state available to code that has no access to `req` (e.g. the logger). */
+export interface RequestContext {
+  // Assigned by requestLogger; recorded with every log entry
+  requestId: string;
+  user?: AuthUser;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+const contextStorage = new AsyncLocalStorage<RequestContext>();
+
+export const getRequestContext = (): RequestContext | undefined => contextStorage.getStore();
+
+// Must be registered after requestLogger and the body parsers so the context survives into handlers
+export const requestContext: RequestHandler = (req, _res, next) => {
+  contextStorage.run(
+    { requestId: req.requestId!, ipAddress: req.ip, userAgent: req.get('User-Agent') },
+    next,
+  );
+};
@@ -0,0 +1,55 @@
+import crypto from 'crypto';
+import { Role } from '@shared/auth-types';
+
+export interface TokenClaims {
+  sub: string;
+  username: string;
+  role: Role;
+  // Set on event stream tokens, which open GET /api/events on one farm and nothing else
+  scope?: 'events';
+  farmId?: string;
+  iat: number;
+  exp: number;
+}
+
+const encode = (value: object): string =>
+  Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const sign = (payload: string, secret: string): string =>
+  crypto.createHmac('sha256', secret).update(payload).digest('base64url');
+
+const HEADER = encode({ alg: 'HS256', typ: 'JWT' });
+
+/** Issues an HS256 JWT valid for `ttlSeconds`. */
+export const signToken = (
+  claims: Pick<TokenClaims, 'sub' | 'username' | 'role' | 'scope' | 'farmId'>,
+  secret: string,
+  ttlSeconds: number,
+): { token: string; expiresAt: string } => {
+  const iat = Math.floor(Date.now() / 1000);
+  const exp = iat + ttlSeconds;
+  const payload = `${HEADER}.${encode({ ...claims, iat, exp })}`;
+  return {
+    token: `${payload}.${sign(payload, secret)}`,
+    expiresAt: new Date(exp * 1000).toISOString(),
+  };
+};
+
+/** Returns the claims of a well-formed, correctly signed, unexpired token; otherwise null. */
+export const verifyToken = (token: string, secret: string): TokenClaims | null => {
+  const parts = token.split('.');
+  if (parts.length !== 3 || parts[0] !== HEADER) return null;
+
+  const expected = Buffer.from(sign(`${parts[0]}.${parts[1]}`, secret));
+  const actual = Buffer.from(parts[2]);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const claims: TokenClaims = JSON.parse(Buffer.from(parts[1], 'base64url').toString());
+    return claims.exp > Date.now() / 1000 ? claims : null;
+  } catch {
+    return null;
+  }
+};
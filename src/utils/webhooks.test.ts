@@ -0,0 +1,76 @@
+import { createHmac } from 'crypto';
+import http, { IncomingHttpHeaders } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { TestApi, goat, setupOwner, startApi } from '../test/api';
+import { signPayload } from './webhooks';
+
+interface Received {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+describe('webhooks', () => {
+  const SECRET = 'subscriber-secret-0123456789';
+  const received: Received[] = [];
+  let subscriber: http.Server;
+  let subscriberUrl: string;
+  let api: TestApi;
+  let token: string;
+
+  beforeAll(async () => {
+    subscriber = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => subscriber.listen(0, '127.0.0.1', resolve));
+    subscriberUrl = `http://127.0.0.1:${(subscriber.address() as AddressInfo).port}/hooks`;
+
+    api = await startApi();
+    token = await setupOwner(api);
+  });
+
+  afterAll(async () => {
+    await api.close();
+    await new Promise(resolve => subscriber.close(resolve));
+  });
+
+  it('signs "<timestamp>.<body>" with HMAC-SHA256', () => {
+    const expected = createHmac('sha256', SECRET).update('1700000000.{"a":1}').digest('hex');
+    expect(signPayload(SECRET, '1700000000', '{"a":1}')).toBe(`sha256=${expected}`);
+  });
+
+  it('delivers events signed with the subscription secret', async () => {
+    const webhook = await api.request('POST', '/webhooks', {
+      token,
+      body: { url: subscriberUrl, events: ['animal.sold'], secret: SECRET },
+    });
+    expect(webhook.status).toBe(201);
+
+    const animal = (await api.request('POST', '/animals', { token, body: goat() })).body;
+    await api.request('PATCH', `/animals/${animal.id}`, {
+      token,
+      body: { status: 'sold', saleDate: '2025-05-01' },
+      headers: { 'Content-Type': 'application/merge-patch+json' },
+    });
+
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    const [{ headers, body }] = received;
+    const timestamp = headers['x-webhook-timestamp'] as string;
+    expect(headers['x-webhook-event']).toBe('animal.sold');
+    expect(headers['x-webhook-signature']).toBe(signPayload(SECRET, timestamp, body));
+    expect(headers['x-webhook-signature']).not.toBe(signPayload('some-other-secret-value', timestamp, body));
+    expect(JSON.parse(body)).toMatchObject({ event: 'animal.sold', farmId: '1', data: { animal: { id: animal.id } } });
+
+    const deliveries = await vi.waitFor(async () => {
+      const response = await api.request('GET', `/webhooks/${webhook.body.id}/deliveries`, { token });
+      expect(response.body.data[0].status).toBe('succeeded');
+      return response;
+    });
+    expect(deliveries.body.data).toHaveLength(1);
+  });
+});
@@ -0,0 +1,203 @@
+import { createHmac, randomUUID } from 'crypto';
+import {
+  WebhookAttempt,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEventData,
+  WebhookEventType,
+  WebhookPayload,
+} from '@shared/webhook-types';
+import config from '../config';
+import { FarmStorage } from '../storage';
+import logger from './errorLogger';
+
+/**
+ * Outbound webhooks. Each event is POSTed as a JSON WebhookPayload to every
+ * active subscription of the farm that asked for it. A delivery that does not
+ * get a 2xx response is retried by the deliverWebhooks job with exponential
+ * backoff until it succeeds or runs out of attempts; every delivery and its
+ * last attempt are kept in the farm's delivery log.
+ *
+ * Requests carry the subscription's signature of the body:
+ *   X-Webhook-Timestamp: <Unix seconds>
+ *   X-Webhook-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<body>" keyed with the secret>
+ */
+
+// Start of a subscriber's error response kept in the delivery log
+const RESPONSE_EXCERPT_LENGTH = 200;
+
+// Deliveries being attempted, so the retry job never sends one a second time in parallel
+const inFlight = new Set<string>();
+
+export const signPayload = (secret: string, timestamp: string, body: string): string =>
+  `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+// Wait after the nth failed attempt
+const retryDelayMs = (attempts: number) => config.webhooks.retryBaseMs * 2 ** (attempts - 1);
+
+const describeFailure = (error: unknown): string => {
+  if (error instanceof Error && error.name === 'TimeoutError') {
+    return `No response within ${config.webhooks.timeoutMs} ms`;
+  }
+  // fetch reports connection failures as "fetch failed" with the reason as the cause
+  const cause = error instanceof Error && error.cause instanceof Error ? error.cause : undefined;
+  return cause?.message || (error instanceof Error ? error.message : String(error));
+};
+
+const post = async (url: string, secret: string, delivery: WebhookDelivery): Promise<WebhookAttempt> => {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const at = new Date().toISOString();
+  const started = Date.now();
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': `farm-api-webhooks/${config.version}`,
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Delivery': delivery.id,
+        'X-Webhook-Timestamp': timestamp,
+        'X-Webhook-Signature': signPayload(secret, timestamp, body),
+      },
+      body,
+      // A redirect is not a successful delivery
+      redirect: 'manual',
+      signal: AbortSignal.timeout(config.webhooks.timeoutMs),
+    });
+    const text = await response.text();
+    return {
+      at,
+      durationMs: Date.now() - started,
+      responseStatus: response.status,
+      ...(!response.ok && {
+        error: `HTTP ${response.status}${text ? `: ${text.slice(0, RESPONSE_EXCERPT_LENGTH)}` : ''}`,
+      }),
+    };
+  } catch (error) {
+    return { at, durationMs: Date.now() - started, error: describeFailure(error) };
+  }
+};
+
+/**
+ * Makes one attempt at a pending delivery and records the outcome: succeeded
+ * on a 2xx response, otherwise pending with the next attempt scheduled, or
+ * failed once WEBHOOK_MAX_ATTEMPTS is reached. Resolves to the delivery as
+ * stored afterwards.
+ */
+export const attemptDelivery = async (farm: FarmStorage, delivery: WebhookDelivery): Promise<WebhookDelivery> => {
+  const key = `${farm.farmId}:${delivery.id}`;
+  if (delivery.status !== 'pending' || inFlight.has(key)) return delivery;
+
+  inFlight.add(key);
+  try {
+    // Another attempt may have finished since `delivery` was read
+    const current = await farm.webhookDeliveries.findById(delivery.id);
+    if (!current || current.status !== 'pending' || current.attempts !== delivery.attempts) {
+      return current ?? delivery;
+    }
+
+    const webhook = await farm.webhooks.findById(delivery.webhookId);
+    // The subscription was deleted, taking its deliveries with it
+    if (!webhook) return delivery;
+
+    const lastAttempt = await post(webhook.url, webhook.secret, delivery);
+    const attempts = delivery.attempts + 1;
+    const status: WebhookDeliveryStatus = !lastAttempt.error
+      ? 'succeeded'
+      : attempts >= config.webhooks.maxAttempts ? 'failed' : 'pending';
+
+    const updated = await farm.webhookDeliveries.update(delivery.id, {
+      status,
+      attempts,
+      lastAttempt,
+      nextAttemptAt: status === 'pending' ? new Date(Date.now() + retryDelayMs(attempts)).toISOString() : undefined,
+    });
+    if (status === 'failed') {
+      await logger.warn(`Webhook delivery ${delivery.id} failed after ${attempts} attempts`, 'webhooks.attemptDelivery', {
+        farmId: farm.farmId,
+        webhookId: delivery.webhookId,
+        event: delivery.event,
+        error: lastAttempt.error,
+      });
+    }
+    return updated ?? delivery;
+  } finally {
+    inFlight.delete(key);
+  }
+};
+
+// Attempts without holding up the caller; failures are left to the retry job
+const attemptInBackground = (farm: FarmStorage, delivery: WebhookDelivery) => {
+  attemptDelivery(farm, delivery).catch(error =>
+    logger.error(`Failed to attempt webhook delivery ${delivery.id}`, 'webhooks.attemptDelivery', error),
+  );
+};
+
+/**
+ * Queues `event` for every active subscription of `farm` that asked for it
+ * and sends it straight away in the background. A failure to queue is logged
+ * rather than failing the request whose change triggered the event, which has
+ * already happened.
+ */
+export const dispatchWebhook = async <T extends WebhookEventType>(
+  farm: FarmStorage,
+  event: T,
+  data: WebhookEventData[T],
+): Promise<void> => {
+  try {
+    const subscribers = (await farm.webhooks.list()).filter(webhook => webhook.active && webhook.events.includes(event));
+    if (subscribers.length === 0) return;
+
+    const payload: WebhookPayload<T> = {
+      id: randomUUID(),
+      event,
+      farmId: farm.farmId,
+      timestamp: new Date().toISOString(),
+      data,
+    };
+    for (const webhook of subscribers) {
+      const delivery = await farm.webhookDeliveries.create({
+        webhookId: webhook.id,
+        event,
+        payload,
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: payload.timestamp,
+        createdAt: payload.timestamp,
+      });
+      attemptInBackground(farm, delivery);
+    }
+  } catch (error) {
+    await logger.error(`Failed to queue ${event} webhooks`, 'webhooks.dispatchWebhook', error);
+  }
+};
+
+/**
+ * Sends an earlier delivery's payload again as a new delivery, with its own
+ * attempts and retries, and resolves to it after the first attempt.
+ */
+export const redeliver = async (farm: FarmStorage, original: WebhookDelivery): Promise<WebhookDelivery> => {
+  const now = new Date().toISOString();
+  const delivery = await farm.webhookDeliveries.create({
+    webhookId: original.webhookId,
+    event: original.event,
+    payload: original.payload,
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: now,
+    redeliveryOf: original.id,
+    createdAt: now,
+  });
+  return attemptDelivery(farm, delivery);
+};
+
+/** Attempts every pending delivery of `farm` that is due; resolves to how many were tried. */
+export const retryDueDeliveries = async (farm: FarmStorage): Promise<number> => {
+  const due = await farm.webhookDeliveries.listDue(new Date().toISOString());
+  for (const delivery of due) {
+    await attemptDelivery(farm, delivery);
+  }
+  return due.length;
+};